@@ -1,19 +1,144 @@
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { LineChart, Line, YAxis, ResponsiveContainer, XAxis, Tooltip, ReferenceLine } from 'recharts';
-import { ShieldAlert, Activity, Eye, Mic, Power, Cpu, ScanLine, Fingerprint, Lock, Ear, ShieldCheck, AlertTriangle, Radio } from 'lucide-react';
-import { geminiLive } from './services/geminiLiveService';
-import { LogEntry, SessionStatus, BiometricData } from './types';
+import { ShieldAlert, Activity, Eye, Mic, Power, Cpu, ScanLine, Fingerprint, Lock, Ear, ShieldCheck, AlertTriangle, Radio, FolderOpen, Archive, ChartLine, X, ListChecks, SlidersHorizontal, FileVideo, CloudUpload, Play, Square } from 'lucide-react';
+import { analysisBackend } from './services/backendFactory';
+import { AnalysisBackend, ConnectionEvent } from './services/analysisBackend';
+import { ReplayBackend } from './services/replayBackend';
+import { loadRelayToken, saveRelayToken } from './services/relayClient';
+import { SessionRecorder, SessionRecording, parseRecording, downloadRecording } from './services/sessionRecorder';
+import { parseVerdictTag, stripVerdictTag, tagPattern } from './services/verdictParser';
+import { saveSession, defaultSessionName, labelStatement } from './services/sessionArchive';
+import { matchStatements } from './services/reportExport';
+import { loadSavedPlan, savePlan } from './services/interviewPlan';
+import { DEFAULT_PROFILE, loadProfiles, saveProfiles, loadActiveProfileId, saveActiveProfileId } from './services/profiles';
+import { PulseEstimator, defaultFaceRegion, skinRegion, NO_PULSE } from './services/rppg';
+import { faceToElementBox } from './services/faceTracker';
+import { VideoStats } from './services/frameSender';
+import { UtteranceTracker, utterancesFromLogs } from './services/utterances';
+import { maskKeywords, loadRedaction, saveRedaction, loadOperator, saveOperator } from './services/redaction';
+import { VOICED_RMS, END_SILENCE_SEC, vocalStressScore } from './services/vocalFeatures';
+import { FILE_PLAYBACK_RATES, playMediaFile, closeMediaFile, formatMediaTime } from './services/mediaFile';
+import { InputDevices, OpenedSource, SourceSelection, listInputDevices, openSource, loadSourceSelection, saveSourceSelection } from './services/mediaSources';
+import { ANALYZE_KEY, TALK_KEY, TurnMode, loadTurnMode, saveTurnMode } from './services/turnMode';
+import { cueSpikes, verdictCues } from './services/cues';
+import { ModelAudioRecorder, OutputSettings, listOutputDevices, loadOutputSettings, playClip, saveOutputSettings } from './services/audioOutput';
+import { NEUTRAL_PROMPTS, BaselineAccumulator, SpeechRateMeter, isCalibrationQuestion, relativeTo, loadBaselines, saveBaseline } from './services/calibration';
+import { LogEntry, SessionStatus, BiometricData, PulseStatus, QuestionCategory, Verdict, ArchivedSession, ProbabilitySample, InterviewQuestion, SubjectBaseline, AudioFrameFeatures, VocalFeatures, InterrogatorProfile, FaceBox, ConsentRecord, RedactionSettings, Utterance, GroundTruth, ModelAudioClip } from './types';
 import { Panel, Button } from './components/HolographicComponents';
+import { SessionArchive } from './components/SessionArchive';
+import { MetricsPage } from './components/MetricsPage';
+import { CuePanel } from './components/CuePanel';
+import { ReportExportButtons } from './components/ReportExport';
+import { InterviewPlanEditor, QuestionStepper, CategorySummary } from './components/InterviewPlan';
+import { SubjectSetup, CalibrationBar, BaselineReadout } from './components/Calibration';
+import { ProfileSettings } from './components/ProfileSettings';
+import { SourcePicker } from './components/SourcePicker';
+import { TurnControls } from './components/TurnControls';
+import { OutputControls } from './components/OutputControls';
+import { ConsentDialog } from './components/ConsentDialog';
+import { Timeline, TimelineSegment } from './components/Timeline';
+import { LocaleSwitcher, useI18n } from './components/I18n';
+import { Locale, MessageKey, translator, formatTime } from './services/i18n';
+
+const IDLE_BIOMETRICS: BiometricData = { pulse: NO_PULSE, stressLevel: null, pupilDilation: 3.2 };
+
+const PULSE_STATUS_KEYS: Record<PulseStatus, MessageKey> = {
+  ok: 'bio.pulse.ok',
+  'warming-up': 'bio.pulse.warmingUp',
+  'no-face': 'bio.pulse.noFace',
+  'low-quality': 'bio.pulse.lowQuality',
+};
+
+const CATEGORY_KEYS: Record<QuestionCategory, MessageKey> = {
+  control: 'category.control',
+  relevant: 'category.relevant',
+  irrelevant: 'category.irrelevant',
+};
+
+const GROUND_TRUTHS: GroundTruth[] = ['true', 'false', 'unknown'];
+
+const GROUND_TRUTH_KEYS: Record<GroundTruth, MessageKey> = {
+  true: 'label.true',
+  false: 'label.false',
+  unknown: 'label.unknown',
+};
+
+/** A log line stamped now, with the time written the way the current locale writes it. */
+const logEntry = (id: string, message: string, type: LogEntry['type'], locale: Locale, mediaTime?: number): LogEntry => {
+  const time = Date.now();
+  const entry: LogEntry = { id, time, timestamp: formatTime(time, locale), message, type };
+  if (mediaTime !== undefined) entry.mediaTime = mediaTime;
+  return entry;
+};
+
+/**
+ * Where a session's media comes from: the picked camera/mic or shared screen,
+ * a file, or nothing at all for replays, which bring their own.
+ */
+type SessionSource = { kind: 'live' } | { kind: 'file'; file: File } | { kind: 'replay'; recording: SessionRecording };
+
+const LIVE: SessionSource = { kind: 'live' };
+
+// The gauge's band edges, left to right
+const BAND_EDGES = ['suspicious', 'deception'] as const;
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<SessionStatus>(SessionStatus.IDLE);
   const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [biometrics, setBiometrics] = useState<BiometricData>({ heartRate: 75, stressLevel: 15, pupilDilation: 3.2 });
+  const [biometrics, setBiometrics] = useState<BiometricData>(IDLE_BIOMETRICS);
   const [lieProbability, setLieProbability] = useState<number>(0);
   const [history, setHistory] = useState<{time: number, value: number}[]>([]);
-  const [lastAnalysis, setLastAnalysis] = useState<string>('系统待机...');
+  const [utterances, setUtterances] = useState<Utterance[]>([]);
+  // Statement picked on the timeline or in the log
+  const [selectedUtteranceId, setSelectedUtteranceId] = useState<string | null>(null);
+  // The latest verdict's rationale; empty until the model has judged something
+  const [lastAnalysis, setLastAnalysis] = useState('');
+  const [verdicts, setVerdicts] = useState<Verdict[]>([]);
   const [inputVolume, setInputVolume] = useState<number>(0);
+  const [backendName, setBackendName] = useState<string>(analysisBackend.name);
+  const [isRecordingEnabled, setIsRecordingEnabled] = useState(false);
+  const [showArchive, setShowArchive] = useState(false);
+  const [showMetrics, setShowMetrics] = useState(false);
+  const [showCues, setShowCues] = useState(false);
+  const [viewingSession, setViewingSession] = useState<ArchivedSession | null>(null);
+  const [lastSession, setLastSession] = useState<ArchivedSession | null>(null);
+  // Ground truth for the running session's statements; once it is archived, labels go straight to the archive
+  const [labels, setLabels] = useState<Record<string, GroundTruth>>({});
+  const [archivedId, setArchivedId] = useState<string | null>(null);
+  const [questions, setQuestions] = useState<InterviewQuestion[]>(loadSavedPlan);
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [showPlanEditor, setShowPlanEditor] = useState(false);
+  const [subject, setSubject] = useState('');
+  const [calibrateEnabled, setCalibrateEnabled] = useState(false);
+  const [baselines, setBaselines] = useState<Record<string, SubjectBaseline>>(loadBaselines);
+  const [calibrationIndex, setCalibrationIndex] = useState<number | null>(null);
+  const [voice, setVoice] = useState<{ pitchHz: number | null; level: number | null; speechRate: number | null }>({ pitchHz: null, level: null, speechRate: null });
+  const [lastUtterance, setLastUtterance] = useState<VocalFeatures | null>(null);
+  const [profiles, setProfiles] = useState<InterrogatorProfile[]>(loadProfiles);
+  // A replay runs under the profile it was recorded with, not the selected one
+  const [replayProfile, setReplayProfile] = useState<InterrogatorProfile | null>(null);
+  const [activeProfileId, setActiveProfileId] = useState(loadActiveProfileId);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [fileRate, setFileRate] = useState(1);
+  // Name of the file being analyzed; log entries are seekable while it is loaded
+  const [mediaFile, setMediaFile] = useState<string | null>(null);
+  const [sourceSelection, setSourceSelection] = useState<SourceSelection>(loadSourceSelection);
+  const [devices, setDevices] = useState<InputDevices>({ cameras: [], mics: [] });
+  const [face, setFace] = useState<FaceBox | null>(null);
+  const [videoStats, setVideoStats] = useState<VideoStats | null>(null);
+  const [redaction, setRedaction] = useState<RedactionSettings>(loadRedaction);
+  const [operator, setOperator] = useState(loadOperator);
+  // A session waiting on the consent form
+  const [pendingStart, setPendingStart] = useState<SessionSource | null>(null);
+  const [isTransmitting, setIsTransmitting] = useState(false);
+  const [turnMode, setTurnMode] = useState<TurnMode>(loadTurnMode);
+  // Push-to-talk key held, and a requested analysis the model hasn't finished answering
+  const [isTalking, setIsTalking] = useState(false);
+  const [isAwaitingAnalysis, setIsAwaitingAnalysis] = useState(false);
+  const [output, setOutput] = useState<OutputSettings>(loadOutputSettings);
+  const [outputDevices, setOutputDevices] = useState<MediaDeviceInfo[]>([]);
+  const [modelAudio, setModelAudio] = useState<ModelAudioClip[]>([]);
+  const [playingReplyId, setPlayingReplyId] = useState<string | null>(null);
   
   // Visual states
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -22,44 +147,129 @@ const App: React.FC = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  // The devices or screen share behind a live session, switchable while it runs
+  const liveSourceRef = useRef<OpenedSource | null>(null);
   const logsEndRef = useRef<HTMLDivElement>(null);
+  const hasToolVerdictsRef = useRef(false);
+  const backendRef = useRef<AnalysisBackend>(analysisBackend);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const sessionMetaRef = useRef<Pick<ArchivedSession, 'id' | 'startedAt' | 'backend' | 'questions' | 'subject' | 'baseline' | 'profile' | 'mediaFile' | 'consent'> | null>(null);
+  // Keywords masked in the running session's log and verdicts
+  const maskedKeywordsRef = useRef<string[]>([]);
+  const activeQuestionRef = useRef<InterviewQuestion | null>(null);
+  const calibrationRef = useRef<BaselineAccumulator | null>(null);
+  const speechRateRef = useRef(new SpeechRateMeter());
+  const pulseRef = useRef(new PulseEstimator());
+  const vocalStressRef = useRef<number | null>(null);
+  // Tracked face for pulse sampling; presence is null until the tracker has decided either way
+  const faceRef = useRef<FaceBox | null>(null);
+  const facePresentRef = useRef<boolean | null>(null);
+  const sessionSeriesRef = useRef<ProbabilitySample[]>([]);
+  const mediaFileRef = useRef<string | null>(null);
+  // File sessions: where in the file the subject last started talking, and since when they've been quiet
+  const speechOnsetRef = useRef<number | undefined>(undefined);
+  const quietSecRef = useRef(END_SILENCE_SEC);
+  const utteranceTrackerRef = useRef(new UtteranceTracker());
+  const snapshotRef = useRef({ logs, verdicts, lieProbability, lastAnalysis, utterances, labels, modelAudio });
+  // Null when the running session doesn't keep the model's voice
+  const modelAudioRecorderRef = useRef<ModelAudioRecorder | null>(null);
+  const replyPlayerRef = useRef<HTMLAudioElement | null>(null);
+
+  const i18n = useI18n();
+  const { locale, t } = i18n;
+  // Log lines are written from session callbacks, which read the locale from here
+  const localeRef = useRef(locale);
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId) ?? profiles[0];
+  // Callbacks read the running session's profile from here
+  const profileRef = useRef(activeProfile);
+
+  const pulse = biometrics.pulse;
+
+  // An archived session, when open, replaces the live data everywhere on screen (read-only)
+  const shownLogs = viewingSession?.logs ?? logs;
+  const shownHistory = viewingSession?.history ?? history;
+  const shownProbability = viewingSession?.finalProbability ?? lieProbability;
+  const shownAnalysis = viewingSession?.lastAnalysis ?? lastAnalysis;
+  const shownVerdicts = viewingSession?.verdicts ?? verdicts;
+  const shownLabels = viewingSession ? (viewingSession.labels ?? {}) : labels;
+  const shownModelAudio = viewingSession ? (viewingSession.modelAudio ?? []) : modelAudio;
+  const shownUtterances = viewingSession ? (viewingSession.utterances ?? utterancesFromLogs(viewingSession.logs)) : utterances;
+  const shownQuestions = viewingSession ? (viewingSession.questions ?? []) : questions;
+  const shownBaseline = viewingSession ? viewingSession.baseline : baselines[subject.trim()];
+  const shownProfile = viewingSession ? (viewingSession.profile ?? DEFAULT_PROFILE) : (replayProfile ?? activeProfile);
+  const bands = shownProfile.bands;
+  const baselineDelta = shownBaseline && shownBaseline.score.count > 0 ? relativeTo(shownProbability, shownBaseline.score) : null;
 
   // Derived state
-  const isDanger = lieProbability > 75;
-  const isSuspicious = lieProbability >= 50 && lieProbability <= 75;
-  const isTruth = lieProbability < 50 && status === SessionStatus.ACTIVE && lastAnalysis !== '系统待机...';
+  const isLive = status === SessionStatus.ACTIVE || status === SessionStatus.RECONNECTING;
+  // Replays already have their turns
+  const takesTurns = isLive && backendName !== 'replay';
+  // Sessions through the relay sign in with the operator's own token, asked for on the consent form
+  const usesRelay = !!process.env.RELAY_URL && analysisBackend.name === 'gemini';
+  const isDanger = shownProbability > bands.deception;
+  const isSuspicious = shownProbability >= bands.suspicious && shownProbability <= bands.deception;
+  const lastVerdict = shownVerdicts[shownVerdicts.length - 1];
+  const spikes = cueSpikes(shownVerdicts, bands);
+  const isTruth = shownProbability < bands.suspicious && (isLive || viewingSession !== null) && lastVerdict !== undefined;
+
+  // Position in the analyzed file, or undefined for camera sessions
+  const currentMediaTime = () => (mediaFileRef.current && videoRef.current ? videoRef.current.currentTime : undefined);
 
   // Auto-scroll logs
   useEffect(() => {
     logsEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [logs]);
+  }, [shownLogs]);
+
+  // Session callbacks outlive renders, so archiving reads the latest state from here
+  useEffect(() => {
+    snapshotRef.current = { logs, verdicts, lieProbability, lastAnalysis, utterances, labels, modelAudio };
+  }, [logs, verdicts, lieProbability, lastAnalysis, utterances, labels, modelAudio]);
+
+  useEffect(() => {
+    localeRef.current = locale;
+  }, [locale]);
 
-  // Biometrics simulation
+  // Keep the picker's device lists current as devices come and go (labels appear once access is granted)
+  const refreshDevices = useCallback(() => {
+    listInputDevices().then(setDevices).catch(e => console.warn("Failed to list input devices:", e));
+    listOutputDevices().then(setOutputDevices).catch(e => console.warn("Failed to list output devices:", e));
+  }, []);
+
+  useEffect(() => {
+    refreshDevices();
+    navigator.mediaDevices?.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshDevices);
+  }, [refreshDevices]);
+
+  // Biometrics: camera pulse and per-utterance vocal stress, plus a simulated pupil channel
   useEffect(() => {
-    if (status !== SessionStatus.ACTIVE) return;
+    if (!isLive) return;
 
     const interval = setInterval(() => {
-      setBiometrics(prev => {
-        const stressFactor = lieProbability / 100;
-        return {
-          heartRate: Math.max(60, Math.min(180, prev.heartRate + (Math.random() - 0.5) * 5 + (stressFactor * 5))),
-          stressLevel: Math.max(0, Math.min(100, (stressFactor * 80) + (Math.random() * 20))),
-          pupilDilation: Math.max(2, Math.min(8, prev.pupilDilation + (Math.random() - 0.5) * 0.5)),
-        };
-      });
+      setBiometrics(prev => ({
+        pulse: pulseRef.current.estimate(),
+        stressLevel: vocalStressRef.current,
+        pupilDilation: Math.max(2, Math.min(8, prev.pupilDilation + (Math.random() - 0.5) * 0.5)),
+      }));
       
-      setHistory(prev => {
-        const newHistory = [...prev, { time: Date.now(), value: lieProbability }];
-        if (newHistory.length > 50) newHistory.shift();
-        return newHistory;
-      });
+      const sample = { time: Date.now(), value: lieProbability };
+      sessionSeriesRef.current.push(sample);
+      setHistory(prev => [...prev, sample]);
 
     }, 1000);
     return () => clearInterval(interval);
-  }, [status, lieProbability]);
+  }, [isLive, lieProbability]);
 
-  // Handle Log Message - FIXED LOGIC
-  const handleLog = useCallback((text: string, isModel: boolean, isTurnComplete: boolean = false) => {
+  // Utterances are kept masked, like the log they back
+  const publishUtterances = useCallback(() => {
+    setUtterances(utteranceTrackerRef.current.all.map(u => ({ ...u, text: maskKeywords(u.text, maskedKeywordsRef.current) })));
+  }, []);
+
+  // Transcript fragments extend the speaker's open utterance, whose log entry shares its id
+  const handleLog = useCallback((text: string, isModel: boolean) => {
     if (!text) return;
 
     if (isModel) {
@@ -69,143 +279,631 @@ const App: React.FC = () => {
     } else {
       setIsUserSpeaking(true);
       setTimeout(() => setIsUserSpeaking(false), 2000);
+      (calibrationRef.current ?? speechRateRef.current).addTranscript(text);
     }
 
+    // A statement starts where the subject started talking, not where its transcript arrived
+    const mediaTime = isModel ? currentMediaTime() : speechOnsetRef.current ?? currentMediaTime();
+    const { utterance, isNew } = utteranceTrackerRef.current.add(text, isModel ? 'model' : 'subject', Date.now(), mediaTime, activeQuestionRef.current?.id);
+    publishUtterances();
+
+    // Masked as a whole, so a keyword split across transcript chunks is still caught
+    const message = maskKeywords(utterance.text, maskedKeywordsRef.current);
     setLogs(prev => {
-      const lastLog = prev[prev.length - 1];
-      
-      // Strict check: Is the last log from the SAME speaker category?
-      // User is 'neutral', Model is 'system' | 'truth' | 'deception'
-      const lastIsModelLog = lastLog && lastLog.type !== 'neutral';
-      const currentIsModel = isModel;
-
-      // Merge if same speaker AND the previous turn isn't forcibly completed
-      if (lastLog && (lastIsModelLog === currentIsModel) && !text.includes('[')) { // Don't merge if new text starts with [Tag] (new analysis)
-        const updatedLogs = [...prev];
-        updatedLogs[updatedLogs.length - 1] = {
-          ...lastLog,
-          message: lastLog.message + text
-        };
-        return updatedLogs;
-      } else {
-        // New Entry
-        const type: 'neutral' | 'truth' | 'deception' | 'system' = isModel ? 'system' : 'neutral';
-        return [
-          ...prev,
-          {
-            id: Math.random().toString(36).substr(2, 9),
-            timestamp: new Date().toLocaleTimeString('zh-CN', { hour12: false }),
-            message: text,
-            type
-          }
-        ];
-      }
+      if (isNew) return [...prev, logEntry(utterance.id, message, isModel ? 'system' : 'neutral', localeRef.current, utterance.mediaTime)];
+      return prev.map(log => (log.id === utterance.id ? { ...log, message } : log));
     });
+  }, [publishUtterances]);
+
+  const handleTurnComplete = useCallback(() => {
+    // The reply's audio is filed under the model utterance this turn closes
+    const reply = utteranceTrackerRef.current.all.find(u => u.speaker === 'model' && !u.complete);
+    const clip = modelAudioRecorderRef.current?.finish(reply?.id);
+    if (clip) setModelAudio(prev => [...prev, clip]);
+    utteranceTrackerRef.current.completeTurn();
+    publishUtterances();
+    setIsAwaitingAnalysis(false);
+  }, [publishUtterances]);
+
+  const handleAudioOut = useCallback((base64Pcm: string) => {
+    modelAudioRecorderRef.current?.add(base64Pcm, Date.now());
   }, []);
 
+  const talk = useCallback((talking: boolean) => {
+    setIsTalking(talking);
+    backendRef.current.setTalking(talking);
+  }, []);
+
+  const analyzeNow = useCallback(() => {
+    if (backendRef.current.analyzeNow()) setIsAwaitingAnalysis(true);
+  }, []);
+
+  // Space holds the floor in push-to-talk and Enter asks for a verdict on demand; typing in a field is left alone
+  useEffect(() => {
+    if (!takesTurns || turnMode === 'continuous') return;
+    const isTyping = (e: KeyboardEvent) =>
+      e.target instanceof HTMLElement && (e.target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(e.target.tagName));
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isTyping(e)) return;
+      if (turnMode === 'push-to-talk' && e.code === TALK_KEY) {
+        e.preventDefault();
+        if (!e.repeat) talk(true);
+      } else if (turnMode === 'manual' && e.code === ANALYZE_KEY) {
+        e.preventDefault();
+        if (!e.repeat) analyzeNow();
+      }
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (turnMode !== 'push-to-talk' || e.code !== TALK_KEY) return;
+      // Otherwise a focused button would be clicked by the release
+      e.preventDefault();
+      talk(false);
+    };
+    // A key released in another window never reports its keyup here
+    const onBlur = () => {
+      if (turnMode === 'push-to-talk') talk(false);
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    };
+  }, [takesTurns, turnMode, talk, analyzeNow]);
+
   const handleDisconnect = useCallback(() => {
      setStatus(SessionStatus.ERROR);
-     setLogs(prev => [...prev, { id: 'sys-disc', timestamp: new Date().toLocaleTimeString(), message: '连接已中断 / CONNECTION LOST', type: 'deception' }]);
+     setLogs(prev => [...prev, logEntry('sys-disc', translator(localeRef.current)('log.connectionLost'), 'deception', localeRef.current)]);
      cleanupSession();
   }, []);
 
-  // Parse Logs for Logic
+  // A replay that has run out ends like a stopped session, with a note in the log
+  const handleReplayEnd = useCallback(() => {
+    setLogs(prev => [...prev, logEntry(`sys-replay-end-${Date.now()}`, translator(localeRef.current)('log.replayEnded'), 'system', localeRef.current)]);
+    cleanupSession().then(() => setStatus(SessionStatus.IDLE));
+  }, []);
+
+  // Reconnects keep the session, its log and its capture; only the status and a log line change
+  const handleConnection = useCallback((event: ConnectionEvent) => {
+    const now = Date.now();
+    const locale = localeRef.current;
+    const t = translator(locale);
+    if (event.kind === 'reconnecting') {
+      setStatus(SessionStatus.RECONNECTING);
+      const message = t('log.reconnecting', { seconds: Math.round(event.delayMs / 100) / 10, attempt: event.attempt, maxAttempts: event.maxAttempts });
+      setLogs(prev => [...prev, logEntry(`sys-reconn-${now}`, message, 'system', locale)]);
+    } else {
+      setStatus(SessionStatus.ACTIVE);
+      setLogs(prev => [...prev, logEntry(`sys-restored-${now}`, t(event.resumed ? 'log.resumed' : 'log.reconnected'), 'system', locale)]);
+    }
+  }, []);
+
+  // Apply a verdict: gauge, headline analysis and the color of the model's reply to the judged statement
+  const applyVerdict = useCallback((incoming: Verdict) => {
+    const judged = utteranceTrackerRef.current.judged();
+    const verdict = {
+      ...incoming,
+      cueIds: verdictCues(incoming),
+      rationale: maskKeywords(incoming.rationale, maskedKeywordsRef.current),
+      utterance: maskKeywords(incoming.utterance, maskedKeywordsRef.current),
+      // The question the judged statement answered; the plan may have moved on since
+      questionId: incoming.questionId ?? (judged ? judged.questionId : activeQuestionRef.current?.id),
+      mediaTime: incoming.mediaTime ?? judged?.mediaTime,
+      utteranceId: incoming.utteranceId ?? judged?.id,
+    };
+    if (calibrationRef.current && isCalibrationQuestion(verdict.questionId)) calibrationRef.current.addScore(verdict.probability);
+    setLieProbability(verdict.probability);
+    setLastAnalysis(verdict.rationale);
+
+    setVerdicts(prev => {
+      const index = prev.findIndex(v => v.id === verdict.id);
+      if (index === -1) return [...prev, verdict];
+      const updated = [...prev];
+      updated[index] = verdict;
+      return updated;
+    });
+
+    let newType: 'neutral' | 'truth' | 'deception' | 'system' = 'system';
+    const { bands } = profileRef.current;
+    if (verdict.probability > bands.deception) newType = 'deception';
+    else if (verdict.probability < bands.suspicious) newType = 'truth';
+    else newType = 'system';
+
+    const reply = utteranceTrackerRef.current.all.filter(u => u.speaker === 'model' && u.replyTo === verdict.utteranceId).pop();
+    setLogs(prev => {
+      // The model's reply to the judged statement; failing that its latest entry, never system notices
+      let index = reply ? prev.findIndex(log => log.id === reply.id) : -1;
+      if (index === -1) {
+        index = prev.length - 1;
+        while (index >= 0 && prev[index].type !== 'neutral' && prev[index].id.startsWith('sys-')) index--;
+      }
+      if (index < 0 || prev[index].type === 'neutral' || prev[index].type === newType) return prev;
+
+      const updated = [...prev];
+      updated[index] = { ...prev[index], type: newType };
+      return updated;
+    });
+  }, []);
+
+  // Local voice measurements: feed the calibration while it runs, otherwise the live readout
+  const handleAudioFeatures = useCallback((features: AudioFrameFeatures) => {
+    if (calibrationRef.current) {
+      calibrationRef.current.addAudio(features);
+      return;
+    }
+    speechRateRef.current.addAudio(features);
+    if (features.rms < VOICED_RMS) {
+      quietSecRef.current += features.durationSec;
+      return;
+    }
+    if (quietSecRef.current >= END_SILENCE_SEC) speechOnsetRef.current = currentMediaTime();
+    quietSecRef.current = 0;
+    setVoice(prev => ({
+      // Light smoothing so the readout is legible
+      pitchHz: features.pitchHz === null ? prev.pitchHz : prev.pitchHz === null ? features.pitchHz : prev.pitchHz * 0.7 + features.pitchHz * 0.3,
+      level: prev.level === null ? features.rms : prev.level * 0.7 + features.rms * 0.3,
+      speechRate: speechRateRef.current.rate(),
+    }));
+  }, []);
+
+  const handleVocalFeatures = useCallback((features: VocalFeatures) => {
+    const score = vocalStressScore(features, sessionMetaRef.current?.baseline);
+    // Half-weight the previous answer so one odd utterance doesn't swing the gauge
+    vocalStressRef.current = vocalStressRef.current === null ? score : Math.round(vocalStressRef.current * 0.5 + score * 0.5);
+    setLastUtterance(features);
+  }, []);
+
+  const handleFrame = useCallback((ctx: CanvasRenderingContext2D, time: number) => {
+    // Nobody in frame: the estimator was reset and reports no face until someone returns
+    if (facePresentRef.current === false) return;
+    const { width, height } = ctx.canvas;
+    const region = faceRef.current ? skinRegion(faceRef.current, width, height) : defaultFaceRegion(width, height);
+    pulseRef.current.addFrame(ctx, region, time);
+  }, []);
+
+  const handleFace = useCallback((next: FaceBox | null) => {
+    faceRef.current = next;
+    setFace(next);
+
+    const present = next !== null;
+    if (present === facePresentRef.current) return;
+    facePresentRef.current = present;
+    if (!present) pulseRef.current.reset();
+    const message = translator(localeRef.current)(present ? 'log.faceFound' : 'log.faceLost');
+    setLogs(prev => [...prev, logEntry(`sys-face-${Date.now()}`, message, 'system', localeRef.current, currentMediaTime())]);
+  }, []);
+
+  const handleVerdict = useCallback((verdict: Verdict) => {
+    hasToolVerdictsRef.current = true;
+    applyVerdict(verdict);
+  }, [applyVerdict]);
+
+  // Fallback: scrape the profile's tags (e.g. [欺骗率:XX%]) from the transcript until the model reports verdicts itself
   useEffect(() => {
-    if (logs.length === 0) return;
-    const lastLog = logs[logs.length - 1];
-    
-    if (lastLog.type !== 'neutral') {
-        // Match [欺骗率:80%] or variations
-        const match = lastLog.message.match(/\[\s*欺骗率\s*[:：]\s*(\d+)\s*%\s*\]/);
+    if (logs.length === 0 || hasToolVerdictsRef.current) return;
+    const lastLog = [...logs].reverse().find(log => !log.id.startsWith('sys-'));
+
+    if (lastLog && lastLog.type !== 'neutral') {
+        const pattern = tagPattern(profileRef.current.tagFormat);
+        const prob = parseVerdictTag(lastLog.message, pattern);
         
-        if (match) {
-          const prob = parseInt(match[1], 10);
-          setLieProbability(prob);
-
-          let newType: 'neutral' | 'truth' | 'deception' | 'system' = 'system';
-          if (prob > 75) newType = 'deception';
-          else if (prob < 50) newType = 'truth';
-          else newType = 'system'; 
-          
-          const cleanMsg = lastLog.message.replace(/\[\s*欺骗率\s*[:：]\s*\d+\s*%\s*\]/, '').trim();
-          setLastAnalysis(cleanMsg || '数据分析中...');
-
-          if (lastLog.type !== newType) {
-             setLogs(prev => {
-                const updated = [...prev];
-                updated[updated.length - 1].type = newType;
-                return updated;
-             });
-          }
+        if (prob !== null) {
+          const judged = utteranceTrackerRef.current.judged();
+          const utterance = judged?.text ?? '';
+          applyVerdict({
+            id: `tag-${lastLog.id}`,
+            probability: prob,
+            cues: [],
+            rationale: stripVerdictTag(lastLog.message, pattern),
+            utterance,
+            source: 'tag',
+            receivedAt: Date.now(),
+            utteranceId: judged?.id,
+          });
         }
     }
-  }, [logs]);
+  }, [logs, applyVerdict]);
+
+  const archiveSession = () => {
+    const meta = sessionMetaRef.current;
+    if (!meta) return;
+    sessionMetaRef.current = null;
+
+    const snapshot = snapshotRef.current;
+    const session: ArchivedSession = {
+      ...meta,
+      name: defaultSessionName(meta.startedAt, localeRef.current),
+      endedAt: Date.now(),
+      logs: snapshot.logs,
+      history: sessionSeriesRef.current,
+      verdicts: snapshot.verdicts,
+      finalProbability: snapshot.lieProbability,
+      lastAnalysis: snapshot.lastAnalysis,
+      utterances: snapshot.utterances,
+      labels: snapshot.labels,
+      modelAudio: snapshot.modelAudio.length > 0 ? snapshot.modelAudio : undefined,
+    };
+    setLastSession(session);
+    setArchivedId(session.id);
+    saveSession(session).catch(e => console.error("Failed to archive session:", e));
+  };
 
   const cleanupSession = async () => {
+    archiveSession();
+
     try {
-        await geminiLive.disconnect();
+        await backendRef.current.disconnect();
     } catch (e) {
-        console.warn("Error disconnecting gemini service:", e);
+        console.warn("Error disconnecting analysis backend:", e);
+    }
+
+    if (recorderRef.current) {
+      downloadRecording(recorderRef.current.finish());
+      recorderRef.current = null;
+      backendRef.current.setRecorder(null);
     }
     
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
     }
+    liveSourceRef.current?.stop();
+    liveSourceRef.current = null;
     if (videoRef.current) {
       videoRef.current.srcObject = null;
+      videoRef.current.onended = null;
+      closeMediaFile(videoRef.current);
     }
+    mediaFileRef.current = null;
+    setMediaFile(null);
+    setIsTalking(false);
+    setIsAwaitingAnalysis(false);
+    modelAudioRecorderRef.current = null;
     setLieProbability(0);
-    setBiometrics({ heartRate: 75, stressLevel: 15, pupilDilation: 3.2 });
+    setBiometrics(IDLE_BIOMETRICS);
+    pulseRef.current.reset();
+    faceRef.current = null;
+    facePresentRef.current = null;
+    setFace(null);
+    setVideoStats(null);
+    vocalStressRef.current = null;
+    setLastUtterance(null);
     setInputVolume(0);
   }
 
-  const startSession = async () => {
+  const startSession = async (backend: AnalysisBackend = analysisBackend, source: SessionSource = LIVE, consent?: ConsentRecord) => {
     if (status === SessionStatus.CONNECTING) return; // Prevent double click
     
     // Ensure any previous session is cleaned up first
     await cleanupSession();
+    backendRef.current = backend;
+    setBackendName(backend.name);
 
     try {
       setStatus(SessionStatus.CONNECTING);
       setLogs([]); 
       setLieProbability(0);
-      setLastAnalysis('系统待机...');
+      setLastAnalysis('');
+      setVerdicts([]);
+      setHistory([]);
+      activeQuestionRef.current = null;
+      calibrationRef.current = null;
+      speechRateRef.current = new SpeechRateMeter();
+      setCalibrationIndex(null);
+      setVoice({ pitchHz: null, level: null, speechRate: null });
+      setViewingSession(null);
+      sessionSeriesRef.current = [];
+      hasToolVerdictsRef.current = false;
+      speechOnsetRef.current = undefined;
+      utteranceTrackerRef.current.reset();
+      setUtterances([]);
+      setLabels({});
+      setModelAudio([]);
+      setArchivedId(null);
+      setSelectedUtteranceId(null);
+      quietSecRef.current = END_SILENCE_SEC;
       
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: true, 
-        audio: true 
-      });
+      let stream: MediaStream;
+      if (source.kind === 'live') {
+        const opened = await openSource(sourceSelection);
+        liveSourceRef.current = opened;
+        stream = opened.stream;
+        showLiveSource(opened);
+        refreshDevices();
+      } else if (source.kind === 'file' && videoRef.current) {
+        stream = await playMediaFile(videoRef.current, source.file, fileRate);
+        mediaFileRef.current = source.file.name;
+        setMediaFile(source.file.name);
+        videoRef.current.onended = () => {
+          const message = translator(localeRef.current)('log.fileEnded');
+          setLogs(prev => [...prev, logEntry(`sys-eof-${Date.now()}`, message, 'system', localeRef.current, currentMediaTime())]);
+        };
+      } else {
+        stream = new MediaStream();
+      }
       streamRef.current = stream;
 
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        videoRef.current.play();
-      }
+      backend.setOnLog(handleLog);
+      backend.setOnTurnComplete(handleTurnComplete);
+      backend.setOnDisconnect(handleDisconnect);
+      backend.setOnConnection(handleConnection);
+      backend.setOnVolume(setInputVolume);
+      backend.setOnVerdict(handleVerdict);
+      backend.setOnAudioFeatures(handleAudioFeatures);
+      backend.setOnVocalFeatures(handleVocalFeatures);
+      backend.setOnFrame(handleFrame);
+      backend.setOnFace(handleFace);
+      backend.setOnVideoStats(setVideoStats);
+      backend.setOnTransmit(setIsTransmitting);
+      // Replays send nothing, but their transcripts are still masked in the log
+      const sessionRedaction = consent?.redaction ?? redaction;
+      backend.setRedaction(sessionRedaction);
+      maskedKeywordsRef.current = sessionRedaction.keywords;
+      const sessionProfile = source.kind === 'replay' ? source.recording.profile : activeProfile;
+      setReplayProfile(source.kind === 'replay' ? sessionProfile : null);
+      profileRef.current = sessionProfile;
+      backend.setProfile(sessionProfile);
+      backend.setTurnMode(turnMode);
+      backend.setOutput(output);
+      backend.setOnAudioOut(handleAudioOut);
+      modelAudioRecorderRef.current = source.kind !== 'replay' && output.mode === 'audio' && output.recordReplies ? new ModelAudioRecorder() : null;
 
-      geminiLive.setOnLog(handleLog);
-      geminiLive.setOnDisconnect(handleDisconnect);
-      geminiLive.setOnVolume(setInputVolume);
+      if (source.kind !== 'replay' && isRecordingEnabled) {
+        recorderRef.current = new SessionRecorder(backend.name, activeProfile, output.mode);
+        backend.setRecorder(recorderRef.current);
+      }
       
       if (videoRef.current && canvasRef.current) {
-        await geminiLive.connect(stream, videoRef.current, canvasRef.current);
+        await backend.connect(stream, videoRef.current, canvasRef.current);
+      }
+
+      // A file is an interview that already happened: no plan to step through and nothing to calibrate
+      const interviewing = source.kind === 'live';
+      if (source.kind !== 'replay') {
+        sessionMetaRef.current = {
+          id: Math.random().toString(36).substr(2, 9),
+          startedAt: Date.now(),
+          backend: backend.name,
+          questions: interviewing && questions.length > 0 ? questions : undefined,
+          subject: subject.trim() || undefined,
+          baseline: interviewing && calibrateEnabled ? undefined : baselines[subject.trim()],
+          profile: activeProfile,
+          mediaFile: source.kind === 'file' ? source.file.name : undefined,
+          consent,
+        };
       }
 
       setStatus(SessionStatus.ACTIVE);
-      setLogs(prev => [...prev, { id: 'sys-start', timestamp: new Date().toLocaleTimeString(), message: '系统初始化完成。音频监听中...', type: 'system' }]);
+      const startMessage = source.kind === 'file' ? t('log.fileStarted', { name: source.file.name })
+        : t(source.kind === 'live' ? 'log.started' : 'log.replayStarted');
+      setLogs(prev => [...prev, logEntry('sys-start', startMessage, 'system', locale)]);
+      if (liveSourceRef.current?.missingTabAudio) {
+        setLogs(prev => [...prev, logEntry('sys-tab-audio', t('log.noTabAudio'), 'system', locale)]);
+      }
+      if (interviewing && calibrateEnabled && subject.trim()) {
+        calibrationRef.current = new BaselineAccumulator();
+        stepCalibration(0, backend);
+      } else if (interviewing && questions.length > 0) {
+        stepQuestion(0, backend);
+      }
 
     } catch (err) {
       console.error("Start Session Error:", err);
       // Clean up if start failed
       await cleanupSession(); 
       setStatus(SessionStatus.ERROR);
-      setLogs(prev => [...prev, { id: 'sys-err', timestamp: new Date().toLocaleTimeString(), message: '初始化失败：网络错误或权限不足。', type: 'deception' }]);
+      setLogs(prev => [...prev, logEntry('sys-err', t(source.kind === 'file' ? 'log.fileFailed' : 'log.startFailed'), 'deception', locale)]);
+    }
+  };
+
+  const stepQuestion = (index: number, backend: AnalysisBackend = backendRef.current) => {
+    const question = questions[index];
+    if (!question) return;
+
+    setQuestionIndex(index);
+    activeQuestionRef.current = question;
+    backend.setActiveQuestion(question);
+    const message = t('log.question', { id: question.id, category: t(CATEGORY_KEYS[question.category]), text: question.text });
+    setLogs(prev => [...prev, logEntry(`sys-q-${Math.random().toString(36).substr(2, 9)}`, message, 'system', locale)]);
+  };
+
+  const calibrationPrompts = NEUTRAL_PROMPTS[locale];
+
+  const stepCalibration = (index: number, backend: AnalysisBackend = backendRef.current) => {
+    const prompt = calibrationPrompts[index];
+    if (!prompt) return;
+
+    setCalibrationIndex(index);
+    activeQuestionRef.current = prompt;
+    backend.setActiveQuestion(prompt);
+    const message = t('log.calibration', { step: index + 1, total: calibrationPrompts.length, text: prompt.text });
+    setLogs(prev => [...prev, logEntry(`sys-cal-${Math.random().toString(36).substr(2, 9)}`, message, 'system', locale)]);
+  };
+
+  const finishCalibration = () => {
+    const accumulator = calibrationRef.current;
+    const name = subject.trim();
+    if (!accumulator || !name) return;
+
+    const baseline = accumulator.finish(name);
+    calibrationRef.current = null;
+    activeQuestionRef.current = null;
+    saveBaseline(baseline);
+    setBaselines(prev => ({ ...prev, [name]: baseline }));
+    setCalibrationIndex(null);
+    setCalibrateEnabled(false);
+    if (sessionMetaRef.current) sessionMetaRef.current.baseline = baseline;
+
+    const message = baseline.score.count > 0
+      ? t('log.calibrationDone', { mean: Math.round(baseline.score.mean), count: baseline.score.count })
+      : t('log.calibrationDoneVoiceOnly');
+    setLogs(prev => [...prev, logEntry('sys-cal-done', message, 'system', locale)]);
+
+    if (questions.length > 0) stepQuestion(0);
+  };
+
+  const saveQuestions = (plan: InterviewQuestion[]) => {
+    setQuestions(plan);
+    savePlan(plan);
+    setShowPlanEditor(false);
+  };
+
+  const saveProfileSettings = (updated: InterrogatorProfile[], activeId: string) => {
+    setProfiles(updated);
+    setActiveProfileId(activeId);
+    saveProfiles(updated);
+    saveActiveProfileId(activeId);
+    setShowProfiles(false);
+  };
+
+  const loadReplay = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    try {
+      const recording = parseRecording(await file.text());
+      const replay = new ReplayBackend(recording);
+      replay.setOnEnd(handleReplayEnd);
+      await startSession(replay, { kind: 'replay', recording });
+    } catch (err) {
+      console.error("Replay Load Error:", err);
+      setStatus(SessionStatus.ERROR);
+      setLogs([logEntry('sys-err', t('log.replayInvalid'), 'deception', locale)]);
+    }
+  };
+
+  const analyzeFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) setPendingStart({ kind: 'file', file });
+  };
+
+  // Anything that sends media off the device starts from the consent form
+  const confirmConsent = (consent: ConsentRecord, relayToken?: string) => {
+    const source = pendingStart ?? LIVE;
+    setPendingStart(null);
+    setRedaction(consent.redaction);
+    saveRedaction(consent.redaction);
+    setOperator(consent.operator);
+    saveOperator(consent.operator);
+    if (relayToken !== undefined) saveRelayToken(relayToken);
+    startSession(analysisBackend, source, consent);
+  };
+
+  /** Put a live source on screen and note when the operator stops sharing from the browser's own controls. */
+  const showLiveSource = (opened: OpenedSource) => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = opened.stream;
+      videoRef.current.play();
+    }
+    const [track] = opened.stream.getVideoTracks();
+    if (track) track.onended = () => {
+      if (liveSourceRef.current !== opened) return;
+      setLogs(prev => [...prev, logEntry(`sys-share-${Date.now()}`, translator(localeRef.current)('log.sharingStopped'), 'system', localeRef.current)]);
+    };
+  };
+
+  // Volume, mute and speaker change at once; the mode waits for the next session
+  const changeOutput = (next: OutputSettings) => {
+    setOutput(next);
+    saveOutputSettings(next);
+    backendRef.current.setOutput(next);
+  };
+
+  const toggleReply = (clip: ModelAudioClip) => {
+    replyPlayerRef.current?.pause();
+    if (playingReplyId === clip.replyId) return;
+    const player = playClip(clip, output);
+    replyPlayerRef.current = player;
+    setPlayingReplyId(clip.replyId ?? null);
+    player.addEventListener('pause', () => {
+      if (replyPlayerRef.current !== player) return;
+      replyPlayerRef.current = null;
+      setPlayingReplyId(null);
+    });
+  };
+
+  // Takes effect from the next session, whose live config carries it
+  const changeTurnMode = (mode: TurnMode) => {
+    if (status === SessionStatus.CONNECTING) return;
+    setTurnMode(mode);
+    saveTurnMode(mode);
+  };
+
+  // Devices are swapped under the running session; the model connection and its context carry on
+  const changeSource = async (next: SourceSelection) => {
+    setSourceSelection(next);
+    saveSourceSelection(next);
+    const current = liveSourceRef.current;
+    if (!current || !isLive) return;
+
+    let opened: OpenedSource | null = null;
+    try {
+      opened = await openSource(next);
+      await backendRef.current.replaceStream(opened.stream);
+      if (liveSourceRef.current !== current) {
+        // The session ended while the new devices were opening
+        opened.stop();
+        return;
+      }
+      liveSourceRef.current = opened;
+      streamRef.current = opened.stream;
+      showLiveSource(opened);
+      current.stop();
+      setLogs(prev => [...prev, logEntry(`sys-src-${Date.now()}`, t('log.sourceSwitched'), 'system', locale)]);
+      if (opened.missingTabAudio) {
+        setLogs(prev => [...prev, logEntry(`sys-tab-audio-${Date.now()}`, t('log.noTabAudio'), 'system', locale)]);
+      }
+      refreshDevices();
+    } catch (err) {
+      console.error("Source Switch Error:", err);
+      opened?.stop();
+      setLogs(prev => [...prev, logEntry(`sys-src-${Date.now()}`, t('log.sourceSwitchFailed'), 'deception', locale)]);
     }
   };
 
+  // Statements on the timeline, colored by the verdict that scored them
+  const scores = new Map(matchStatements(shownLogs, shownVerdicts, bands).map(s => [s.id, s.probability]));
+  const timelineSegments: TimelineSegment[] = shownUtterances
+    .filter(u => u.speaker === 'subject')
+    .map(u => ({ id: u.id, start: u.startedAt, end: u.endedAt, text: u.text, probability: scores.get(u.id) ?? null }));
+
+  // Spoken replies, by the log entry of the model turn they voice
+  const replyClips = new Map<string, ModelAudioClip>(shownModelAudio.filter(clip => clip.replyId).map(clip => [clip.replyId!, clip]));
+
+  const selectUtterance = (id: string) => {
+    setSelectedUtteranceId(id);
+    document.getElementById(`log-${id}`)?.scrollIntoView({ block: 'nearest' });
+    const log = shownLogs.find(entry => entry.id === id);
+    if (log) seekTo(log);
+  };
+
+  const markStatement = (id: string, label: GroundTruth) => {
+    const archived = viewingSession?.id ?? archivedId;
+    if (!viewingSession) setLabels(prev => ({ ...prev, [id]: label }));
+    if (!archived) return;
+    labelStatement(archived, id, label)
+      .then(session => {
+        setViewingSession(prev => (prev?.id === session.id ? session : prev));
+        setLastSession(prev => (prev?.id === session.id ? session : prev));
+      })
+      .catch(e => console.error("Failed to save label:", e));
+  };
+
+  const seekTo = (log: LogEntry) => {
+    if (log.mediaTime === undefined || !mediaFile || !videoRef.current) return;
+    videoRef.current.currentTime = log.mediaTime;
+    videoRef.current.play();
+  };
+
   const endSession = async () => {
     await cleanupSession();
     setStatus(SessionStatus.IDLE);
-    setLastAnalysis('系统待机...');
+    setLastAnalysis('');
   };
 
   const getThemeColor = () => {
@@ -215,10 +913,10 @@ const App: React.FC = () => {
   };
 
   const getVerdictText = () => {
-      if (isDanger) return '【 谎 言 确 认 】';
-      if (isSuspicious) return '【 高 度 可 疑 】';
-      if (isTruth) return '【 诚 实 】';
-      return '【 待 机 】';
+      if (isDanger) return t('verdict.deception');
+      if (isSuspicious) return t('verdict.suspicious');
+      if (isTruth) return t('verdict.truth');
+      return t('verdict.standby');
   }
 
   return (
@@ -238,68 +936,161 @@ const App: React.FC = () => {
           </div>
           <div>
             <h1 className="text-xl md:text-3xl font-chinese font-bold tracking-tighter" style={{ textShadow: `0 0 10px ${getThemeColor()}` }}>
-              神经测谎仪 <span className="text-sm align-top opacity-70 font-display">2077</span>
+              {t('app.title')} <span className="text-sm align-top opacity-70 font-display">2077</span>
             </h1>
-            <p className="text-[10px] tracking-[0.5em] opacity-70 font-display">VERITAS_V9_PROTOCOL</p>
+            <p className="text-[10px] tracking-[0.5em] opacity-70 font-display">
+              VERITAS_V9_PROTOCOL{backendName !== 'gemini' && <span className="ml-2 px-1 border border-current">{backendName.toUpperCase()}</span>}
+              <span className="ml-2 opacity-70 tracking-normal font-chinese">{shownProfile.name}</span>
+            </p>
           </div>
         </div>
         <div className="text-right hidden md:block">
-          <div className="text-xs opacity-50 mb-1">系统状态 / SYSTEM STATUS</div>
+          <div className="text-xs opacity-50 mb-1 flex items-center justify-end gap-3">
+            <LocaleSwitcher />
+            {t('status.label')}
+          </div>
           <div className="font-bold text-base md:text-lg flex items-center justify-end gap-2 font-display">
-            {status === SessionStatus.ACTIVE && <span className="w-2 h-2 rounded-full bg-current animate-pulse"></span>}
-            {status === SessionStatus.IDLE ? 'STANDBY' : 
-             status === SessionStatus.CONNECTING ? 'CONNECTING...' : 
-             status === SessionStatus.ACTIVE ? 'MONITORING' : 'DISCONNECTED'}
+            {isLive && <span className="w-2 h-2 rounded-full bg-current animate-pulse"></span>}
+            {t(status === SessionStatus.IDLE ? 'status.standby' :
+               status === SessionStatus.CONNECTING ? 'status.connecting' :
+               status === SessionStatus.RECONNECTING ? 'status.reconnecting' :
+               isLive ? (calibrationIndex !== null ? 'status.calibrating' : 'status.monitoring') : 'status.disconnected')}
           </div>
         </div>
+        {!isLive && status !== SessionStatus.CONNECTING && (
+          <>
+            <Button onClick={() => setShowMetrics(true)} className="ml-4 flex items-center gap-2 text-xs px-3" title={t('action.metricsTitle')}>
+              <ChartLine size={16} /> <span className="hidden md:inline">{t('action.metrics')}</span>
+            </Button>
+            <Button onClick={() => setShowArchive(true)} className="ml-2 flex items-center gap-2 text-xs px-3" title={t('action.archiveTitle')}>
+              <Archive size={16} /> <span className="hidden md:inline">{t('action.archive')}</span>
+            </Button>
+          </>
+        )}
       </header>
 
+      {pendingStart && (
+        <ConsentDialog
+          subject={subject}
+          operator={operator}
+          redaction={redaction}
+          relayToken={usesRelay ? loadRelayToken() : undefined}
+          onConfirm={confirmConsent}
+          onCancel={() => setPendingStart(null)}
+        />
+      )}
+
+      {showPlanEditor && (
+        <InterviewPlanEditor questions={questions} onSave={saveQuestions} onClose={() => setShowPlanEditor(false)} />
+      )}
+
+      {showProfiles && (
+        <ProfileSettings profiles={profiles} activeId={activeProfile.id} onSave={saveProfileSettings} onClose={() => setShowProfiles(false)} />
+      )}
+
+      {showMetrics && <MetricsPage onClose={() => setShowMetrics(false)} />}
+
+      {showCues && <CuePanel verdicts={shownVerdicts} bands={bands} onSelect={selectUtterance} onClose={() => setShowCues(false)} />}
+
+      {showArchive && (
+        <SessionArchive
+          onOpen={session => { setViewingSession(session); setShowArchive(false); }}
+          onClose={() => setShowArchive(false)}
+        />
+      )}
+
       {/* Main Grid */}
       <main className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-12 gap-4 z-10">
         
         {/* Left: Biometrics & Logs */}
         <div className="lg:col-span-3 flex flex-col gap-4 h-full min-h-0">
           
-          <Panel title="生物遥测 / BIO_METRICS" className="flex-none" alert={isDanger}>
+          <Panel title={t('bio.title')} className="flex-none" alert={isDanger}>
             <div className="space-y-4 pt-2">
               <div>
                 <div className="flex justify-between text-xs opacity-70 mb-1">
-                  <span className="flex items-center gap-2"><Activity size={14}/> 心率 / BPM</span>
-                  <span>{biometrics.heartRate > 120 ? '危急' : (biometrics.heartRate > 90 ? '升高' : '正常')}</span>
+                  <span className="flex items-center gap-2"><Activity size={14}/> {t('bio.bpm')}</span>
+                  <span>{t(pulse.bpm === null ? PULSE_STATUS_KEYS[pulse.status] : pulse.bpm > 120 ? 'bio.pulse.critical' : (pulse.bpm > 90 ? 'bio.pulse.elevated' : 'bio.pulse.ok'))}</span>
                 </div>
                 <div className="text-2xl font-display font-bold tabular-nums relative">
-                  {Math.round(biometrics.heartRate)}
+                  {pulse.bpm === null ? <span className="opacity-40">{t('bio.noSignal')}</span> : pulse.bpm}
                 </div>
-                <div className="h-1 bg-gray-900 mt-2 overflow-hidden">
-                  <div className="h-full transition-all duration-300" style={{ width: `${(biometrics.heartRate / 200) * 100}%`, backgroundColor: getThemeColor() }}></div>
+                {/* Signal quality, not heart rate: how much of the spectrum sits on the pulse peak */}
+                <div className="flex items-center gap-2 mt-2">
+                  <div className="flex-1 h-1 bg-gray-900 overflow-hidden">
+                    <div className="h-full transition-all duration-300" style={{ width: `${Math.round(pulse.quality * 100)}%`, backgroundColor: pulse.bpm === null ? '#555' : getThemeColor() }}></div>
+                  </div>
+                  <span className="text-[10px] font-mono opacity-50">Q{Math.round(pulse.quality * 100)}</span>
                 </div>
               </div>
 
               <div>
                 <div className="flex justify-between text-xs opacity-70 mb-1">
-                  <span className="flex items-center gap-2"><Cpu size={14}/> 皮质醇 / STRESS</span>
+                  <span className="flex items-center gap-2"><Cpu size={14}/> {t('bio.vocalStress')}</span>
                 </div>
                 <div className="text-2xl font-display font-bold tabular-nums">
-                   {Math.round(biometrics.stressLevel)}%
+                   {biometrics.stressLevel === null ? <span className="text-base opacity-50">{t('bio.noSpeech')}</span> : `${biometrics.stressLevel}%`}
                 </div>
                 <div className="h-1 bg-gray-900 mt-2">
-                  <div className="h-full transition-all duration-300" style={{ width: `${biometrics.stressLevel}%`, backgroundColor: biometrics.stressLevel > 60 ? '#ff003c' : getThemeColor() }}></div>
+                  <div className="h-full transition-all duration-300" style={{ width: `${biometrics.stressLevel ?? 0}%`, backgroundColor: (biometrics.stressLevel ?? 0) > 60 ? '#ff003c' : getThemeColor() }}></div>
                 </div>
+                {lastUtterance && (
+                  <div className="flex justify-between mt-1 text-[10px] font-mono opacity-50">
+                    <span>F0 {lastUtterance.f0MeanHz === null ? '--' : Math.round(lastUtterance.f0MeanHz)}</span>
+                    <span>JIT {lastUtterance.jitter === null ? '--' : (lastUtterance.jitter * 100).toFixed(1)}%</span>
+                    <span>SHM {lastUtterance.shimmer === null ? '--' : (lastUtterance.shimmer * 100).toFixed(1)}%</span>
+                    <span>PAUSE {Math.round(lastUtterance.pauseRatio * 100)}%</span>
+                  </div>
+                )}
               </div>
+
+              {shownBaseline && isLive && calibrationIndex === null && (
+                <BaselineReadout baseline={shownBaseline} pitchHz={voice.pitchHz} level={voice.level} speechRate={voice.speechRate} />
+              )}
             </div>
           </Panel>
 
-          <Panel title="实时日志 / LIVE_LOG" className="flex-1 min-h-0 flex flex-col relative" alert={isDanger}>
+          <Panel title={t('log.title')} className="flex-1 min-h-0 flex flex-col relative" alert={isDanger}>
             <div className="flex-1 overflow-y-auto space-y-2 pr-1 font-mono text-xs custom-scrollbar">
-              {logs.length === 0 && <div className="text-center opacity-30 mt-10">等待数据流...</div>}
-              {logs.map((log) => (
-                <div key={log.id} className={`p-2 border-l-2 text-xs leading-relaxed break-words ${
+              {shownLogs.length === 0 && <div className="text-center opacity-30 mt-10">{t('log.empty')}</div>}
+              {shownLogs.map((log) => (
+                <div key={log.id} id={`log-${log.id}`} className={`p-2 border-l-2 text-xs leading-relaxed break-words ${
                   log.type === 'deception' ? 'border-[#ff003c] bg-[#ff003c]/10 text-[#ff003c]' : 
                   log.type === 'truth' ? 'border-[#00f3ff] bg-[#00f3ff]/10 text-[#00f3ff]' :
                   log.type === 'system' ? 'border-[#ffaa00] text-[#ffaa00]' : 
                   'border-current opacity-80'
-                }`} style={{ borderColor: log.type === 'neutral' ? getThemeColor() : undefined }}>
-                  <span className="opacity-50 select-none">[{log.timestamp}] {log.type === 'neutral' ? '受审者' : 'V9_系统'}:</span><br/>
+                } ${log.mediaTime !== undefined && mediaFile ? 'cursor-pointer hover:bg-white/5' : ''} ${
+                  log.id === selectedUtteranceId ? 'ring-1 ring-white/70' : ''
+                }`} style={{ borderColor: log.type === 'neutral' ? getThemeColor() : undefined }}
+                  onClick={() => { if (log.type === 'neutral') setSelectedUtteranceId(log.id); seekTo(log); }}
+                  title={log.mediaTime !== undefined && mediaFile ? t('log.seek', { time: formatMediaTime(log.mediaTime) }) : undefined}
+                >
+                  <span className="opacity-50 select-none">
+                    [{i18n.formatTime(log.time)}]{log.mediaTime !== undefined && ` ▶${formatMediaTime(log.mediaTime)}`} {t(log.type === 'neutral' ? 'log.subject' : 'log.system')}:
+                  </span>
+                  {log.type === 'neutral' && (
+                    <span className="float-right flex gap-1 select-none" title={t('label.title')}>
+                      {GROUND_TRUTHS.map(label => (
+                        <button
+                          key={label}
+                          onClick={e => { e.stopPropagation(); markStatement(log.id, label); }}
+                          className={`px-1 border text-[9px] ${shownLabels[log.id] === label ? 'border-current opacity-100' : 'border-transparent opacity-30 hover:opacity-70'}`}
+                        >
+                          {t(GROUND_TRUTH_KEYS[label])}
+                        </button>
+                      ))}
+                    </span>
+                  )}
+                  {replyClips.has(log.id) && (
+                    <button
+                      onClick={e => { e.stopPropagation(); toggleReply(replyClips.get(log.id)!); }}
+                      className="float-right opacity-60 hover:opacity-100 select-none"
+                      title={t(playingReplyId === log.id ? 'log.stopReply' : 'log.playReply')}
+                    >
+                      {playingReplyId === log.id ? <Square size={12} /> : <Play size={12} />}
+                    </button>
+                  )}
+                  <br/>
                   {log.message}
                 </div>
               ))}
@@ -321,18 +1112,23 @@ const App: React.FC = () => {
                <video 
                 ref={videoRef} 
                 muted 
-                className={`w-full h-full object-cover transition-opacity duration-300 ${status === SessionStatus.ACTIVE ? 'opacity-80' : 'opacity-20'} mix-blend-screen grayscale-[30%] contrast-125`}
+                className={`w-full h-full object-cover transition-opacity duration-300 ${isLive ? 'opacity-80' : 'opacity-20'} mix-blend-screen grayscale-[30%] contrast-125`}
               />
             </div>
             <canvas ref={canvasRef} className="hidden" />
 
             {/* Overlays */}
-            {status === SessionStatus.ACTIVE && (
+            {isLive && (
               <div className="absolute inset-0 pointer-events-none">
-                {/* Face Box */}
-                <div className={`absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[60%] h-[70%] transition-all duration-300 border border-opacity-50 ${
-                  isDanger ? 'border-[#ff003c]' : isSuspicious ? 'border-[#ffaa00]' : 'border-[#00f3ff]'
-                } p-1`}>
+                {/* Face Box: follows the tracked face, or waits dashed in the centre when there is none */}
+                <div
+                  className={`absolute transition-all duration-200 border border-opacity-50 ${
+                    face ? '' : 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[40%] h-[50%] border-dashed opacity-40'
+                  } ${
+                    isDanger ? 'border-[#ff003c]' : isSuspicious ? 'border-[#ffaa00]' : 'border-[#00f3ff]'
+                  } p-1`}
+                  style={face && videoRef.current ? faceToElementBox(face, videoRef.current) : undefined}
+                >
                    <div className="absolute -top-1 -left-1 w-4 h-4 border-t-2 border-l-2 border-current"></div>
                    <div className="absolute -top-1 -right-1 w-4 h-4 border-t-2 border-r-2 border-current"></div>
                    <div className="absolute -bottom-1 -left-1 w-4 h-4 border-b-2 border-l-2 border-current"></div>
@@ -342,43 +1138,164 @@ const App: React.FC = () => {
                      isDanger ? 'bg-[#ff003c] text-black' : 
                      isSuspicious ? 'bg-[#ffaa00] text-black' : 
                      'bg-[#00f3ff] text-black'
-                   }`}>TARGET_LOCKED</div>
+                   }`}>{t(face ? 'video.targetLocked' : 'video.noTarget')}</div>
                 </div>
                 {/* Grid */}
                 <div className="absolute inset-0 bg-[linear-gradient(rgba(0,243,255,0.03)_1px,transparent_1px),linear-gradient(90deg,rgba(0,243,255,0.03)_1px,transparent_1px)] bg-[size:20px_20px]"></div>
+                {status === SessionStatus.RECONNECTING && (
+                  <div className="absolute top-4 left-1/2 -translate-x-1/2 px-3 py-1 border border-[#ffaa00] bg-black/70 text-[#ffaa00] text-xs tracking-widest animate-pulse">
+                    {t('video.reconnecting')}
+                  </div>
+                )}
+                {isTransmitting && (
+                  <div
+                    className="absolute top-2 left-2 flex items-center gap-1 px-2 py-0.5 border border-[#ff003c] bg-black/70 text-[#ff003c] text-[10px] font-bold tracking-widest animate-pulse pointer-events-auto"
+                    title={t('status.transmittingTitle')}
+                  >
+                    <CloudUpload size={12} /> {t('status.transmitting')}
+                  </div>
+                )}
+                {videoStats && (
+                  <div
+                    className="absolute bottom-2 right-2 text-[10px] font-mono opacity-60 pointer-events-auto"
+                    title={t('video.statsTitle', { budget: Math.round(videoStats.budgetBytesPerSec / 1000) })}
+                  >
+                    {t('video.stats', { fps: videoStats.fps.toFixed(1), rate: Math.round(videoStats.bytesPerSec / 1000) })}
+                  </div>
+                )}
                 {/* Glitch on Lie */}
                 {isDanger && <div className="absolute inset-0 glitch-effect pointer-events-none bg-red-900/10 mix-blend-overlay"></div>}
               </div>
             )}
             
-            {status !== SessionStatus.ACTIVE && (
+            {!isLive && (
                <div className="absolute inset-0 flex items-center justify-center flex-col bg-black/50 backdrop-blur-sm text-center p-4">
-                  {status === SessionStatus.ERROR ? (
+                  {viewingSession ? (
+                    <>
+                       <Archive className="w-24 h-24 mb-4 text-[#00f3ff]" strokeWidth={1} />
+                       <p className="tracking-[0.3em] text-sm font-bold font-chinese">{viewingSession.name}</p>
+                       <p className="text-xs opacity-60 mt-2 font-mono">
+                         {t('video.archive')} {i18n.formatDateTime(viewingSession.startedAt)} – {i18n.formatTime(viewingSession.endedAt)}
+                       </p>
+                    </>
+                  ) : status === SessionStatus.ERROR ? (
                     <>
                        <ShieldAlert className="w-24 h-24 text-red-500 mb-4" />
-                       <p className="tracking-[0.3em] text-red-500 font-bold">CONNECTION LOST</p>
-                       <p className="text-xs text-red-400 mt-2">PLEASE RE-INITIALIZE SYSTEM</p>
+                       <p className="tracking-[0.3em] text-red-500 font-bold">{t('video.connectionLost')}</p>
+                       <p className="text-xs text-red-400 mt-2">{t('video.reinitialize')}</p>
                     </>
                   ) : (
                     <>
                       <ScanLine className="w-24 h-24 animate-pulse mb-4 text-[#00f3ff]" strokeWidth={1} />
-                      <p className="tracking-[0.3em] text-sm animate-pulse">AWAITING INPUT STREAM</p>
+                      <p className="tracking-[0.3em] text-sm animate-pulse">{t('video.awaiting')}</p>
                     </>
                   )}
                </div>
             )}
           </div>
 
+          {!viewingSession && (isLive ? !mediaFile && backendName !== 'replay' : status !== SessionStatus.CONNECTING) && (
+            <SourcePicker selection={sourceSelection} devices={devices} onChange={changeSource} />
+          )}
+
+          {!viewingSession && (
+            <OutputControls settings={output} devices={outputDevices} locked={isLive || status === SessionStatus.CONNECTING} onChange={changeOutput} />
+          )}
+
+          {!isLive && status !== SessionStatus.CONNECTING && !viewingSession && (
+            <SubjectSetup
+              subject={subject}
+              onSubjectChange={setSubject}
+              knownSubjects={Object.keys(baselines)}
+              calibrate={calibrateEnabled}
+              onCalibrateChange={setCalibrateEnabled}
+              baseline={baselines[subject.trim()]}
+            />
+          )}
+
+          {isLive && calibrationIndex !== null && (
+            <CalibrationBar
+              prompts={calibrationPrompts}
+              index={calibrationIndex}
+              onNext={() => stepCalibration(calibrationIndex + 1)}
+              onFinish={finishCalibration}
+            />
+          )}
+
+          {isLive && calibrationIndex === null && questions.length > 0 && backendName !== 'replay' && (
+            <QuestionStepper questions={questions} index={questionIndex} onStep={index => stepQuestion(index)} />
+          )}
+
           <div className="flex-none flex justify-center gap-4">
-            {status === SessionStatus.ACTIVE ? (
+            {isLive ? (
               <Button onClick={endSession} variant="danger" className="w-full flex items-center justify-center gap-2 text-lg py-4 shadow-[0_0_20px_rgba(255,0,60,0.3)] border-2 border-[#ff003c]">
-                <Power size={20} /> 中止连接 / DISCONNECT
+                <Power size={20} /> {t('action.disconnect')}
               </Button>
             ) : (
-              <Button onClick={startSession} className={`w-full flex items-center justify-center gap-2 text-lg py-4 shadow-[0_0_20px_rgba(0,243,255,0.3)] bg-[#00f3ff]/10 ${status === SessionStatus.ERROR ? 'animate-pulse' : ''}`}>
-                <Mic size={20} /> {status === SessionStatus.ERROR ? '重试 / RETRY' : '启动神经连接 / INITIALIZE'}
+              <Button onClick={() => setPendingStart(LIVE)} className={`w-full flex items-center justify-center gap-2 text-lg py-4 shadow-[0_0_20px_rgba(0,243,255,0.3)] bg-[#00f3ff]/10 ${status === SessionStatus.ERROR ? 'animate-pulse' : ''}`}>
+                <Mic size={20} /> {t(status === SessionStatus.ERROR ? 'action.retry' : 'action.initialize')}
               </Button>
             )}
+            {(viewingSession || lastSession) && !isLive && status !== SessionStatus.CONNECTING && (
+              <ReportExportButtons session={(viewingSession || lastSession)!} />
+            )}
+            {viewingSession && !isLive && (
+              <Button onClick={() => setViewingSession(null)} className="flex-none flex items-center gap-2 text-xs py-4">
+                <X size={16} /> {t('action.closeArchive')}
+              </Button>
+            )}
+            {!isLive && (
+              <>
+                <Button
+                  onClick={() => setIsRecordingEnabled(prev => !prev)}
+                  variant={isRecordingEnabled ? 'danger' : 'primary'}
+                  className={`flex-none flex items-center gap-2 text-xs py-4 ${isRecordingEnabled ? 'bg-[#ff003c]/10' : 'opacity-70'}`}
+                  title={t('action.recordTitle')}
+                >
+                  <Radio size={16} className={isRecordingEnabled ? 'animate-pulse' : ''} /> REC
+                </Button>
+                <Button
+                  onClick={() => setShowPlanEditor(true)}
+                  className={`flex-none flex items-center gap-2 text-xs py-4 ${questions.length > 0 ? 'bg-[#00f3ff]/10' : 'opacity-70'}`}
+                  title={t('action.planTitle')}
+                >
+                  <ListChecks size={16} /> {questions.length > 0 ? t('action.planCount', { count: questions.length }) : t('action.plan')}
+                </Button>
+                <Button
+                  onClick={() => setShowProfiles(true)}
+                  className="flex-none flex items-center gap-2 text-xs py-4 opacity-70"
+                  title={t('action.profileTitle', { name: activeProfile.name })}
+                >
+                  <SlidersHorizontal size={16} /> {t('action.profile')}
+                </Button>
+                <Button
+                  onClick={() => replayInputRef.current?.click()}
+                  className="flex-none flex items-center gap-2 text-xs py-4 opacity-70"
+                  title={t('action.replayTitle')}
+                >
+                  <FolderOpen size={16} /> {t('action.replay')}
+                </Button>
+                <input ref={replayInputRef} type="file" accept="application/json,.json" className="hidden" onChange={loadReplay} />
+                <div className="flex-none flex items-stretch opacity-70">
+                  <Button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="flex items-center gap-2 text-xs py-4 border-r-0"
+                    title={t('action.analyzeFileTitle')}
+                  >
+                    <FileVideo size={16} /> {t('action.analyzeFile')}
+                  </Button>
+                  <select
+                    value={fileRate}
+                    onChange={e => setFileRate(Number(e.target.value))}
+                    className="bg-black border border-[#00f3ff] text-[#00f3ff] text-xs font-mono px-1 outline-none"
+                    title={t('action.fileRate')}
+                  >
+                    {FILE_PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>{rate}×</option>)}
+                  </select>
+                </div>
+                <input ref={fileInputRef} type="file" accept="video/*,audio/*" className="hidden" onChange={analyzeFile} />
+              </>
+            )}
           </div>
         </div>
 
@@ -392,7 +1309,7 @@ const App: React.FC = () => {
           }`}>
              
              <div className="flex flex-col items-center justify-center py-4">
-                <div className="text-sm opacity-70 mb-2 tracking-widest font-chinese">欺骗概率 / DECEPTION RATE</div>
+                <div className="text-sm opacity-70 mb-2 tracking-widest font-chinese">{t('gauge.title')}</div>
                 
                 <div className={`text-xl md:text-2xl font-black mb-2 animate-pulse font-chinese tracking-widest ${
                     isDanger ? 'text-[#ff003c]' : isSuspicious ? 'text-[#ffaa00]' : 'text-[#00f3ff]'
@@ -401,69 +1318,81 @@ const App: React.FC = () => {
                 </div>
 
                 <div className={`text-6xl lg:text-7xl font-display font-black tracking-tighter transition-all duration-300 ${isDanger ? 'glitch-effect' : ''}`} style={{ color: getThemeColor(), textShadow: `0 0 20px ${getThemeColor()}` }}>
-                  {lieProbability}<span className="text-3xl">%</span>
+                  {shownProbability}<span className="text-3xl">%</span>
                 </div>
+                {baselineDelta && (
+                  <div className="text-xs font-mono opacity-80 mt-1" title={t('gauge.baselineTitle', { subject: shownBaseline!.subject })}>
+                    RAW {shownProbability}% · {t('gauge.baseline')} {Math.round(shownBaseline!.score.mean)}% · Δ{baselineDelta.delta >= 0 ? '+' : ''}{Math.round(baselineDelta.delta)}
+                    {baselineDelta.z !== null && ` · z${baselineDelta.z >= 0 ? '+' : ''}${baselineDelta.z.toFixed(1)}`}
+                  </div>
+                )}
 
                 <div className="w-full h-4 bg-gray-900 mt-4 relative border border-gray-700">
                    <div 
                       className="h-full transition-all duration-500 ease-out"
                       style={{ 
-                        width: `${lieProbability}%`, 
+                        width: `${shownProbability}%`, 
                         background: `linear-gradient(90deg, transparent, ${getThemeColor()})` 
                       }}
                    ></div>
-                   <div className="absolute top-0 bottom-0 w-[1px] bg-white/30 left-[50%]"></div>
-                   <div className="absolute top-0 bottom-0 w-[1px] bg-white/30 left-[75%]"></div>
+                   {/* Ticks at the profile's band edges, where the verdict colours change */}
+                   {BAND_EDGES.map(band => (
+                     <div key={band} className="absolute top-0 bottom-0 w-[1px] bg-white/30" style={{ left: `${bands[band]}%` }}></div>
+                   ))}
                 </div>
-                <div className="w-full flex justify-between text-[10px] mt-1 opacity-50 font-mono">
-                    <span>0%</span>
-                    <span>50%</span>
-                    <span>75%</span>
-                    <span>100%</span>
+                <div className="w-full h-3 relative text-[10px] mt-1 opacity-50 font-mono">
+                    <span className="absolute left-0">0%</span>
+                    {/* Edges that coincide share one label */}
+                    {BAND_EDGES.filter(band => band === 'suspicious' || bands.deception !== bands.suspicious).map(band => (
+                      <span key={band} className="absolute -translate-x-1/2" style={{ left: `${bands[band]}%` }}>{bands[band]}%</span>
+                    ))}
+                    <span className="absolute right-0">100%</span>
                 </div>
 
                 <div className="mt-4 font-chinese font-bold text-sm text-center min-h-[3rem] flex items-center justify-center border-t border-white/10 w-full pt-2 leading-tight">
-                   {lastAnalysis}
+                   {shownAnalysis || t(lastVerdict ? 'analysis.pending' : 'analysis.standby')}
                 </div>
+                {lastVerdict && lastVerdict.cues.length > 0 && (
+                  <div className="flex flex-wrap justify-center gap-1 mt-2">
+                    {lastVerdict.cues.map(cue => (
+                      <span key={cue} className="text-[10px] px-1 border border-current opacity-70 font-chinese">{cue}</span>
+                    ))}
+                  </div>
+                )}
+                {shownQuestions.length > 0 && <CategorySummary questions={shownQuestions} verdicts={shownVerdicts} />}
              </div>
           </div>
 
-          <Panel title="真实度趋势 / VERACITY_GRAPH" className="flex-1 min-h-0 flex flex-col" alert={isDanger}>
-            <div className="flex-1 w-full mt-2 relative">
-              <div className="absolute inset-0">
-                <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={history}>
-                    <YAxis domain={[0, 100]} hide />
-                    <XAxis hide />
-                    <Tooltip 
-                      contentStyle={{ backgroundColor: '#000', borderColor: getThemeColor(), color: getThemeColor(), fontFamily: 'monospace' }}
-                      itemStyle={{ color: getThemeColor() }}
-                      formatter={(value: number) => [`${value}%`, '欺骗率']}
-                      labelFormatter={() => ''}
-                    />
-                    <ReferenceLine y={50} stroke="#ffaa00" strokeDasharray="3 3" opacity={0.5} />
-                    <ReferenceLine y={75} stroke="#ff003c" strokeDasharray="3 3" opacity={0.5} />
-                    <Line 
-                      type="monotone" 
-                      dataKey="value" 
-                      stroke={getThemeColor()} 
-                      strokeWidth={2} 
-                      dot={false}
-                      isAnimationActive={true}
-                      animationDuration={300}
-                    />
-                  </LineChart>
-                </ResponsiveContainer>
-              </div>
-            </div>
-            {/* Audio Input Visualizer */}
-            <div className="h-6 mt-2 border-t border-white/10 pt-2 flex items-center gap-2">
-               <Mic size={12} className="opacity-50"/>
-               <div className="flex-1 h-2 bg-gray-900 overflow-hidden">
-                  <div className="h-full bg-white transition-all duration-75" style={{ width: `${Math.min(100, inputVolume * 2)}%` }}></div>
-               </div>
-               <span className="text-[10px] font-mono opacity-50 w-8 text-right">MIC</span>
+          <Panel title={t('graph.title')} className="flex-1 min-h-0 flex flex-col" alert={isDanger}>
+            <button
+              onClick={() => setShowCues(true)}
+              className="absolute -top-3 right-4 px-2 bg-[#02040a] text-xs font-bold tracking-widest opacity-70 hover:opacity-100"
+              title={t('cue.openTitle')}
+            >
+              {t('cue.open')}
+            </button>
+            <div className="flex-1 min-h-0 w-full mt-2 flex flex-col">
+              <Timeline
+                series={shownHistory}
+                segments={timelineSegments}
+                bands={bands}
+                color={getThemeColor()}
+                selectedId={selectedUtteranceId}
+                onSelect={selectUtterance}
+                spikes={spikes}
+              />
             </div>
+            {/* Audio Input Visualizer and turn control */}
+            <TurnControls
+              mode={turnMode}
+              onModeChange={changeTurnMode}
+              active={takesTurns}
+              volume={inputVolume}
+              talking={isTalking}
+              analyzing={isAwaitingAnalysis}
+              onTalk={talk}
+              onAnalyze={analyzeNow}
+            />
           </Panel>
         </div>
       </main>
@@ -0,0 +1,91 @@
+import React from 'react';
+import { ChevronRight, Check, UserCheck } from 'lucide-react';
+import { InterviewQuestion, SubjectBaseline, FeatureStats } from '../types';
+import { relativeTo } from '../services/calibration';
+import { Button } from './HolographicComponents';
+import { useI18n } from './I18n';
+
+export const SubjectSetup: React.FC<{
+  subject: string;
+  onSubjectChange: (subject: string) => void;
+  knownSubjects: string[];
+  calibrate: boolean;
+  onCalibrateChange: (calibrate: boolean) => void;
+  baseline?: SubjectBaseline;
+}> = ({ subject, onSubjectChange, knownSubjects, calibrate, onCalibrateChange, baseline }) => {
+  const { t, formatDateTime } = useI18n();
+  return (
+    <div className="flex-none flex items-center gap-3 text-xs border border-[#00f3ff]/30 px-3 py-2 bg-black/40">
+      <span className="opacity-60 flex-none">{t('subject.label')}</span>
+      <input
+        list="known-subjects"
+        value={subject}
+        onChange={e => onSubjectChange(e.target.value)}
+        placeholder={t('subject.placeholder')}
+        className="flex-1 min-w-0 bg-transparent border-b border-current outline-none font-chinese placeholder:opacity-30"
+      />
+      <datalist id="known-subjects">
+        {knownSubjects.map(name => <option key={name} value={name} />)}
+      </datalist>
+      {baseline && (
+        <span className="flex items-center gap-1 opacity-70 flex-none" title={t('subject.baselineTitle', { time: formatDateTime(baseline.recordedAt) })}>
+          <UserCheck size={14} /> {t('subject.baseline', { mean: Math.round(baseline.score.mean) })}
+        </span>
+      )}
+      <label className={`flex items-center gap-1 flex-none cursor-pointer ${subject.trim() ? '' : 'opacity-30 pointer-events-none'}`}>
+        <input type="checkbox" checked={calibrate} onChange={e => onCalibrateChange(e.target.checked)} className="accent-[#00f3ff]" />
+        {t(baseline ? 'subject.recalibrate' : 'subject.calibrate')}
+      </label>
+    </div>
+  );
+};
+
+export const CalibrationBar: React.FC<{
+  prompts: InterviewQuestion[];
+  index: number;
+  onNext: () => void;
+  onFinish: () => void;
+}> = ({ prompts, index, onNext, onFinish }) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex-none flex items-center gap-3 border border-dashed border-[#00f3ff] px-3 py-2 bg-[#00f3ff]/5">
+      <div className="flex-1 min-w-0 text-center">
+        <div className="text-[10px] tracking-widest opacity-70 font-mono">{t('calibration.title')} · {index + 1}/{prompts.length}</div>
+        <div className="font-chinese font-bold text-base truncate">{prompts[index]?.text}</div>
+      </div>
+      {index < prompts.length - 1 && (
+        <Button onClick={onNext} className="px-2 py-1"><ChevronRight size={16} /></Button>
+      )}
+      <Button onClick={onFinish} className="flex items-center gap-1 px-2 py-1 text-xs"><Check size={14} /> {t('calibration.done')}</Button>
+    </div>
+  );
+};
+
+const formatDelta = (stats: FeatureStats, value: number | null, digits = 0) => {
+  if (value === null) return '--';
+  const relative = relativeTo(value, stats);
+  if (!relative) return value.toFixed(digits);
+  const sign = relative.delta >= 0 ? '+' : '';
+  return `${value.toFixed(digits)} (${sign}${relative.delta.toFixed(digits)}${relative.z !== null ? `, z${sign}${relative.z.toFixed(1)}` : ''})`;
+};
+
+/** Live voice measurements next to the subject's calibrated baseline. */
+export const BaselineReadout: React.FC<{
+  baseline: SubjectBaseline;
+  pitchHz: number | null;
+  level: number | null;
+  speechRate: number | null;
+}> = ({ baseline, pitchHz, level, speechRate }) => {
+  const { t } = useI18n();
+  return (
+    <div className="border-t border-white/10 pt-2 text-[10px] font-mono space-y-1">
+      <div className="opacity-50">{t('readout.title')}</div>
+      <div className="flex justify-between"><span className="opacity-60">F0 Hz</span><span>{formatDelta(baseline.pitchHz, pitchHz)}</span></div>
+      <div className="flex justify-between"><span className="opacity-60">RMS ×100</span><span>{formatDelta({ ...baseline.rms, mean: baseline.rms.mean * 100, sd: baseline.rms.sd * 100 }, level === null ? null : level * 100, 1)}</span></div>
+      <div className="flex justify-between">
+        <span className="opacity-60">{t('readout.speechRate')}</span>
+        <span>{speechRate === null ? '--' : speechRate.toFixed(1)}{baseline.speechRate !== null && ` / ${baseline.speechRate.toFixed(1)}`}</span>
+      </div>
+    </div>
+  );
+};
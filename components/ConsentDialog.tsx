@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { X, ShieldCheck } from 'lucide-react';
+import { ConsentRecord, RedactionSettings } from '../types';
+import { parseKeywords } from '../services/redaction';
+import { Panel, Button } from './HolographicComponents';
+import { useI18n } from './I18n';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="flex flex-col gap-1 text-[10px] opacity-90">
+    <span className="opacity-60 tracking-widest">{label}</span>
+    {children}
+  </label>
+);
+
+const INPUT_CLASS = 'bg-black/50 border border-[#00f3ff]/30 px-2 py-1 text-xs font-mono outline-none focus:border-[#00f3ff]';
+
+/**
+ * Shown before any session that sends media off the device. Nothing is
+ * captured until the operator records that the subject agreed, and who took it.
+ */
+export const ConsentDialog: React.FC<{
+  subject: string;
+  operator: string;
+  redaction: RedactionSettings;
+  /** The operator's saved relay token, when the session goes through the relay; the field is hidden otherwise. */
+  relayToken?: string;
+  onConfirm: (consent: ConsentRecord, relayToken?: string) => void;
+  onCancel: () => void;
+}> = ({ subject: initialSubject, operator: initialOperator, redaction, relayToken: initialRelayToken, onConfirm, onCancel }) => {
+  const { t, formatDateTime } = useI18n();
+  const [subject, setSubject] = useState(initialSubject);
+  const [operator, setOperator] = useState(initialOperator);
+  const [relayToken, setRelayToken] = useState(initialRelayToken ?? '');
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [blurBackground, setBlurBackground] = useState(redaction.blurBackground);
+  const [keywords, setKeywords] = useState(redaction.keywords.join('\n'));
+
+  const needsToken = initialRelayToken !== undefined;
+  const complete = acknowledged && subject.trim() !== '' && operator.trim() !== '' && (!needsToken || relayToken.trim() !== '');
+
+  const confirm = () => {
+    if (!complete) return;
+    onConfirm({
+      subject: subject.trim(),
+      operator: operator.trim(),
+      acknowledgedAt: Date.now(),
+      redaction: { blurBackground, keywords: parseKeywords(keywords) },
+    }, needsToken ? relayToken.trim() : undefined);
+  };
+
+  return (
+    <div className="absolute inset-0 z-40 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <Panel title={t('consent.title')} className="w-full max-w-xl max-h-full flex flex-col">
+        <button onClick={onCancel} className="absolute top-2 right-2 opacity-70 hover:opacity-100"><X size={16} /></button>
+
+        <div className="flex flex-col gap-3 mt-2 min-h-0 overflow-y-auto custom-scrollbar pr-1">
+          <p className="text-xs font-chinese opacity-80 leading-relaxed">{t('consent.notice')}</p>
+          <div className="grid grid-cols-2 gap-2">
+            <Field label={t('consent.subject')}>
+              <input value={subject} onChange={e => setSubject(e.target.value)} className={`${INPUT_CLASS} font-chinese`} />
+            </Field>
+            <Field label={t('consent.operator')}>
+              <input value={operator} onChange={e => setOperator(e.target.value)} className={`${INPUT_CLASS} font-chinese`} />
+            </Field>
+            {needsToken && (
+              <div className="col-span-2">
+                <Field label={t('consent.relayToken')}>
+                  <input
+                    type="password"
+                    autoComplete="off"
+                    value={relayToken}
+                    onChange={e => setRelayToken(e.target.value)}
+                    placeholder={t('consent.relayTokenHint')}
+                    className={INPUT_CLASS}
+                  />
+                </Field>
+              </div>
+            )}
+          </div>
+
+          <div className="border-t border-[#00f3ff]/20 pt-3 flex flex-col gap-2">
+            <span className="text-[10px] opacity-60 tracking-widest">{t('consent.redaction')}</span>
+            <label className="flex items-center gap-2 text-xs cursor-pointer">
+              <input type="checkbox" checked={blurBackground} onChange={e => setBlurBackground(e.target.checked)} className="accent-[#00f3ff]" />
+              {t('consent.blurBackground')}
+            </label>
+            <Field label={t('consent.keywords')}>
+              <textarea
+                value={keywords}
+                onChange={e => setKeywords(e.target.value)}
+                placeholder={t('consent.keywordsPlaceholder')}
+                rows={3}
+                className={`${INPUT_CLASS} font-chinese resize-none custom-scrollbar`}
+              />
+            </Field>
+          </div>
+
+          <label className="flex items-start gap-2 text-xs cursor-pointer border border-[#ffaa00]/50 p-2 bg-[#ffaa00]/5">
+            <input type="checkbox" checked={acknowledged} onChange={e => setAcknowledged(e.target.checked)} className="accent-[#ffaa00] mt-0.5" />
+            <span className="font-chinese">{t('consent.acknowledge')}</span>
+          </label>
+        </div>
+
+        <div className="flex items-center gap-2 mt-4">
+          <span className="opacity-40 text-[10px] flex-1 font-mono">{t('consent.recordedAt', { time: formatDateTime(Date.now()) })}</span>
+          <Button onClick={confirm} disabled={!complete} className="flex items-center gap-2 text-xs px-3 bg-[#00f3ff]/10 disabled:opacity-30">
+            <ShieldCheck size={14} /> {t('consent.confirm')}
+          </Button>
+        </div>
+      </Panel>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useMemo } from 'react';
+import { X } from 'lucide-react';
+import { CUE_CATEGORIES, CUE_TAXONOMY, CueId, CueStat, OTHER_CUE, cueSpikes, cueStats, verdictCues } from '../services/cues';
+import { Verdict, VerdictBands } from '../types';
+import { Panel } from './HolographicComponents';
+import { useI18n } from './I18n';
+
+const spikeColor = (probability: number, bands: VerdictBands) => probability > bands.deception ? '#ff003c' : '#ffaa00';
+
+const Stat: React.FC<{ label: string; value: number }> = ({ label, value }) => (
+  <div className="flex flex-col border border-[#00f3ff]/30 px-3 py-2 bg-black/40">
+    <span className="text-[10px] opacity-60 tracking-widest">{label}</span>
+    <span className="text-xl font-display font-bold tabular-nums">{value}</span>
+  </div>
+);
+
+// One bar per slice of the session, scaled to the busiest slice of any cue so rows compare
+const Trend: React.FC<{ trend: number[]; max: number }> = ({ trend, max }) => (
+  <div className="flex items-end gap-px h-4 w-24">
+    {trend.map((count, i) => (
+      <div key={i} className="flex-1 bg-[#00f3ff]" style={{ height: `${(count / max) * 100}%`, opacity: count > 0 ? 0.8 : 0 }} />
+    ))}
+  </div>
+);
+
+/**
+ * The session's verdicts on the fixed cue taxonomy: how often each cue was
+ * named, how it spread over the session, and which cues drove each spike on
+ * the graph. Picking a spike selects the statement it scored.
+ */
+export const CuePanel: React.FC<{
+  verdicts: Verdict[];
+  bands: VerdictBands;
+  onSelect: (utteranceId: string) => void;
+  onClose: () => void;
+}> = ({ verdicts, bands, onSelect, onClose }) => {
+  const { t, formatTime } = useI18n();
+
+  const stats = useMemo(() => {
+    const times = verdicts.map((v: Verdict) => v.receivedAt);
+    return cueStats(verdicts, Math.min(...times), Math.max(...times));
+  }, [verdicts]);
+  const spikes = useMemo(() => cueSpikes(verdicts, bands), [verdicts, bands]);
+
+  const byId = new Map<CueId, CueStat>(stats.map((stat: CueStat) => [stat.id, stat]));
+  const busiest = Math.max(1, ...stats.flatMap((stat: CueStat) => stat.trend));
+  const withCues = verdicts.filter((v: Verdict) => verdictCues(v).length > 0).length;
+
+  const row = (id: CueId) => {
+    const stat = byId.get(id);
+    return (
+      <tr key={id} className={`border-t border-white/10 ${stat ? '' : 'opacity-30'}`}>
+        <td className="px-2 py-1 font-chinese">{t(`cue.name.${id}`)}</td>
+        <td className="px-2 py-1 opacity-50">{id}</td>
+        <td className="text-right px-2 py-1 tabular-nums">{stat?.count ?? 0}</td>
+        <td className="text-right px-2 py-1 tabular-nums">{stat ? `${Math.round(stat.meanProbability)}%` : '--'}</td>
+        <td className="px-2 py-1">{stat && <Trend trend={stat.trend} max={busiest} />}</td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="absolute inset-0 z-40 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <Panel title={t('cue.title')} className="w-full max-w-3xl max-h-full flex flex-col">
+        <button onClick={onClose} className="absolute top-2 right-2 opacity-70 hover:opacity-100"><X size={16} /></button>
+
+        <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar pr-1 mt-2 flex flex-col gap-3">
+          {verdicts.length === 0 ? (
+            <div className="text-center text-xs opacity-30 py-10 font-chinese">{t('cue.empty')}</div>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-2">
+                <Stat label={t('cue.verdicts')} value={verdicts.length} />
+                <Stat label={t('cue.withCues')} value={withCues} />
+                <Stat label={t('cue.spikes')} value={spikes.length} />
+              </div>
+
+              <table className="w-full text-xs font-mono border border-[#00f3ff]/20 bg-black/40">
+                <thead>
+                  <tr className="opacity-60 text-[10px]">
+                    <th className="text-left px-2 py-1 font-normal">{t('cue.cue')}</th>
+                    <th className="text-left px-2 py-1 font-normal">ID</th>
+                    <th className="text-right px-2 py-1 font-normal">{t('cue.count')}</th>
+                    <th className="text-right px-2 py-1 font-normal" title={t('cue.meanTitle')}>{t('cue.mean')}</th>
+                    <th className="text-left px-2 py-1 font-normal" title={t('cue.trendTitle')}>{t('cue.trend')}</th>
+                  </tr>
+                </thead>
+                {CUE_CATEGORIES.map(category => (
+                  <tbody key={category}>
+                    <tr className="border-t border-[#00f3ff]/30 text-[10px] tracking-widest opacity-80">
+                      <td colSpan={5} className="px-2 pt-2 pb-1">{t(`cue.category.${category}`)}</td>
+                    </tr>
+                    {CUE_TAXONOMY.filter(cue => cue.category === category).map(cue => row(cue.id))}
+                  </tbody>
+                ))}
+                {byId.has(OTHER_CUE) && <tbody>{row(OTHER_CUE)}</tbody>}
+              </table>
+
+              <div className="flex flex-col gap-1">
+                <span className="text-[10px] opacity-60 tracking-widest">{t('cue.spikeList', { threshold: bands.suspicious })}</span>
+                {spikes.length === 0 && <div className="text-xs opacity-30 font-chinese">{t('cue.noSpikes')}</div>}
+                {spikes.map(spike => (
+                  <button
+                    key={spike.verdictId}
+                    onClick={() => {
+                      if (!spike.utteranceId) return;
+                      onSelect(spike.utteranceId);
+                      onClose();
+                    }}
+                    disabled={!spike.utteranceId}
+                    className="flex items-center gap-3 text-xs text-left border border-[#00f3ff]/30 px-3 py-1 bg-black/40 hover:bg-[#00f3ff]/10 disabled:hover:bg-black/40 disabled:cursor-default"
+                  >
+                    <span className="font-mono opacity-60 flex-none">{formatTime(spike.time)}</span>
+                    <span className="font-mono font-bold tabular-nums flex-none" style={{ color: spikeColor(spike.probability, bands) }}>{spike.probability}%</span>
+                    <span className="flex flex-wrap gap-1 font-chinese">
+                      {spike.cues.length === 0 ? <span className="opacity-40">{t('cue.unexplained')}</span> : spike.cues.map(id => (
+                        <span key={id} className="text-[10px] px-1 border border-current opacity-70">{t(`cue.name.${id}`)}</span>
+                      ))}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </Panel>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React, { createContext, useContext, useMemo, useState } from 'react';
+import { Languages } from 'lucide-react';
+import { Locale, LOCALES, Translate, translator, formatTime, formatDateTime, loadLocale, saveLocale } from '../services/i18n';
+
+export interface I18n {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+  formatTime: (ms: number) => string;
+  formatDateTime: (ms: number) => string;
+}
+
+const createI18n = (locale: Locale, setLocale: (locale: Locale) => void): I18n => ({
+  locale,
+  setLocale,
+  t: translator(locale),
+  formatTime: ms => formatTime(ms, locale),
+  formatDateTime: ms => formatDateTime(ms, locale),
+});
+
+const I18nContext = createContext<I18n>(createI18n('zh-CN', () => {}));
+
+/** Holds the UI locale for everything below it and remembers the operator's choice. */
+export const I18nRoot: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+  const i18n = useMemo(() => createI18n(locale, next => {
+    setLocale(next);
+    saveLocale(next);
+  }), [locale]);
+
+  return <I18nContext.Provider value={i18n}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => useContext(I18nContext);
+
+export const LocaleSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+  return (
+    <span className="flex items-center gap-1 text-[10px] font-mono" title={t('app.locale')}>
+      <Languages size={14} className="opacity-50" />
+      {LOCALES.map(({ id, label }) => (
+        <button
+          key={id}
+          onClick={() => setLocale(id)}
+          className={`px-1 border ${id === locale ? 'border-current' : 'border-transparent opacity-50 hover:opacity-100'}`}
+        >
+          {label}
+        </button>
+      ))}
+    </span>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, FolderOpen, X, Check } from 'lucide-react';
+import { InterviewQuestion, QuestionCategory, Verdict } from '../types';
+import { parsePlan, serializePlan, scoreByCategory } from '../services/interviewPlan';
+import { MessageKey } from '../services/i18n';
+import { Panel, Button } from './HolographicComponents';
+import { useI18n } from './I18n';
+
+const CATEGORY_COLORS: Record<QuestionCategory, string> = {
+  control: '#00f3ff',
+  relevant: '#ff003c',
+  irrelevant: '#888888',
+};
+
+const CATEGORY_KEYS: Record<QuestionCategory, MessageKey> = {
+  control: 'category.control',
+  relevant: 'category.relevant',
+  irrelevant: 'category.irrelevant',
+};
+
+export const InterviewPlanEditor: React.FC<{
+  questions: InterviewQuestion[];
+  onSave: (questions: InterviewQuestion[]) => void;
+  onClose: () => void;
+}> = ({ questions, onSave, onClose }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState(() => serializePlan(questions));
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  let preview: InterviewQuestion[] = [];
+  try {
+    preview = parsePlan(draft);
+  } catch {
+    // Reported on save
+  }
+
+  const save = () => {
+    try {
+      onSave(parsePlan(draft));
+    } catch (e) {
+      setError(t('plan.invalid'));
+    }
+  };
+
+  const loadFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    try {
+      // Normalise JSON plans into the editable line format
+      setDraft(serializePlan(parsePlan(text)));
+      setError(null);
+    } catch {
+      setError(t('plan.invalidFile'));
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-40 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <Panel title={t('plan.title')} className="w-full max-w-3xl max-h-full flex flex-col">
+        <button onClick={onClose} className="absolute top-2 right-2 opacity-70 hover:opacity-100"><X size={16} /></button>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2 flex-1 min-h-0">
+          <textarea
+            value={draft}
+            onChange={e => { setDraft(e.target.value); setError(null); }}
+            placeholder={t('plan.placeholder')}
+            className="min-h-[16rem] bg-black/50 border border-[#00f3ff]/30 p-2 text-xs font-mono outline-none resize-none custom-scrollbar"
+          />
+          <div className="overflow-y-auto space-y-1 text-xs custom-scrollbar">
+            {preview.length === 0 && <div className="opacity-30 text-center py-10">{t('plan.empty')}</div>}
+            {preview.map(q => (
+              <div key={q.id} className="flex gap-2 items-start p-1 border-l-2" style={{ borderColor: CATEGORY_COLORS[q.category] }}>
+                <span className="opacity-50 font-mono w-8 flex-none">{q.id}</span>
+                <span className="text-[10px] flex-none w-24" style={{ color: CATEGORY_COLORS[q.category] }}>{t(CATEGORY_KEYS[q.category])}</span>
+                <span className="font-chinese">{q.text}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 mt-4">
+          {error && <span className="text-[#ff003c] text-xs flex-1">{error}</span>}
+          {!error && <span className="opacity-40 text-[10px] flex-1">{t('plan.hint')}</span>}
+          <Button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 text-xs px-3">
+            <FolderOpen size={14} /> {t('plan.load')}
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".txt,.json,text/plain,application/json" className="hidden" onChange={loadFile} />
+          <Button onClick={save} className="flex items-center gap-2 text-xs px-3 bg-[#00f3ff]/10">
+            <Check size={14} /> {t('common.save')}
+          </Button>
+        </div>
+      </Panel>
+    </div>
+  );
+};
+
+export const QuestionStepper: React.FC<{
+  questions: InterviewQuestion[];
+  index: number;
+  onStep: (index: number) => void;
+}> = ({ questions, index, onStep }) => {
+  const { t } = useI18n();
+  const question = questions[index];
+  if (!question) return null;
+
+  return (
+    <div className="flex-none flex items-center gap-3 border px-3 py-2 bg-black/60" style={{ borderColor: CATEGORY_COLORS[question.category] }}>
+      <Button onClick={() => onStep(index - 1)} disabled={index === 0} className="px-2 py-1 disabled:opacity-20"><ChevronLeft size={16} /></Button>
+      <div className="flex-1 min-w-0 text-center">
+        <div className="text-[10px] tracking-widest opacity-70 font-mono">
+          {question.id} · {index + 1}/{questions.length} · <span style={{ color: CATEGORY_COLORS[question.category] }}>{t(CATEGORY_KEYS[question.category])}</span>
+        </div>
+        <div className="font-chinese font-bold text-base truncate">{question.text}</div>
+      </div>
+      <Button onClick={() => onStep(index + 1)} disabled={index >= questions.length - 1} className="px-2 py-1 disabled:opacity-20"><ChevronRight size={16} /></Button>
+    </div>
+  );
+};
+
+export const CategorySummary: React.FC<{ questions: InterviewQuestion[]; verdicts: Verdict[] }> = ({ questions, verdicts }) => {
+  const { t } = useI18n();
+  const scores = scoreByCategory(questions, verdicts);
+  // Relevant answers running hotter than control answers is the signal; control alone is the subject's baseline
+  const delta = scores.relevant.mean !== null && scores.control.mean !== null ? scores.relevant.mean - scores.control.mean : null;
+
+  return (
+    <div className="w-full mt-4 border-t border-white/10 pt-2 text-xs">
+      <div className="grid grid-cols-3 gap-2 text-center">
+        {(Object.keys(CATEGORY_KEYS) as QuestionCategory[]).map(category => (
+          <div key={category}>
+            <div className="text-[10px] opacity-60" style={{ color: CATEGORY_COLORS[category] }}>{t(CATEGORY_KEYS[category])}</div>
+            <div className="font-display font-bold text-lg tabular-nums">{scores[category].mean === null ? '--' : `${scores[category].mean}%`}</div>
+            <div className="text-[10px] opacity-40">n={scores[category].count}</div>
+          </div>
+        ))}
+      </div>
+      {delta !== null && (
+        <div className={`text-center mt-1 font-mono ${delta > 15 ? 'text-[#ff003c]' : 'opacity-70'}`}>
+          {t('plan.delta')}: {delta > 0 ? '+' : ''}{delta}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, ReferenceLine, Tooltip } from 'recharts';
+import { listSessions } from '../services/sessionArchive';
+import { ProfileMetrics, metricsByProfile } from '../services/metrics';
+import { ProbabilityBand } from '../services/reportExport';
+import { MessageKey } from '../services/i18n';
+import { Panel, Button } from './HolographicComponents';
+import { useI18n } from './I18n';
+
+const BANDS: ProbabilityBand[] = ['truth', 'suspicious', 'deception'];
+
+const BAND_KEYS: Record<ProbabilityBand, MessageKey> = {
+  truth: 'metrics.band.truth',
+  suspicious: 'metrics.band.suspicious',
+  deception: 'metrics.band.deception',
+};
+
+const TOOLTIP_STYLE = { backgroundColor: '#000', borderColor: '#00f3ff', color: '#00f3ff', fontFamily: 'monospace' };
+
+const percent = (value: number | null) => (value === null ? '--' : `${Math.round(value * 100)}%`);
+
+const Stat: React.FC<{ label: string; value: string; title?: string }> = ({ label, value, title }) => (
+  <div className="flex flex-col border border-[#00f3ff]/30 px-3 py-2 bg-black/40" title={title}>
+    <span className="text-[10px] opacity-60 tracking-widest">{label}</span>
+    <span className="text-xl font-display font-bold tabular-nums">{value}</span>
+  </div>
+);
+
+// Until there is something to plot, say what is missing instead of drawing empty axes
+const Chart: React.FC<{ title: string; empty: string; children: React.ReactNode | null }> = ({ title, empty, children }) => (
+  <div className="flex flex-col gap-1 min-w-0">
+    <span className="text-[10px] opacity-60 tracking-widest">{title}</span>
+    <div className="h-48 border border-[#00f3ff]/20 bg-black/40">
+      {children ?? <div className="h-full flex items-center justify-center text-xs opacity-30 text-center px-4">{empty}</div>}
+    </div>
+  </div>
+);
+
+const ProfileReport: React.FC<{ metrics: ProfileMetrics }> = ({ metrics }) => {
+  const { t } = useI18n();
+  const deceptive = metrics.scores.filter(s => s.deceptive).length;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="text-[10px] opacity-60 font-mono">
+        {t('metrics.split', {
+          sessions: metrics.sessionCount,
+          truthful: metrics.scores.length - deceptive,
+          deceptive,
+          unknown: metrics.unknownCount,
+        })}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <Stat
+          label={t('metrics.accuracyAt', { threshold: `≥${metrics.bands.suspicious}` })}
+          value={percent(metrics.accuracyAtSuspicious)}
+          title={t('metrics.accuracyTitle')}
+        />
+        <Stat
+          label={t('metrics.accuracyAt', { threshold: `>${metrics.bands.deception}` })}
+          value={percent(metrics.accuracyAtDeception)}
+          title={t('metrics.accuracyTitle')}
+        />
+        <Stat label="AUC" value={metrics.auc === null ? '--' : metrics.auc.toFixed(2)} title={t('metrics.aucTitle')} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <Chart title={t('metrics.roc')} empty={t('metrics.needBoth')}>
+          {metrics.roc.length > 0 ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={metrics.roc} margin={{ top: 8, right: 8, bottom: 0, left: -24 }}>
+                <XAxis dataKey="fpr" type="number" domain={[0, 1]} ticks={[0, 0.5, 1]} stroke="#00f3ff" fontSize={10} />
+                <YAxis domain={[0, 1]} ticks={[0, 0.5, 1]} stroke="#00f3ff" fontSize={10} />
+                <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} stroke="#ffffff" strokeDasharray="3 3" opacity={0.3} />
+                <Tooltip
+                  contentStyle={TOOLTIP_STYLE}
+                  formatter={(value: number) => [percent(value), 'TPR']}
+                  labelFormatter={(fpr: number) => `FPR ${percent(fpr)}`}
+                />
+                <Line type="linear" dataKey="tpr" stroke="#00f3ff" strokeWidth={2} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          ) : null}
+        </Chart>
+
+        <Chart title={t('metrics.calibration')} empty={t('metrics.noScores')}>
+          {metrics.calibration.length > 0 ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={metrics.calibration} margin={{ top: 8, right: 8, bottom: 0, left: -24 }}>
+                <XAxis dataKey="meanPredicted" type="number" domain={[0, 100]} ticks={[0, 50, 100]} stroke="#00f3ff" fontSize={10} />
+                <YAxis domain={[0, 100]} ticks={[0, 50, 100]} stroke="#00f3ff" fontSize={10} />
+                <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 100, y: 100 }]} stroke="#ffffff" strokeDasharray="3 3" opacity={0.3} />
+                <Tooltip
+                  contentStyle={TOOLTIP_STYLE}
+                  formatter={(value: number) => [`${Math.round(value)}%`, t('metrics.observed')]}
+                  labelFormatter={(predicted: number) => t('metrics.predicted', { value: Math.round(predicted) })}
+                />
+                <Line type="linear" dataKey="observed" stroke="#ffaa00" strokeWidth={2} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          ) : null}
+        </Chart>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <span className="text-[10px] opacity-60 tracking-widest">{t('metrics.confusion')}</span>
+        <table className="w-full text-xs font-mono border border-[#00f3ff]/20 bg-black/40">
+          <thead>
+            <tr className="opacity-60 text-[10px]">
+              <th className="text-left px-2 py-1 font-normal">{t('metrics.actualVsScored')}</th>
+              {BANDS.map(band => <th key={band} className="text-right px-2 py-1 font-normal">{t(BAND_KEYS[band])}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {(['true', 'false'] as const).map(actual => (
+              <tr key={actual} className="border-t border-white/10">
+                <td className="px-2 py-1 opacity-80">{t(actual === 'true' ? 'label.true' : 'label.false')}</td>
+                {BANDS.map(band => (
+                  <td key={band} className="text-right px-2 py-1 tabular-nums">{metrics.confusion[actual][band]}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+/** How well the scores have matched what operators later marked as actually true or false, per interrogator profile. */
+export const MetricsPage: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { t } = useI18n();
+  const [metrics, setMetrics] = useState<ProfileMetrics[] | null>(null);
+  const [profile, setProfile] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listSessions()
+      .then(sessions => setMetrics(metricsByProfile(sessions)))
+      .catch(e => {
+        console.error("Metrics load failed:", e);
+        setError(t('archive.unavailable'));
+      });
+  }, []);
+
+  const shown = useMemo(
+    () => metrics?.find(m => m.profile === profile) ?? metrics?.[0] ?? null,
+    [metrics, profile],
+  );
+
+  return (
+    <div className="absolute inset-0 z-40 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <Panel title={t('metrics.title')} className="w-full max-w-3xl max-h-full flex flex-col">
+        <button onClick={onClose} className="absolute top-2 right-2 opacity-70 hover:opacity-100"><X size={16} /></button>
+
+        <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar pr-1 mt-2 flex flex-col gap-3">
+          {error && <div className="text-[#ff003c] text-center text-xs">{error}</div>}
+          {!error && metrics?.length === 0 && <div className="text-center text-xs opacity-30 py-10 font-chinese">{t('metrics.empty')}</div>}
+
+          {metrics && metrics.length > 1 && (
+            <div className="flex flex-wrap gap-2">
+              {metrics.map(m => (
+                <Button
+                  key={m.profile}
+                  onClick={() => setProfile(m.profile)}
+                  className={`text-[10px] px-2 py-1 font-chinese ${m === shown ? 'bg-[#00f3ff]/20' : 'opacity-60'}`}
+                >
+                  {m.profile}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {shown && (
+            <>
+              {metrics!.length === 1 && <div className="text-xs font-chinese opacity-80">{shown.profile}</div>}
+              <ProfileReport metrics={shown} />
+            </>
+          )}
+        </div>
+      </Panel>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { MessageSquareText, Volume2, VolumeX } from 'lucide-react';
+import { OutputMode, OutputSettings, canSelectOutputDevice } from '../services/audioOutput';
+import { useI18n } from './I18n';
+
+const OUTPUT_MODES: OutputMode[] = ['audio', 'text'];
+
+const selectClass = 'min-w-0 flex-1 bg-black border-b border-current outline-none font-mono truncate';
+
+/** Spoken or written replies, and where and how loud the spoken ones play. Only the mode waits for the next session. */
+export const OutputControls: React.FC<{
+  settings: OutputSettings;
+  devices: MediaDeviceInfo[];
+  /** A session is running, so the mode is fixed. */
+  locked: boolean;
+  onChange: (settings: OutputSettings) => void;
+}> = ({ settings, devices, locked, onChange }) => {
+  const { t } = useI18n();
+  const update = (patch: Partial<OutputSettings>) => onChange({ ...settings, ...patch });
+  const silent = settings.muted || settings.volume === 0;
+
+  return (
+    <div className="flex-none flex items-center gap-3 text-xs border border-[#00f3ff]/30 px-3 py-2 bg-black/40">
+      <span className="opacity-60 flex-none">{t('output.label')}</span>
+      <span className="flex flex-none">
+        {OUTPUT_MODES.map(mode => (
+          <button
+            key={mode}
+            onClick={() => update({ mode })}
+            disabled={locked}
+            className={`flex items-center gap-1 px-2 py-0.5 border disabled:cursor-not-allowed ${
+              settings.mode === mode ? 'border-current bg-[#00f3ff]/10' : 'border-transparent opacity-50 hover:opacity-100 disabled:hover:opacity-50'
+            }`}
+            title={locked ? t('output.modeLocked') : t(`output.modeTitle.${mode}`)}
+          >
+            {mode === 'audio' ? <Volume2 size={14} /> : <MessageSquareText size={14} />} {t(`output.mode.${mode}`)}
+          </button>
+        ))}
+      </span>
+      {settings.mode === 'audio' && (
+        <>
+          <button
+            onClick={() => update({ muted: !settings.muted })}
+            className={`flex-none ${silent ? 'text-[#ff003c]' : 'opacity-70 hover:opacity-100'}`}
+            title={t(settings.muted ? 'output.unmute' : 'output.mute')}
+          >
+            {silent ? <VolumeX size={14} /> : <Volume2 size={14} />}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.volume}
+            onChange={e => update({ volume: Number(e.target.value), muted: false })}
+            className="w-20 flex-none accent-[#00f3ff]"
+            title={t('output.volumeTitle')}
+          />
+          {canSelectOutputDevice() && (
+            <select value={settings.sinkId} onChange={e => update({ sinkId: e.target.value })} className={selectClass} title={t('output.deviceTitle')}>
+              <option value="">{t('source.default')}</option>
+              {devices.map((device, i) => (
+                <option key={device.deviceId} value={device.deviceId}>{device.label || t('source.device', { n: i + 1 })}</option>
+              ))}
+            </select>
+          )}
+          <label className="flex items-center gap-1 flex-none cursor-pointer opacity-70 hover:opacity-100" title={t('output.keepTitle')}>
+            <input type="checkbox" checked={settings.recordReplies} disabled={locked} onChange={e => update({ recordReplies: e.target.checked })} className="accent-[#00f3ff]" />
+            {t('output.keep')}
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useRef, useState } from 'react';
+import { X, Check, Plus, Trash2, FolderOpen, Download, Star } from 'lucide-react';
+import { InterrogatorProfile } from '../types';
+import { GEMINI_VOICES, parseProfiles, renderPrompt, serializeProfiles } from '../services/profiles';
+import { downloadFile, fileStamp } from '../services/fileUtils';
+import { MessageKey } from '../services/i18n';
+import { Panel, Button } from './HolographicComponents';
+import { useI18n } from './I18n';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="flex flex-col gap-1 text-[10px] opacity-90">
+    <span className="opacity-60 tracking-widest">{label}</span>
+    {children}
+  </label>
+);
+
+const INPUT_CLASS = 'bg-black/50 border border-[#00f3ff]/30 px-2 py-1 text-xs font-mono outline-none focus:border-[#00f3ff]';
+
+/** Why a profile can't be saved as it stands, or null if it can. */
+function profileProblem(profile: InterrogatorProfile): MessageKey | null {
+  if (!profile.name.trim()) return 'profile.nameRequired';
+  if (!profile.tagFormat.includes('XX')) return 'profile.tagNeedsXX';
+  const { suspicious, deception } = profile.bands;
+  if (!(suspicious >= 0 && suspicious <= deception && deception <= 100)) return 'profile.invalidBands';
+  if (!profile.model.trim() || !profile.voice.trim()) return 'profile.modelVoiceRequired';
+  return null;
+}
+
+export const ProfileSettings: React.FC<{
+  profiles: InterrogatorProfile[];
+  activeId: string;
+  onSave: (profiles: InterrogatorProfile[], activeId: string) => void;
+  onClose: () => void;
+}> = ({ profiles, activeId, onSave, onClose }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState(profiles);
+  const [selectedId, setSelectedId] = useState(activeId);
+  const [draftActiveId, setDraftActiveId] = useState(activeId);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = draft.find(p => p.id === selectedId) ?? draft[0];
+
+  const update = (changes: Partial<InterrogatorProfile>) => {
+    setDraft(prev => prev.map(p => (p.id === selected.id ? { ...p, ...changes } : p)));
+    setError(null);
+  };
+
+  const duplicate = () => {
+    const copy = { ...selected, id: Math.random().toString(36).substr(2, 9), name: `${selected.name} ${t('profile.copySuffix')}` };
+    setDraft(prev => [...prev, copy]);
+    setSelectedId(copy.id);
+  };
+
+  const remove = () => {
+    if (draft.length <= 1) return;
+    const rest = draft.filter(p => p.id !== selected.id);
+    setDraft(rest);
+    setSelectedId(rest[0].id);
+    if (draftActiveId === selected.id) setDraftActiveId(rest[0].id);
+  };
+
+  const save = () => {
+    for (const profile of draft) {
+      const problem = profileProblem(profile);
+      if (problem) {
+        setSelectedId(profile.id);
+        setError(t(problem));
+        return;
+      }
+    }
+    onSave(draft, draftActiveId);
+  };
+
+  const importFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseProfiles(await file.text());
+      // Same id replaces, new ids are added
+      setDraft(prev => [...prev.filter(p => !imported.some(i => i.id === p.id)), ...imported]);
+      setSelectedId(imported[0].id);
+      setError(null);
+    } catch (e) {
+      console.error('Profile import failed', e);
+      setError(t('profile.invalidFile'));
+    }
+  };
+
+  const exportAll = () => {
+    downloadFile(`veritas-profiles-${fileStamp(Date.now())}.json`, serializeProfiles(draft), 'application/json');
+  };
+
+  const tagExample = selected.tagFormat.includes('XX') ? selected.tagFormat.replace('XX', '42') : '';
+
+  return (
+    <div className="absolute inset-0 z-40 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <Panel title={t('profile.title')} className="w-full max-w-5xl max-h-full flex flex-col">
+        <button onClick={onClose} className="absolute top-2 right-2 opacity-70 hover:opacity-100"><X size={16} /></button>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-2 flex-1 min-h-0">
+          <div className="flex flex-col gap-1 overflow-y-auto custom-scrollbar text-xs">
+            {draft.map(profile => (
+              <button
+                key={profile.id}
+                onClick={() => { setSelectedId(profile.id); setError(null); }}
+                className={`text-left px-2 py-1 border-l-2 flex items-center gap-2 ${profile.id === selected.id ? 'border-[#00f3ff] bg-[#00f3ff]/10' : 'border-transparent opacity-70 hover:opacity-100'}`}
+              >
+                {profile.id === draftActiveId && <Star size={12} className="flex-none" />}
+                <span className="truncate">{profile.name}</span>
+              </button>
+            ))}
+            <div className="flex gap-1 mt-2">
+              <Button onClick={duplicate} className="flex-1 px-2 py-1 text-[10px]" title={t('profile.duplicate')}><Plus size={12} className="inline" /></Button>
+              <Button onClick={remove} variant="danger" disabled={draft.length <= 1} className="flex-1 px-2 py-1 text-[10px] disabled:opacity-20" title={t('profile.delete')}><Trash2 size={12} className="inline" /></Button>
+            </div>
+          </div>
+
+          <div className="md:col-span-3 flex flex-col gap-2 min-h-0 overflow-y-auto custom-scrollbar pr-1">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              <Field label={t('profile.name')}>
+                <input value={selected.name} onChange={e => update({ name: e.target.value })} className={INPUT_CLASS} />
+              </Field>
+              <Field label={t('profile.language')}>
+                <input value={selected.language} onChange={e => update({ language: e.target.value })} placeholder="zh-CN" className={INPUT_CLASS} />
+              </Field>
+              <Field label={t('profile.voice')}>
+                <input list="gemini-voices" value={selected.voice} onChange={e => update({ voice: e.target.value })} className={INPUT_CLASS} />
+                <datalist id="gemini-voices">
+                  {GEMINI_VOICES.map(voice => <option key={voice} value={voice} />)}
+                </datalist>
+              </Field>
+              <Field label={t('profile.model')}>
+                <input value={selected.model} onChange={e => update({ model: e.target.value })} className={INPUT_CLASS} />
+              </Field>
+              <Field label={`${t('profile.tagFormat')}${tagExample ? ` · ${tagExample}` : ''}`}>
+                <input value={selected.tagFormat} onChange={e => update({ tagFormat: e.target.value })} className={INPUT_CLASS} />
+              </Field>
+              <Field label={t('profile.bands')}>
+                <div className="flex gap-1">
+                  <input type="number" min={0} max={100} value={selected.bands.suspicious} onChange={e => update({ bands: { ...selected.bands, suspicious: Number(e.target.value) } })} className={`${INPUT_CLASS} w-full text-[#ffaa00]`} />
+                  <input type="number" min={0} max={100} value={selected.bands.deception} onChange={e => update({ bands: { ...selected.bands, deception: Number(e.target.value) } })} className={`${INPUT_CLASS} w-full text-[#ff003c]`} />
+                </div>
+              </Field>
+            </div>
+
+            <Field label={`${t('profile.prompt')} · {{TAG}} {{TRUTH_MAX}} {{SUSPICIOUS_MIN}} {{SUSPICIOUS_MAX}} {{DECEPTION_MIN}}`}>
+              <textarea
+                value={selected.promptTemplate}
+                onChange={e => update({ promptTemplate: e.target.value })}
+                className={`${INPUT_CLASS} min-h-[14rem] resize-none custom-scrollbar font-chinese`}
+              />
+            </Field>
+            <details className="text-[10px] opacity-60">
+              <summary className="cursor-pointer">{t('profile.preview')}</summary>
+              <pre className="whitespace-pre-wrap font-chinese mt-1">{renderPrompt(selected)}</pre>
+            </details>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 mt-4">
+          {error ? <span className="text-[#ff003c] text-xs flex-1">{error}</span> : <span className="opacity-40 text-[10px] flex-1">{t('profile.activeHint')}</span>}
+          <Button onClick={() => setDraftActiveId(selected.id)} disabled={draftActiveId === selected.id} className="flex items-center gap-2 text-xs px-3 disabled:opacity-20">
+            <Star size={14} /> {t('profile.use')}
+          </Button>
+          <Button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 text-xs px-3">
+            <FolderOpen size={14} /> {t('profile.import')}
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={importFile} />
+          <Button onClick={exportAll} className="flex items-center gap-2 text-xs px-3">
+            <Download size={14} /> {t('profile.export')}
+          </Button>
+          <Button onClick={save} className="flex items-center gap-2 text-xs px-3 bg-[#00f3ff]/10">
+            <Check size={14} /> {t('common.save')}
+          </Button>
+        </div>
+      </Panel>
+    </div>
+  );
+};
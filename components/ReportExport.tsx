@@ -0,0 +1,38 @@
+import React from 'react';
+import { FileJson, FileSpreadsheet, FileText, Printer } from 'lucide-react';
+import { ArchivedSession } from '../types';
+import { exportReport, printReport, ExportFormat } from '../services/reportExport';
+import { Button } from './HolographicComponents';
+import { useI18n } from './I18n';
+
+const FORMATS: { format: ExportFormat; label: string; icon: React.ReactNode }[] = [
+  { format: 'json', label: 'JSON', icon: <FileJson size={14} /> },
+  { format: 'csv', label: 'CSV', icon: <FileSpreadsheet size={14} /> },
+  { format: 'html', label: 'HTML', icon: <FileText size={14} /> },
+];
+
+export const ReportExportButtons: React.FC<{ session: ArchivedSession }> = ({ session }) => {
+  const { t, locale } = useI18n();
+  return (
+    <div className="flex-none flex items-stretch gap-1" title={t('export.title')}>
+      {FORMATS.map(({ format, label, icon }) => (
+        <Button key={format} onClick={() => exportReport(session, format, locale)} className="flex items-center gap-1 text-[10px] px-2 py-1 opacity-70">
+          {icon} {label}
+        </Button>
+      ))}
+      <Button
+        onClick={() => {
+          try {
+            printReport(session, locale);
+          } catch (e) {
+            console.error("Print report failed:", e);
+          }
+        }}
+        className="flex items-center gap-1 text-[10px] px-2 py-1 opacity-70"
+        title={t('export.print')}
+      >
+        <Printer size={14} /> PDF
+      </Button>
+    </div>
+  );
+};
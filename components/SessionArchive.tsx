@@ -0,0 +1,111 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Search, Trash2, Pencil, Eye, X, Check } from 'lucide-react';
+import { ArchivedSession } from '../types';
+import { listSessions, renameSession, deleteSession } from '../services/sessionArchive';
+import { probabilityBand } from '../services/reportExport';
+import { Panel, Button } from './HolographicComponents';
+import { useI18n } from './I18n';
+
+const BAND_CLASSES = { truth: '', suspicious: 'text-[#ffaa00]', deception: 'text-[#ff003c]' };
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const SessionArchive: React.FC<{ onOpen: (session: ArchivedSession) => void; onClose: () => void }> = ({ onOpen, onClose }) => {
+  const { t, formatDateTime } = useI18n();
+  const [sessions, setSessions] = useState<ArchivedSession[]>([]);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    listSessions()
+      .then(setSessions)
+      .catch(e => {
+        console.error("Archive load failed:", e);
+        setError(t('archive.unavailable'));
+      });
+  };
+
+  useEffect(refresh, []);
+
+  // Match the session name or anything said during it
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return sessions;
+    return sessions.filter(s =>
+      s.name.toLowerCase().includes(q) || s.logs.some(log => log.message.toLowerCase().includes(q))
+    );
+  }, [sessions, query]);
+
+  const commitRename = async (id: string) => {
+    const name = draftName.trim();
+    setEditingId(null);
+    if (!name) return;
+    await renameSession(id, name);
+    refresh();
+  };
+
+  const remove = async (session: ArchivedSession) => {
+    if (!window.confirm(t('archive.confirmDelete', { name: session.name }))) return;
+    await deleteSession(session.id);
+    refresh();
+  };
+
+  return (
+    <div className="absolute inset-0 z-40 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <Panel title={t('archive.title')} className="w-full max-w-3xl max-h-full flex flex-col">
+        <button onClick={onClose} className="absolute top-2 right-2 opacity-70 hover:opacity-100"><X size={16} /></button>
+
+        <div className="flex items-center gap-2 mt-2 mb-4 border-b border-white/10 pb-2">
+          <Search size={14} className="opacity-50" />
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder={t('archive.search')}
+            className="flex-1 bg-transparent outline-none text-sm placeholder:opacity-30"
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2 pr-1 custom-scrollbar text-xs">
+          {error && <div className="text-[#ff003c] text-center">{error}</div>}
+          {!error && filtered.length === 0 && <div className="text-center opacity-30 py-10">{t('archive.empty')}</div>}
+          {filtered.map(session => (
+            <div key={session.id} className="flex items-center gap-3 p-2 border-l-2 border-[#00f3ff] bg-[#00f3ff]/5">
+              <div className="flex-1 min-w-0">
+                {editingId === session.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={e => setDraftName(e.target.value)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') commitRename(session.id);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="w-full bg-transparent border-b border-current outline-none font-bold"
+                  />
+                ) : (
+                  <div className="font-bold truncate font-chinese">{session.name}</div>
+                )}
+                <div className="opacity-50 font-mono">
+                  {formatDateTime(session.startedAt)} · {formatDuration(session.endedAt - session.startedAt)} · {t('archive.entries', { count: session.logs.length })} · {session.backend.toUpperCase()}
+                </div>
+              </div>
+              <div className={`font-display font-bold text-lg tabular-nums ${BAND_CLASSES[probabilityBand(session.finalProbability, session.profile?.bands)]}`}>{session.finalProbability}%</div>
+              {editingId === session.id ? (
+                <Button onClick={() => commitRename(session.id)} className="px-2 py-1"><Check size={14} /></Button>
+              ) : (
+                <Button onClick={() => { setEditingId(session.id); setDraftName(session.name); }} className="px-2 py-1" title={t('archive.rename')}><Pencil size={14} /></Button>
+              )}
+              <Button onClick={() => onOpen(session)} className="px-2 py-1" title={t('archive.open')}><Eye size={14} /></Button>
+              <Button onClick={() => remove(session)} variant="danger" className="px-2 py-1" title={t('archive.delete')}><Trash2 size={14} /></Button>
+            </div>
+          ))}
+        </div>
+      </Panel>
+    </div>
+  );
+};
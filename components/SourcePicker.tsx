@@ -0,0 +1,66 @@
+import React from 'react';
+import { Camera, MonitorUp } from 'lucide-react';
+import { DisplayAudio, InputDevices, SourceSelection } from '../services/mediaSources';
+import { useI18n } from './I18n';
+
+const DISPLAY_AUDIO: DisplayAudio[] = ['tab', 'mic', 'both'];
+
+const selectClass = 'min-w-0 flex-1 bg-black border-b border-current outline-none font-mono truncate';
+
+/** Camera/mic or screen-share choice; changes apply to a running session without reconnecting. */
+export const SourcePicker: React.FC<{
+  selection: SourceSelection;
+  devices: InputDevices;
+  onChange: (selection: SourceSelection) => void;
+}> = ({ selection, devices, onChange }) => {
+  const { t } = useI18n();
+  const update = (patch: Partial<SourceSelection>) => onChange({ ...selection, ...patch });
+  const usesMic = selection.mode === 'camera' || selection.displayAudio !== 'tab';
+
+  const deviceOptions = (list: MediaDeviceInfo[]) => [
+    <option key="" value="">{t('source.default')}</option>,
+    ...list.map((device, i) => (
+      <option key={device.deviceId} value={device.deviceId}>{device.label || t('source.device', { n: i + 1 })}</option>
+    )),
+  ];
+
+  return (
+    <div className="flex-none flex items-center gap-3 text-xs border border-[#00f3ff]/30 px-3 py-2 bg-black/40">
+      <span className="opacity-60 flex-none">{t('source.label')}</span>
+      <span className="flex flex-none">
+        <button
+          onClick={() => update({ mode: 'camera' })}
+          className={`flex items-center gap-1 px-2 py-0.5 border ${selection.mode === 'camera' ? 'border-current bg-[#00f3ff]/10' : 'border-transparent opacity-50 hover:opacity-100'}`}
+        >
+          <Camera size={14} /> {t('source.camera')}
+        </button>
+        <button
+          onClick={() => update({ mode: 'display' })}
+          className={`flex items-center gap-1 px-2 py-0.5 border ${selection.mode === 'display' ? 'border-current bg-[#00f3ff]/10' : 'border-transparent opacity-50 hover:opacity-100'}`}
+          title={t('source.displayTitle')}
+        >
+          <MonitorUp size={14} /> {t('source.display')}
+        </button>
+      </span>
+      {selection.mode === 'camera' ? (
+        <select value={selection.cameraId} onChange={e => update({ cameraId: e.target.value })} className={selectClass} title={t('source.cameraTitle')}>
+          {deviceOptions(devices.cameras)}
+        </select>
+      ) : (
+        <select
+          value={selection.displayAudio}
+          onChange={e => update({ displayAudio: e.target.value as DisplayAudio })}
+          className={selectClass}
+          title={t('source.audioTitle')}
+        >
+          {DISPLAY_AUDIO.map(audio => <option key={audio} value={audio}>{t(`source.audio.${audio}`)}</option>)}
+        </select>
+      )}
+      {usesMic && (
+        <select value={selection.micId} onChange={e => update({ micId: e.target.value })} className={selectClass} title={t('source.micTitle')}>
+          {deviceOptions(devices.mics)}
+        </select>
+      )}
+    </div>
+  );
+};
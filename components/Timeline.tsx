@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { LineChart, Line, YAxis, XAxis, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { ProbabilitySample, VerdictBands } from '../types';
+import { CueSpike } from '../services/cues';
+import { useI18n } from './I18n';
+
+/** A subject statement on the timeline, with the score its verdict gave (null until judged). */
+export interface TimelineSegment {
+  id: string;
+  start: number;
+  end: number;
+  text: string;
+  probability: number | null;
+}
+
+const BAND_COLORS = { truth: '#00f3ff', suspicious: '#ffaa00', deception: '#ff003c', unscored: '#555555' };
+
+/** Narrowest a segment is drawn, as a share of the timeline, so one-word answers stay clickable. */
+const MIN_SEGMENT = 0.006;
+
+const segmentColor = (probability: number | null, bands: VerdictBands) =>
+  probability === null ? BAND_COLORS.unscored
+    : probability > bands.deception ? BAND_COLORS.deception
+    : probability >= bands.suspicious ? BAND_COLORS.suspicious
+    : BAND_COLORS.truth;
+
+/**
+ * The whole session at once: the deception-rate line above, the subject's
+ * statements as colored segments below. Dragging across it scrubs a cursor
+ * that reads out the rate and statement at that moment and selects it.
+ * Spikes are marked along the top, and the readout names the cues behind the
+ * one under the cursor.
+ */
+export const Timeline: React.FC<{
+  series: ProbabilitySample[];
+  segments: TimelineSegment[];
+  bands: VerdictBands;
+  color: string;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  spikes?: CueSpike[];
+}> = ({ series, segments, bands, color, selectedId, onSelect, spikes = [] }) => {
+  const { t, formatTime } = useI18n();
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [scrubbing, setScrubbing] = useState(false);
+
+  const times = [...series.map(s => s.time), ...segments.flatMap(s => [s.start, s.end])];
+  if (times.length === 0) {
+    return <div className="flex-1 flex items-center justify-center text-xs opacity-30">{t('graph.empty')}</div>;
+  }
+  const from = Math.min(...times);
+  const to = Math.max(from + 1000, ...times);
+  const span = to - from;
+  const position = (time: number) => (time - from) / span;
+
+  const segmentAt = (time: number) => {
+    const slack = span * MIN_SEGMENT;
+    return segments.find(s => time >= s.start - slack && time <= s.end + slack) ?? null;
+  };
+
+  const scrubTo = (event: React.PointerEvent<HTMLDivElement>) => {
+    const box = event.currentTarget.getBoundingClientRect();
+    const time = from + Math.max(0, Math.min(1, (event.clientX - box.left) / box.width)) * span;
+    setCursor(time);
+    const segment = segmentAt(time);
+    if (segment && segment.id !== selectedId) onSelect(segment.id);
+  };
+
+  const cursorSample: ProbabilitySample | undefined = cursor === null ? undefined
+    : series.filter((s: ProbabilitySample) => s.time <= cursor).pop();
+  const cursorSegment = cursor === null ? null : segmentAt(cursor);
+  const cursorSpike = cursor === null ? undefined
+    : spikes.find((spike: CueSpike) => Math.abs(spike.time - cursor) <= span * MIN_SEGMENT * 2);
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col gap-1">
+      <div
+        className="relative flex-1 min-h-0 cursor-ew-resize select-none touch-none"
+        onPointerDown={event => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          setScrubbing(true);
+          scrubTo(event);
+        }}
+        onPointerMove={event => scrubbing && scrubTo(event)}
+        onPointerUp={() => setScrubbing(false)}
+      >
+        <div className="absolute inset-x-0 top-0 bottom-6">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={series} margin={{ top: 4, right: 0, bottom: 0, left: 0 }}>
+              <YAxis domain={[0, 100]} hide />
+              <XAxis dataKey="time" type="number" domain={[from, to]} hide />
+              <ReferenceLine y={bands.suspicious} stroke="#ffaa00" strokeDasharray="3 3" opacity={0.5} />
+              <ReferenceLine y={bands.deception} stroke="#ff003c" strokeDasharray="3 3" opacity={0.5} />
+              <Line type="monotone" dataKey="value" stroke={color} strokeWidth={2} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        {spikes.map((spike: CueSpike) => (
+          <div
+            key={spike.verdictId}
+            className="absolute top-0 -translate-x-1/2 text-[8px] leading-none pointer-events-none"
+            style={{ left: `${position(spike.time) * 100}%`, color: segmentColor(spike.probability, bands) }}
+          >
+            ▼
+          </div>
+        ))}
+
+        {/* Statements lane */}
+        <div className="absolute inset-x-0 bottom-0 h-5 border-t border-white/10">
+          {segments.map(segment => (
+            <div
+              key={segment.id}
+              className={`absolute top-1 bottom-0 ${segment.id === selectedId ? 'ring-1 ring-white z-10' : 'opacity-80'}`}
+              style={{
+                left: `${position(segment.start) * 100}%`,
+                width: `${Math.max(MIN_SEGMENT, position(segment.end) - position(segment.start)) * 100}%`,
+                backgroundColor: segmentColor(segment.probability, bands),
+              }}
+            />
+          ))}
+        </div>
+
+        {cursor !== null && (
+          <div className="absolute top-0 bottom-0 w-px bg-white/70 pointer-events-none" style={{ left: `${position(cursor) * 100}%` }} />
+        )}
+      </div>
+
+      <div className="h-4 text-[10px] font-mono opacity-70 truncate">
+        {cursor === null ? t('graph.scrubHint') : (
+          <>
+            {formatTime(cursor)}
+            {cursorSample && ` · ${cursorSample.value}%`}
+            {cursorSpike && cursorSpike.cues.length > 0 && (
+              <span className="text-[#ffaa00]"> · ▼ {cursorSpike.cues.map(id => t(`cue.name.${id}`)).join(', ')}</span>
+            )}
+            {cursorSegment && <span className="font-chinese"> · {cursorSegment.text}</span>}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
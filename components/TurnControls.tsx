@@ -0,0 +1,82 @@
+import React from 'react';
+import { Mic, MicOff, ScanSearch } from 'lucide-react';
+import { TURN_MODES, TurnMode } from '../services/turnMode';
+import { useI18n } from './I18n';
+
+/**
+ * The MIC strip under the graph: input level and turn state. Between sessions
+ * it picks the turn mode; during one it carries the talk or analyze button,
+ * which mirror the Space and Enter shortcuts.
+ */
+export const TurnControls: React.FC<{
+  mode: TurnMode;
+  onModeChange: (mode: TurnMode) => void;
+  /** A session is running that takes turns from this panel. */
+  active: boolean;
+  volume: number;
+  talking: boolean;
+  analyzing: boolean;
+  onTalk: (talking: boolean) => void;
+  onAnalyze: () => void;
+}> = ({ mode, onModeChange, active, volume, talking, analyzing, onTalk, onAnalyze }) => {
+  const { t } = useI18n();
+  const muted = active && mode === 'push-to-talk' && !talking;
+
+  const state = !active ? 'MIC'
+    : mode === 'continuous' ? t('turn.auto')
+    : mode === 'push-to-talk' ? t(talking ? 'turn.talking' : 'turn.muted')
+    : t(analyzing ? 'turn.analyzing' : 'turn.listening');
+
+  return (
+    <div className="mt-2 border-t border-white/10 pt-2 flex flex-col gap-1">
+      <div className="h-4 flex items-center gap-2">
+        {muted ? <MicOff size={12} className="opacity-50" /> : <Mic size={12} className={talking ? 'text-[#ff003c]' : 'opacity-50'} />}
+        <div className={`flex-1 h-2 bg-gray-900 overflow-hidden ${muted ? 'opacity-30' : ''}`}>
+          <div className={`h-full transition-all duration-75 ${talking ? 'bg-[#ff003c]' : 'bg-white'}`} style={{ width: `${Math.min(100, volume * 2)}%` }}></div>
+        </div>
+        <span className={`text-[10px] font-mono text-right flex-none ${talking ? 'text-[#ff003c]' : analyzing ? 'text-[#ffaa00] animate-pulse' : 'opacity-50'}`}>
+          {state}
+        </span>
+      </div>
+
+      {!active ? (
+        <div className="flex items-center gap-2 text-[10px]">
+          <span className="opacity-50 flex-none">{t('turn.label')}</span>
+          {TURN_MODES.map(option => (
+            <button
+              key={option}
+              onClick={() => onModeChange(option)}
+              className={`px-2 py-0.5 border ${mode === option ? 'border-current bg-[#00f3ff]/10' : 'border-transparent opacity-50 hover:opacity-100'}`}
+              title={t(`turn.modeTitle.${option}`)}
+            >
+              {t(`turn.mode.${option}`)}
+            </button>
+          ))}
+        </div>
+      ) : mode === 'push-to-talk' ? (
+        <button
+          onPointerDown={e => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            onTalk(true);
+          }}
+          onPointerUp={() => onTalk(false)}
+          onPointerCancel={() => onTalk(false)}
+          className={`w-full py-1 text-[10px] font-bold tracking-widest border select-none touch-none ${
+            talking ? 'border-[#ff003c] bg-[#ff003c]/20 text-[#ff003c]' : 'border-[#00f3ff]/50 hover:bg-[#00f3ff]/10'
+          }`}
+        >
+          {t('turn.hold')}
+        </button>
+      ) : mode === 'manual' ? (
+        <button
+          onClick={onAnalyze}
+          className={`w-full py-1 flex items-center justify-center gap-2 text-[10px] font-bold tracking-widest border ${
+            analyzing ? 'border-[#ffaa00] text-[#ffaa00]' : 'border-[#00f3ff]/50 hover:bg-[#00f3ff]/10'
+          }`}
+        >
+          <ScanSearch size={12} /> {t('turn.analyze')}
+        </button>
+      ) : null}
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import { appendFile, mkdir, readFile, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { parseArgs } from 'util';
+import { DEFAULT_CAPTURE_OPTIONS } from '../services/audioCapture';
+import { fileStamp } from '../services/fileUtils';
+import { DEFAULT_FRAME_OPTIONS } from '../services/frameSender';
+import { LabeledScore, scoreMetrics } from '../services/metrics';
+import { DEFAULT_MOCK_SCRIPT, ScriptedEvent } from '../services/mockScript';
+import { DEFAULT_PROFILE, parseProfiles } from '../services/profiles';
+import { probabilityBand } from '../services/reportExport';
+import { SessionRecorder, SessionRecording, parseRecording } from '../services/sessionRecorder';
+import { Upstream, fakeUpstream, geminiUpstream } from '../server/upstream';
+import { VerdictBands } from '../types';
+import { MANIFEST_FILE, parseManifest } from './manifest';
+import { loadClipMedia } from './media';
+import { ClipResult, runClip } from './pipeline';
+
+const USAGE = `Usage: npm run eval -- <clips-dir> [options]
+
+  --backend gemini|mock|recorded   where clips are analyzed (default gemini)
+  --recordings <dir>               recorded responses, <clip id>.json each (default <clips-dir>/recordings)
+  --record <dir>                   save each clip's server messages there for later --backend recorded runs
+  --profiles <file>                profiles exported from the app (default: the built-in profile)
+  --profile <id>                   which of them to use (default: the first)
+  --out <file>                     JSONL results (default eval-results-<time>.jsonl)
+  --speed <n>                      playback speed; keep 1 for gemini (default 1)
+  --tail <seconds>                 how long to wait for verdicts after each clip (default 8)`;
+
+// Same env file as the Vite app, so capture settings and the key match the browser's
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No file: rely on the real environment
+}
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    backend: { type: 'string', default: 'gemini' },
+    recordings: { type: 'string' },
+    record: { type: 'string' },
+    profiles: { type: 'string' },
+    profile: { type: 'string' },
+    out: { type: 'string' },
+    speed: { type: 'string', default: '1' },
+    tail: { type: 'string', default: '8' },
+  },
+});
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+/** A recording's server messages as a script, at its original pace divided by `speed`. */
+const recordedScript = (recording: SessionRecording, speed: number): ScriptedEvent[] => {
+  let previous = 0;
+  return recording.events.flatMap(event => {
+    if (event.kind !== 'message') return [];
+    const delayMs = (event.t - previous) / speed;
+    previous = event.t;
+    return [{ delayMs, message: event.message }];
+  });
+};
+
+async function main() {
+  const [dirArg] = positionals;
+  if (!dirArg) fail(USAGE);
+  const dir = resolve(dirArg);
+  const speed = Number(args.speed);
+  const tailMs = Number(args.tail) * 1000;
+  if (!(speed > 0) || !(tailMs >= 0)) fail('--speed must be positive and --tail non-negative');
+
+  const clips = parseManifest(await readFile(join(dir, MANIFEST_FILE), 'utf8'));
+  const profiles = args.profiles ? parseProfiles(await readFile(args.profiles, 'utf8')) : [DEFAULT_PROFILE];
+  const profile = args.profile ? profiles.find(p => p.id === args.profile) : profiles[0];
+  if (!profile) return fail(`No profile with id "${args.profile}"`);
+
+  const chunkMs = Number(process.env.AUDIO_CHUNK_MS);
+  const budgetKbps = Number(process.env.VIDEO_BUDGET_KBPS);
+  const capture = chunkMs > 0 ? { ...DEFAULT_CAPTURE_OPTIONS, chunkMs } : DEFAULT_CAPTURE_OPTIONS;
+  const frames = budgetKbps > 0 ? { budgetBytesPerSec: budgetKbps * 1000 } : DEFAULT_FRAME_OPTIONS;
+
+  const backend = args.backend;
+  const recordingsDir = args.recordings ?? join(dir, 'recordings');
+  let upstreamFor: (clipId: string) => Promise<Upstream>;
+  if (backend === 'gemini') {
+    if (!process.env.GEMINI_API_KEY) fail('GEMINI_API_KEY is not set (or use --backend mock / recorded)');
+    const gemini = geminiUpstream(process.env.GEMINI_API_KEY!);
+    upstreamFor = async () => gemini;
+  } else if (backend === 'mock') {
+    upstreamFor = async () => fakeUpstream(DEFAULT_MOCK_SCRIPT);
+  } else if (backend === 'recorded') {
+    upstreamFor = async clipId => {
+      const recording = parseRecording(await readFile(join(recordingsDir, `${clipId}.json`), 'utf8'));
+      return fakeUpstream(recordedScript(recording, speed), false);
+    };
+  } else {
+    return fail(`Unknown backend "${backend}"\n\n${USAGE}`);
+  }
+
+  const out = args.out ?? `eval-results-${fileStamp(Date.now())}.jsonl`;
+  await writeFile(out, '');
+  if (args.record) await mkdir(args.record, { recursive: true });
+  console.log(`[eval] ${clips.length} clip(s) · backend ${backend} · profile ${profile.name} · ${capture.chunkMs} ms chunks`);
+
+  const results: ClipResult[] = [];
+  for (const clip of clips) {
+    const recorder = args.record ? new SessionRecorder(backend, profile, 'audio') : undefined;
+    let result: ClipResult;
+    try {
+      const media = await loadClipMedia(join(dir, clip.file));
+      result = await runClip(clip, media, await upstreamFor(clip.id), { profile, capture, frames, speed, tailMs, recorder });
+      if (recorder) await writeFile(join(args.record!, `${clip.id}.json`), JSON.stringify(recorder.finish()));
+    } catch (e) {
+      console.error(`[eval] ${clip.id}: ${e instanceof Error ? e.message : e}`);
+      result = { id: clip.id, file: clip.file, label: clip.label, score: null, verdicts: [], utterances: [], durationSec: 0, audioChunks: 0, framesSent: 0, error: String(e) };
+    }
+    results.push(result);
+    await appendFile(out, JSON.stringify(result) + '\n');
+    console.log(`[eval] ${clip.id}: ${result.score === null ? 'no verdict' : `${result.score}%`} (${clip.label})`);
+  }
+
+  printSummary(results, profile.bands);
+  console.log(`[eval] results written to ${out}`);
+  if (results.some(r => r.error)) process.exit(1);
+}
+
+function printSummary(results: ClipResult[], bands: VerdictBands) {
+  console.table(results.map(r => ({
+    clip: r.id,
+    label: r.label,
+    score: r.score ?? '--',
+    band: r.score === null ? '--' : probabilityBand(r.score, bands),
+    verdicts: r.verdicts.length,
+    frames: r.framesSent,
+    error: r.error ?? '',
+  })));
+
+  const scores: LabeledScore[] = results
+    .filter(r => r.score !== null && r.label !== 'unknown')
+    .map(r => ({ probability: r.score!, deceptive: r.label === 'false' }));
+  const metrics = scoreMetrics(scores, bands);
+  const percent = (value: number | null) => (value === null ? '--' : `${Math.round(value * 100)}%`);
+  console.log(
+    `[eval] ${scores.length} scored and labeled · ` +
+    `accuracy ≥${bands.suspicious}: ${percent(metrics.accuracyAtSuspicious)} · ` +
+    `accuracy >${bands.deception}: ${percent(metrics.accuracyAtDeception)} · ` +
+    `AUC ${metrics.auc === null ? '--' : metrics.auc.toFixed(2)}`
+  );
+  console.table(metrics.confusion);
+}
+
+main().catch(e => fail(`[eval] ${e instanceof Error ? e.message : e}`));
@@ -0,0 +1,52 @@
+import { basename, extname } from 'path';
+import { GroundTruth, InterviewQuestion, QuestionCategory } from '../types';
+
+/** Looked for in the clips directory. */
+export const MANIFEST_FILE = 'manifest.json';
+
+export interface EvalClip {
+  /** Names the clip in the results and its recording; defaults to the file name without extension. */
+  id: string;
+  /** Relative to the clips directory. */
+  file: string;
+  /** Whether the subject was telling the truth in the clip. */
+  label: GroundTruth;
+  /** Sent as the active interview question before the clip starts, as the plan stepper would. */
+  question?: InterviewQuestion;
+}
+
+const LABELS: GroundTruth[] = ['true', 'false', 'unknown'];
+const CATEGORIES: QuestionCategory[] = ['control', 'relevant', 'irrelevant'];
+
+/**
+ * A manifest is `{ "clips": [...] }` or just the array. Each clip needs `file`
+ * and `label` ("true", "false" or "unknown"); `id`, `question` and
+ * `category` (for the question, default "relevant") are optional.
+ */
+export function parseManifest(text: string): EvalClip[] {
+  const data = JSON.parse(text);
+  const entries: unknown[] | undefined = Array.isArray(data) ? data : data?.clips;
+  if (!Array.isArray(entries)) throw new Error('Manifest must be an array of clips or { "clips": [...] }');
+
+  const clips = entries.map((entry: any, index) => {
+    if (typeof entry?.file !== 'string' || !entry.file.trim()) throw new Error(`Clip ${index + 1}: "file" is missing`);
+    if (!LABELS.includes(entry.label)) throw new Error(`Clip ${index + 1}: "label" must be one of ${LABELS.join(', ')}`);
+    if (entry.category !== undefined && !CATEGORIES.includes(entry.category)) {
+      throw new Error(`Clip ${index + 1}: "category" must be one of ${CATEGORIES.join(', ')}`);
+    }
+
+    const id = typeof entry.id === 'string' && entry.id.trim() ? entry.id.trim() : basename(entry.file, extname(entry.file));
+    const clip: EvalClip = { id, file: entry.file, label: entry.label };
+    if (typeof entry.question === 'string' && entry.question.trim()) {
+      clip.question = { id: 'Q1', text: entry.question.trim(), category: entry.category ?? 'relevant' };
+    }
+    return clip;
+  });
+
+  const seen = new Set<string>();
+  for (const clip of clips) {
+    if (seen.has(clip.id)) throw new Error(`Duplicate clip id: ${clip.id}`);
+    seen.add(clip.id);
+  }
+  return clips;
+}
@@ -0,0 +1,106 @@
+import { spawn } from 'child_process';
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { Resampler } from '../services/audioUtils';
+import { CAPTURE_SAMPLE_RATE } from '../services/audioCapture';
+import { FRAME_DRAW_FPS, THUMB_HEIGHT, THUMB_WIDTH } from '../services/frameSender';
+import { parseWav } from '../services/vocalFeatures';
+
+/** One video frame as the browser would have drawn it. */
+export interface DecodedFrame {
+  /** Base64 JPEG of the whole scene at half scale, as sent when no face is tracked. */
+  jpeg: string;
+  /** Grayscale motion thumbnail, 0–1. */
+  luma: Float32Array;
+}
+
+export interface ClipMedia {
+  /** 16 kHz mono, as the capture worklet hands it on. */
+  samples: Float32Array;
+  /** At FRAME_DRAW_FPS; empty for audio-only clips. */
+  frames: DecodedFrame[];
+}
+
+const JPEG_QUALITY = 5; // ffmpeg -q:v, roughly the browser's 0.8
+
+/** Run a tool to completion and return its stdout. */
+function run(command: string, args: string[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    const out: Buffer[] = [];
+    let err = '';
+    child.stdout.on('data', (chunk: Buffer) => out.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => { err += chunk; });
+    child.on('error', (e: NodeJS.ErrnoException) => {
+      reject(e.code === 'ENOENT' ? new Error(`${command} not found: install ffmpeg, or use WAV clips`) : e);
+    });
+    child.on('close', code => {
+      if (code === 0) resolve(Buffer.concat(out));
+      else reject(new Error(`${command} exited with ${code}: ${err.trim().split('\n').pop()}`));
+    });
+  });
+}
+
+const toFloat32 = (bytes: Buffer) => {
+  // Copy: the Buffer may sit at an offset that isn't 4-byte aligned
+  const copy = new Uint8Array(bytes.byteLength - (bytes.byteLength % 4));
+  copy.set(bytes.subarray(0, copy.byteLength));
+  return new Float32Array(copy.buffer);
+};
+
+/** Split an MJPEG stream into images at each start-of-image marker. */
+function splitJpegs(stream: Buffer): Buffer[] {
+  const images: Buffer[] = [];
+  let start = -1;
+  for (let i = 0; i + 2 < stream.length; i++) {
+    if (stream[i] === 0xff && stream[i + 1] === 0xd8 && stream[i + 2] === 0xff) {
+      if (start !== -1) images.push(stream.subarray(start, i));
+      start = i;
+    }
+  }
+  if (start !== -1) images.push(stream.subarray(start));
+  return images;
+}
+
+async function streamTypes(path: string): Promise<string[]> {
+  const out = await run('ffprobe', ['-v', 'error', '-show_entries', 'stream=codec_type', '-of', 'csv=p=0', path]);
+  return out.toString().split(/\s+/).filter(Boolean);
+}
+
+async function decodeFrames(path: string): Promise<DecodedFrame[]> {
+  const rate = `fps=${FRAME_DRAW_FPS}`;
+  const jpegs = splitJpegs(await run('ffmpeg', [
+    '-v', 'error', '-i', path, '-an',
+    '-vf', `${rate},scale=trunc(iw/4)*2:-2`, '-c:v', 'mjpeg', '-q:v', String(JPEG_QUALITY), '-f', 'image2pipe', '-',
+  ]));
+  const thumbs = await run('ffmpeg', [
+    '-v', 'error', '-i', path, '-an',
+    '-vf', `${rate},scale=${THUMB_WIDTH}:${THUMB_HEIGHT},format=gray`, '-f', 'rawvideo', '-',
+  ]);
+
+  const size = THUMB_WIDTH * THUMB_HEIGHT;
+  const count = Math.min(jpegs.length, Math.floor(thumbs.length / size));
+  return Array.from({ length: count }, (_, i) => ({
+    jpeg: jpegs[i].toString('base64'),
+    luma: Float32Array.from(thumbs.subarray(i * size, (i + 1) * size), value => value / 255),
+  }));
+}
+
+/**
+ * Decode a clip into what capture would have produced from it. WAV files are
+ * read directly; anything else goes through ffmpeg, which must be on PATH.
+ */
+export async function loadClipMedia(path: string): Promise<ClipMedia> {
+  if (extname(path).toLowerCase() === '.wav') {
+    const file = await readFile(path);
+    const wav = parseWav(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength));
+    return { samples: new Resampler(wav.sampleRate, CAPTURE_SAMPLE_RATE).process(wav.samples), frames: [] };
+  }
+
+  const types = await streamTypes(path);
+  const samples = types.includes('audio')
+    ? toFloat32(await run('ffmpeg', ['-v', 'error', '-i', path, '-vn', '-ac', '1', '-ar', String(CAPTURE_SAMPLE_RATE), '-f', 'f32le', '-']))
+    : new Float32Array(0);
+  const frames = types.includes('video') ? await decodeFrames(path) : [];
+  return { samples, frames };
+}
@@ -0,0 +1,134 @@
+import { LiveServerMessage } from '@google/genai';
+import { InterrogatorProfile, Utterance, Verdict } from '../types';
+import { Upstream, UpstreamSession } from '../server/upstream';
+import { CaptureOptions, CAPTURE_SAMPLE_RATE } from '../services/audioCapture';
+import { createPcmBlob } from '../services/audioUtils';
+import { FrameOptions, FrameSender, FRAME_DRAW_FPS, SPEAKING_HOLD_MS } from '../services/frameSender';
+import { describeQuestion } from '../services/interviewPlan';
+import { liveConfig } from '../services/profiles';
+import { SessionRecorder } from '../services/sessionRecorder';
+import { VOICED_RMS, UtteranceSegmenter, analyzeUtterance, describeVocalFeatures, rms } from '../services/vocalFeatures';
+import { ClipMedia } from './media';
+import { EvalClip } from './manifest';
+import { VerdictCollector } from './verdicts';
+
+export interface RunOptions {
+  profile: InterrogatorProfile;
+  capture: CaptureOptions;
+  frames: FrameOptions;
+  /** Playback speed; live models need 1, recorded responses can go faster. */
+  speed: number;
+  /** How long to keep listening after the clip ends, for verdicts on the last statement. */
+  tailMs: number;
+  /** Taps the server messages, to make a recorded stand-in from this run. */
+  recorder?: SessionRecorder;
+}
+
+export interface ClipResult {
+  id: string;
+  file: string;
+  label: EvalClip['label'];
+  /** The clip's highest verdict: the most suspicious statement in it. Null when nothing was judged. */
+  score: number | null;
+  verdicts: Verdict[];
+  utterances: Utterance[];
+  durationSec: number;
+  audioChunks: number;
+  framesSent: number;
+  error?: string;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Stream one clip into a live session the way the browser would: PCM chunks of
+ * `capture.chunkMs`, frames drawn at FRAME_DRAW_FPS and sent when the frame
+ * sender says so, voice summaries after each utterance. Time is the clip's own
+ * (ms from its start), paced against the wall clock at `speed`.
+ */
+export async function runClip(clip: EvalClip, media: ClipMedia, upstream: Upstream, options: RunOptions): Promise<ClipResult> {
+  let session: UpstreamSession | null = null;
+  let lastMessageAt = Date.now();
+  const collector = new VerdictCollector(options.profile, responses => session?.sendToolResponse(responses));
+  const onMessage = (message: LiveServerMessage) => {
+    lastMessageAt = Date.now();
+    options.recorder?.recordMessage(message);
+    collector.handle(message);
+  };
+
+  let closedReason: string | null = null;
+  session = await upstream(options.profile.model, liveConfig(options.profile) as Record<string, unknown>, {
+    onMessage,
+    onClose: reason => { closedReason = reason; },
+  });
+  const sendContext = (text: string) => session!.sendClientContent([{ role: 'user', parts: [{ text }] }], false);
+
+  const chunkSize = Math.round(CAPTURE_SAMPLE_RATE * options.capture.chunkMs / 1000);
+  const chunkCount = Math.floor(media.samples.length / chunkSize);
+  const frameMs = 1000 / FRAME_DRAW_FPS;
+  const segmenter = new UtteranceSegmenter(CAPTURE_SAMPLE_RATE);
+  const sender = new FrameSender(options.frames);
+  let lastVoiceAt = -Infinity;
+  let chunk = 0;
+  let frame = 0;
+  let framesSent = 0;
+
+  try {
+    if (clip.question) sendContext(describeQuestion(clip.question));
+
+    const started = Date.now();
+    while ((chunk < chunkCount || frame < media.frames.length) && closedReason === null) {
+      // A chunk is ready once it has filled; frames are drawn on their tick
+      const chunkAt = chunk < chunkCount ? (chunk + 1) * options.capture.chunkMs : Infinity;
+      const frameAt = frame < media.frames.length ? frame * frameMs : Infinity;
+      const time = Math.min(chunkAt, frameAt);
+      const wait = started + time / options.speed - Date.now();
+      if (wait > 0) await sleep(wait);
+
+      if (chunkAt <= frameAt) {
+        const samples = media.samples.subarray(chunk * chunkSize, (chunk + 1) * chunkSize);
+        chunk++;
+        if (rms(samples) >= VOICED_RMS) lastVoiceAt = time;
+        const utterance = segmenter.push(samples, time);
+        if (utterance) {
+          const features = analyzeUtterance(utterance.samples, CAPTURE_SAMPLE_RATE, utterance.startedAt, collector.transcriptCharacters || undefined);
+          collector.transcriptCharacters = 0;
+          sendContext(describeVocalFeatures(features));
+        }
+        session.sendRealtimeInput(createPcmBlob(samples, CAPTURE_SAMPLE_RATE));
+      } else {
+        const { jpeg, luma } = media.frames[frame];
+        frame++;
+        sender.observeLuma(luma, time);
+        if (sender.shouldSend(time, time - lastVoiceAt < SPEAKING_HOLD_MS)) {
+          // Pre-encoded, so the sender's quality ramp doesn't apply; its budget still does
+          sender.recordSent(time, jpeg.length);
+          session.sendRealtimeInput({ data: jpeg, mimeType: 'image/jpeg' });
+          framesSent++;
+        }
+      }
+    }
+
+    if (closedReason !== null) throw new Error(`session closed early: ${closedReason}`);
+
+    // Let the model finish with the last statement: stop once it has been quiet for a while, or talked for too long
+    const tailMs = options.tailMs / options.speed;
+    const deadline = Date.now() + 3 * tailMs;
+    while (closedReason === null && Date.now() - lastMessageAt < tailMs && Date.now() < deadline) await sleep(100);
+  } finally {
+    session.close();
+  }
+
+  const verdicts = collector.verdicts;
+  return {
+    id: clip.id,
+    file: clip.file,
+    label: clip.label,
+    score: verdicts.length > 0 ? Math.max(...verdicts.map(v => v.probability)) : null,
+    verdicts,
+    utterances: collector.utterances,
+    durationSec: Math.max(media.samples.length / CAPTURE_SAMPLE_RATE, media.frames.length / FRAME_DRAW_FPS),
+    audioChunks: chunk,
+    framesSent,
+  };
+}
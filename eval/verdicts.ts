@@ -0,0 +1,86 @@
+import { FunctionResponse, LiveServerMessage } from '@google/genai';
+import { InterrogatorProfile, Utterance, Verdict } from '../types';
+import { verdictCues } from '../services/cues';
+import { UtteranceTracker } from '../services/utterances';
+import { parseVerdictCall, verdictToolResponse } from '../services/verdictTool';
+import { parseVerdictTag, stripVerdictTag, tagPattern } from '../services/verdictParser';
+
+/**
+ * Reads verdicts out of a session's server messages by App.tsx's rules:
+ * report_verdict calls are answered and taken as they come, each attached to
+ * the statement the current model turn answers; until the first call, the
+ * profile's tag is scraped from the model's transcript instead, one verdict
+ * per model turn that is rewritten as the turn grows.
+ */
+export class VerdictCollector {
+  private tracker = new UtteranceTracker();
+  private collected: Verdict[] = [];
+  private hasToolVerdicts = false;
+  private pattern: RegExp;
+  /** Characters transcribed from the subject since the last voice summary, as the backend counts them. */
+  public transcriptCharacters = 0;
+
+  constructor(profile: InterrogatorProfile, private respond: (responses: FunctionResponse[]) => void) {
+    this.pattern = tagPattern(profile.tagFormat);
+  }
+
+  public handle(message: LiveServerMessage) {
+    const now = Date.now();
+    const heard = message.serverContent?.inputTranscription?.text;
+    if (heard) {
+      this.transcriptCharacters += heard.replace(/\s/g, '').length;
+      this.tracker.add(heard, 'subject', now);
+    }
+
+    const said = message.serverContent?.outputTranscription?.text;
+    if (said) {
+      const { utterance } = this.tracker.add(said, 'model', now);
+      if (!this.hasToolVerdicts) this.scrapeTag(utterance);
+    }
+
+    const calls = message.toolCall?.functionCalls ?? [];
+    const responses = calls.map(call => {
+      const verdict = parseVerdictCall(call);
+      if (verdict) {
+        this.hasToolVerdicts = true;
+        this.apply(verdict);
+      }
+      return verdictToolResponse(call, verdict);
+    });
+    if (responses.length > 0) this.respond(responses);
+
+    if (message.serverContent?.turnComplete || message.serverContent?.interrupted) this.tracker.completeTurn();
+  }
+
+  public get verdicts(): Verdict[] {
+    return [...this.collected];
+  }
+
+  public get utterances(): Utterance[] {
+    return this.tracker.all;
+  }
+
+  private scrapeTag(reply: Utterance) {
+    const probability = parseVerdictTag(reply.text, this.pattern);
+    if (probability === null) return;
+    const judged = this.tracker.judged();
+    this.apply({
+      id: `tag-${reply.id}`,
+      probability,
+      cues: [],
+      rationale: stripVerdictTag(reply.text, this.pattern),
+      utterance: judged?.text ?? '',
+      source: 'tag',
+      receivedAt: Date.now(),
+      utteranceId: judged?.id,
+    });
+  }
+
+  private apply(incoming: Verdict) {
+    const judged = this.tracker.judged();
+    const verdict = { ...incoming, cueIds: verdictCues(incoming), utteranceId: incoming.utteranceId ?? judged?.id };
+    const index = this.collected.findIndex(v => v.id === verdict.id);
+    if (index === -1) this.collected.push(verdict);
+    else this.collected[index] = verdict;
+  }
+}
@@ -0,0 +1,41 @@
+import { createRelay, parseRelayClients } from './relay';
+import { fakeUpstream, geminiUpstream } from './upstream';
+import { RELAY_PATH } from '../services/relayProtocol';
+
+// Same env file as the Vite app, so one .env.local configures both
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No file: rely on the real environment
+}
+
+const env = process.env;
+const port = Number(env.RELAY_PORT) || 8787;
+const clients = parseRelayClients(env.RELAY_TOKENS ?? '');
+const useFake = env.RELAY_UPSTREAM === 'fake';
+
+if (clients.length === 0) {
+  console.error('RELAY_TOKENS is empty: set it to comma-separated name:token pairs');
+  process.exit(1);
+}
+if (!useFake && !env.GEMINI_API_KEY) {
+  console.error('GEMINI_API_KEY is not set (or use RELAY_UPSTREAM=fake)');
+  process.exit(1);
+}
+
+const relay = createRelay({
+  upstream: useFake ? fakeUpstream() : geminiUpstream(env.GEMINI_API_KEY!),
+  clients,
+  maxSessionsPerClient: Number(env.RELAY_MAX_SESSIONS_PER_CLIENT) || 1,
+  maxSessions: Number(env.RELAY_MAX_SESSIONS) || 10,
+  maxSessionMs: (Number(env.RELAY_MAX_SESSION_MINUTES) || 30) * 60 * 1000,
+  allowedModels: (env.RELAY_MODELS ?? '').split(',').map(m => m.trim()).filter(Boolean),
+});
+
+relay.server.listen(port, () => {
+  console.log(`[relay] ws://localhost:${port}${RELAY_PATH} · ${clients.length} client(s) · upstream ${useFake ? 'fake' : 'gemini'}`);
+});
+
+const shutdown = () => relay.close().then(() => process.exit(0));
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,174 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { createServer, Server } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { Upstream, UpstreamSession } from './upstream';
+import { RELAY_CLOSE, RELAY_PATH, RelayClientMessage, RelayServerMessage, parseRelayMessage } from '../services/relayProtocol';
+
+export interface RelayClient {
+  /** Shown in the relay's log; never the token itself. */
+  name: string;
+  token: string;
+}
+
+export interface RelayOptions {
+  upstream: Upstream;
+  clients: RelayClient[];
+  /** Concurrent sessions allowed per client token. */
+  maxSessionsPerClient: number;
+  /** Concurrent sessions across all clients. */
+  maxSessions: number;
+  /** Hard cap on one session's length. */
+  maxSessionMs: number;
+  /** Models a client may ask for; empty allows any. */
+  allowedModels: string[];
+}
+
+/** How long a client has to send its `connect` message after the socket opens. */
+const SETUP_TIMEOUT_MS = 10000;
+
+// Digests are equal-length, as timingSafeEqual needs, whatever the tokens' lengths
+const digest = (token: string) => createHash('sha256').update(token).digest();
+
+/** The client a token belongs to, compared in constant time so response timing doesn't leak it. */
+const findClient = (clients: RelayClient[], token: unknown): RelayClient | undefined => {
+  if (typeof token !== 'string') return undefined;
+  const presented = digest(token);
+  return clients.find(c => timingSafeEqual(digest(c.token), presented));
+};
+
+const send = (ws: WebSocket, message: RelayServerMessage) => {
+  if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+};
+
+/**
+ * WebSocket relay between browsers and the Gemini Live API. The API key stays
+ * in this process; browsers authenticate with a per-client token in their
+ * first (`connect`) message and get the upstream's messages passed through.
+ */
+export function createRelay(options: RelayOptions): { server: Server; close: () => Promise<void> } {
+  const server = createServer((_req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('WebSocket only\n');
+  });
+  const wss = new WebSocketServer({ server, path: RELAY_PATH });
+  const active = new Map<string, number>();
+  let total = 0;
+
+  wss.on('connection', ws => {
+    // Known once the `connect` message authenticates; only then does the socket count as a session
+    let client: RelayClient | null = null;
+    let session: UpstreamSession | null = null;
+    // Set from the first `connect` on; any later one would open an upstream nobody tracks or closes
+    let connecting = false;
+    let closed = false;
+    const setupTimer = setTimeout(() => ws.close(RELAY_CLOSE.badRequest, 'no connect message'), SETUP_TIMEOUT_MS);
+    const limitTimer = setTimeout(() => ws.close(RELAY_CLOSE.timeLimit, 'session time limit reached'), options.maxSessionMs);
+
+    const authorize = (token: unknown): RelayClient | null => {
+      const found = findClient(options.clients, token);
+      if (!found) {
+        ws.close(RELAY_CLOSE.unauthorized, 'unknown token');
+        return null;
+      }
+      if (total >= options.maxSessions || (active.get(found.token) ?? 0) >= options.maxSessionsPerClient) {
+        ws.close(RELAY_CLOSE.sessionLimit, 'too many sessions');
+        return null;
+      }
+      total++;
+      active.set(found.token, (active.get(found.token) ?? 0) + 1);
+      console.log(`[relay] ${found.name}: session opened (${total} active)`);
+      return found;
+    };
+
+    const openUpstream = async (client: RelayClient, model: string, config: Record<string, unknown>) => {
+      if (options.allowedModels.length > 0 && !options.allowedModels.includes(model)) {
+        ws.close(RELAY_CLOSE.badRequest, 'model not allowed');
+        return;
+      }
+      try {
+        const opened = await options.upstream(model, config, {
+          onMessage: message => send(ws, { type: 'message', message }),
+          onClose: reason => ws.close(RELAY_CLOSE.upstreamClosed, reason.slice(0, 120)),
+        });
+        // The client may have gone away while the upstream was connecting
+        if (closed) {
+          opened.close();
+          return;
+        }
+        session = opened;
+        send(ws, { type: 'open' });
+      } catch (e) {
+        console.error(`[relay] ${client.name}: upstream connect failed`, e);
+        send(ws, { type: 'error', error: 'upstream connect failed' });
+        ws.close(RELAY_CLOSE.upstreamClosed, 'upstream connect failed');
+      }
+    };
+
+    ws.on('message', data => {
+      const message = parseRelayMessage<RelayClientMessage>(data.toString());
+      if (!message) {
+        ws.close(RELAY_CLOSE.badRequest, 'malformed message');
+        return;
+      }
+
+      if (message.type === 'connect') {
+        if (connecting || session) return;
+        connecting = true;
+        clearTimeout(setupTimer);
+        client = authorize(message.token);
+        if (client) openUpstream(client, message.model, message.config);
+        return;
+      }
+
+      // Input before the upstream is open has nowhere to go
+      if (!session) return;
+      switch (message.type) {
+        case 'realtimeInput':
+          session.sendRealtimeInput(message.media);
+          break;
+        case 'activity':
+          session.sendActivity(message.signal);
+          break;
+        case 'toolResponse':
+          session.sendToolResponse(message.functionResponses);
+          break;
+        case 'clientContent':
+          session.sendClientContent(message.turns, message.turnComplete);
+          break;
+      }
+    });
+
+    ws.on('close', () => {
+      closed = true;
+      clearTimeout(setupTimer);
+      clearTimeout(limitTimer);
+      session?.close();
+      session = null;
+      if (!client) return;
+      total--;
+      active.set(client.token, (active.get(client.token) ?? 1) - 1);
+      console.log(`[relay] ${client.name}: session closed (${total} active)`);
+    });
+  });
+
+  const close = () => new Promise<void>(resolve => {
+    wss.clients.forEach(ws => ws.terminate());
+    wss.close(() => server.close(() => resolve()));
+  });
+
+  return { server, close };
+}
+
+/** `name:token` pairs separated by commas; a bare token is named after its position. */
+export function parseRelayClients(value: string): RelayClient[] {
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      const separator = entry.indexOf(':');
+      return separator > 0
+        ? { name: entry.slice(0, separator), token: entry.slice(separator + 1) }
+        : { name: `client${index + 1}`, token: entry };
+    });
+}
@@ -0,0 +1,88 @@
+import { FunctionResponse, GoogleGenAI, LiveConnectConfig, LiveServerMessage } from '@google/genai';
+import { DEFAULT_MOCK_SCRIPT, ScriptedEvent, scriptedMessage } from '../services/mockScript';
+import type { PcmBlob } from '../services/audioUtils';
+import type { RelayClientMessage } from '../services/relayProtocol';
+import type { ActivitySignal } from '../services/turnMode';
+
+type ClientContent = Extract<RelayClientMessage, { type: 'clientContent' }>;
+
+export interface UpstreamCallbacks {
+  onMessage(message: LiveServerMessage): void;
+  onClose(reason: string): void;
+}
+
+/** One open live session on the far side of the relay. */
+export interface UpstreamSession {
+  sendRealtimeInput(media: PcmBlob): void;
+  sendActivity(signal: ActivitySignal): void;
+  sendToolResponse(functionResponses: FunctionResponse[]): void;
+  sendClientContent(turns: ClientContent['turns'], turnComplete: boolean): void;
+  close(): void;
+}
+
+export type Upstream = (model: string, config: Record<string, unknown>, callbacks: UpstreamCallbacks) => Promise<UpstreamSession>;
+
+/** The real thing: a Gemini Live session opened with the relay's own key. */
+export function geminiUpstream(apiKey: string): Upstream {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return async (model, config, callbacks) => {
+    const session = await ai.live.connect({
+      model,
+      config: config as LiveConnectConfig,
+      callbacks: {
+        onmessage: callbacks.onMessage,
+        onerror: (e: ErrorEvent) => callbacks.onClose(`upstream error: ${e.message}`),
+        onclose: (e: CloseEvent) => callbacks.onClose(e.reason || 'upstream closed'),
+      },
+    });
+
+    return {
+      sendRealtimeInput: media => session.sendRealtimeInput({ media }),
+      sendActivity: signal => session.sendRealtimeInput(signal === 'start' ? { activityStart: {} } : { activityEnd: {} }),
+      sendToolResponse: functionResponses => session.sendToolResponse({ functionResponses }),
+      sendClientContent: (turns, turnComplete) => session.sendClientContent({ turns, turnComplete }),
+      close: () => session.close(),
+    };
+  };
+}
+
+/**
+ * Offline stand-in for Gemini: plays a scripted list of server messages (the
+ * mock backend's script by default) and hands whatever the client sends to
+ * `onInput`, so the relay can be exercised end to end without a key.
+ */
+export function fakeUpstream(
+  script: ScriptedEvent[] = DEFAULT_MOCK_SCRIPT,
+  loop = true,
+  onInput?: (message: RelayClientMessage) => void
+): Upstream {
+  return async (_model, _config, callbacks) => {
+    let cursor = 0;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const scheduleNext = () => {
+      if (cursor >= script.length) {
+        if (!loop || script.length === 0) return;
+        cursor = 0;
+      }
+      const event = script[cursor++];
+      timer = setTimeout(() => {
+        callbacks.onMessage(scriptedMessage(event));
+        if (timer !== null) scheduleNext();
+      }, event.delayMs);
+    };
+    scheduleNext();
+
+    return {
+      sendRealtimeInput: media => onInput?.({ type: 'realtimeInput', media }),
+      sendActivity: signal => onInput?.({ type: 'activity', signal }),
+      sendToolResponse: functionResponses => onInput?.({ type: 'toolResponse', functionResponses }),
+      sendClientContent: (turns, turnComplete) => onInput?.({ type: 'clientContent', turns, turnComplete }),
+      close: () => {
+        if (timer !== null) clearTimeout(timer);
+        timer = null;
+      },
+    };
+  };
+}
@@ -0,0 +1,593 @@
+import { FunctionResponse, LiveServerMessage } from '@google/genai';
+import { createPcmBlob, decodeAudioData, base64ToUint8Array, PcmBlob } from './audioUtils';
+import { AudioCapture, CaptureOptions, CAPTURE_SAMPLE_RATE, DEFAULT_CAPTURE_OPTIONS } from './audioCapture';
+import { SessionRecorder } from './sessionRecorder';
+import { parseVerdictCall, verdictToolResponse } from './verdictTool';
+import { describeQuestion } from './interviewPlan';
+import { VOICED_RMS, rms, estimatePitch, analyzeUtterance, describeVocalFeatures, UtteranceSegmenter } from './vocalFeatures';
+import { DEFAULT_PROFILE } from './profiles';
+import { FaceTracker } from './faceTracker';
+import { FrameSender, FrameOptions, VideoStats, DEFAULT_FRAME_OPTIONS, FRAME_DRAW_FPS, SPEAKING_HOLD_MS } from './frameSender';
+import { DEFAULT_REDACTION, blurOutside, maskKeywords } from './redaction';
+import { ActivitySignal, TurnMode } from './turnMode';
+import { DEFAULT_OUTPUT, OUTPUT_SAMPLE_RATE, OutputSettings, setContextSink } from './audioOutput';
+import { AudioFrameFeatures, FaceBox, RedactionSettings, InterrogatorProfile, InterviewQuestion, Verdict, VocalFeatures } from '../types';
+
+export type LogCallback = (text: string, isModel: boolean, isTurnComplete?: boolean) => void;
+export type VerdictCallback = (verdict: Verdict) => void;
+export type FrameCallback = (ctx: CanvasRenderingContext2D, time: number) => void;
+export type FaceCallback = (face: FaceBox | null) => void;
+
+/** Longest side of a face crop sent to the model; crops come from the full-resolution video. */
+const FACE_FRAME_SIZE = 512;
+/** Crop side relative to the face box, so the model also sees hair line, neck and shoulders. */
+const FACE_CROP_MARGIN = 1.8;
+
+/** Link state changes short of a final disconnect. */
+export type ConnectionEvent =
+  | { kind: 'reconnecting'; attempt: number; maxAttempts: number; delayMs: number }
+  /** `resumed` is true when the server kept the model's context, false when it was rebuilt from the transcript. */
+  | { kind: 'restored'; resumed: boolean };
+
+/**
+ * Anything that can watch a subject and report back: the real Gemini Live
+ * session, or a local stand-in that never touches the network.
+ */
+export interface AnalysisBackend {
+  readonly name: string;
+  connect(stream: MediaStream, videoElement: HTMLVideoElement, canvasElement: HTMLCanvasElement): Promise<void>;
+  disconnect(): Promise<void>;
+  /**
+   * Capture from a different camera/mic stream from now on, keeping the
+   * model session as it is. The caller points the video element at it.
+   */
+  replaceStream(stream: MediaStream): Promise<void>;
+  setOnLog(callback: LogCallback): void;
+  /** Called when the model ends its turn, normally or because the subject interrupted it. */
+  setOnTurnComplete(callback: () => void): void;
+  /** Called once the session is over for good, after any reconnection attempts. */
+  setOnDisconnect(callback: () => void): void;
+  setOnConnection(callback: (event: ConnectionEvent) => void): void;
+  setOnVolume(callback: (volume: number) => void): void;
+  setOnAudioOut(callback: (base64Pcm: string) => void): void;
+  setOnVerdict(callback: VerdictCallback): void;
+  setOnAudioFeatures(callback: (features: AudioFrameFeatures) => void): void;
+  /** Called once per subject utterance with locally measured voice features. */
+  setOnVocalFeatures(callback: (features: VocalFeatures) => void): void;
+  /** Called for every frame drawn to the capture canvas (~15 fps), with a performance.now() timestamp. */
+  setOnFrame(callback: FrameCallback): void;
+  /** Called about once a second with the video frames actually sent. */
+  setOnVideoStats(callback: (stats: VideoStats) => void): void;
+  /** Called after each face detection pass with the tracked face, or null once it has been gone for a moment. */
+  setOnFace(callback: FaceCallback): void;
+  /** Tap outgoing media and incoming messages for the next session; null to stop. */
+  setRecorder(recorder: SessionRecorder | null): void;
+  /** Prompt, voice and model for the next session. */
+  setProfile(profile: InterrogatorProfile): void;
+  /** Mic chunking for the next session. */
+  setCaptureOptions(options: Partial<CaptureOptions>): void;
+  /** Video bandwidth budget for the next session. */
+  setFrameOptions(options: Partial<FrameOptions>): void;
+  /** Background blurring and keyword masking for the next session. */
+  setRedaction(redaction: RedactionSettings): void;
+  /** Called with true when data starts leaving the device and false a moment after it stops. */
+  setOnTransmit(callback: (transmitting: boolean) => void): void;
+  /** Tell the model which interview-plan question the subject is now answering. */
+  setActiveQuestion(question: InterviewQuestion | null): void;
+  /** How the subject's turns are delimited, for the next session. */
+  setTurnMode(mode: TurnMode): void;
+  /** Push-to-talk: the talk key went down or up. Ignored in the other modes. */
+  setTalking(talking: boolean): void;
+  /** Manual turns: hand the subject's speech so far to the model to judge, and start the next turn. False when nothing was sent. */
+  analyzeNow(): boolean;
+  /** Volume, mute and speaker apply at once; spoken or written replies from the next session. */
+  setOutput(settings: OutputSettings): void;
+}
+
+/**
+ * Shared plumbing for backends that speak in `LiveServerMessage`s: local
+ * capture of mic/camera, playback of model audio and message dispatch.
+ * Subclasses decide where the captured media goes and where messages come from.
+ */
+export abstract class LiveMessageBackend implements AnalysisBackend {
+  public abstract readonly name: string;
+
+  protected inputAudioContext: AudioContext | null = null;
+  protected outputAudioContext: AudioContext | null = null;
+  private capture: AudioCapture | null = null;
+  private captureOptions: CaptureOptions = DEFAULT_CAPTURE_OPTIONS;
+  private frameOptions: FrameOptions = DEFAULT_FRAME_OPTIONS;
+  // performance.now() of the last voiced mic chunk, so frames can follow speech
+  private lastVoiceAt = -Infinity;
+  protected profile: InterrogatorProfile = DEFAULT_PROFILE;
+  private nextStartTime = 0;
+  private sources = new Set<AudioBufferSourceNode>();
+  protected output: OutputSettings = DEFAULT_OUTPUT;
+  // Every reply chunk plays through this one node, so volume and mute reach audio already queued
+  private outputGain: GainNode | null = null;
+  private outputSinkId = '';
+  protected onLogCallback: LogCallback | null = null;
+  protected onTurnCompleteCallback: (() => void) | null = null;
+  protected onDisconnectCallback: (() => void) | null = null;
+  protected onConnectionCallback: ((event: ConnectionEvent) => void) | null = null;
+  protected onVolumeCallback: ((volume: number) => void) | null = null;
+  protected onAudioOutCallback: ((base64Pcm: string) => void) | null = null;
+  protected onVerdictCallback: VerdictCallback | null = null;
+  protected onAudioFeaturesCallback: ((features: AudioFrameFeatures) => void) | null = null;
+  protected onVocalFeaturesCallback: ((features: VocalFeatures) => void) | null = null;
+  protected onFrameCallback: FrameCallback | null = null;
+  protected onFaceCallback: FaceCallback | null = null;
+  protected onVideoStatsCallback: ((stats: VideoStats) => void) | null = null;
+  protected onTransmitCallback: ((transmitting: boolean) => void) | null = null;
+  protected redaction: RedactionSettings = DEFAULT_REDACTION;
+  /** False for local stand-ins, whose "sending" never leaves the device. */
+  protected readonly sendsRemotely: boolean = true;
+  private transmitTimer: number | null = null;
+  private segmenter: UtteranceSegmenter | null = null;
+  private transcriptCharacters = 0;
+  private recorder: SessionRecorder | null = null;
+  protected turnMode: TurnMode = 'continuous';
+  /** Between an activity start and its end, in the manual turn modes. */
+  protected activityOpen = false;
+  // From the model's first output in a turn until that turn completes or is interrupted
+  private modelResponding = false;
+  private deferredContext: string[] = [];
+
+  // Video streaming
+  private videoInterval: number | null = null;
+  private faceTracker: FaceTracker | null = null;
+
+  public abstract connect(stream: MediaStream, videoElement: HTMLVideoElement, canvasElement: HTMLCanvasElement): Promise<void>;
+
+  /** Forward one captured media chunk (PCM audio or a JPEG frame) to wherever the analysis happens. */
+  protected abstract sendRealtimeInput(media: PcmBlob): void;
+
+  /** Answer the model's function calls so it can carry on with its turn. */
+  protected abstract sendToolResponse(responses: FunctionResponse[]): void;
+
+  /**
+   * Add operator-side text to the model's context without asking it to reply.
+   * Client content interrupts whatever the model is generating, so anything
+   * that may arrive mid-reply goes through `addContext` instead.
+   */
+  protected abstract sendContext(text: string): void;
+
+  /** Mark the start or end of the subject's turn; only sent when voice detection is off. */
+  protected abstract sendActivity(signal: ActivitySignal): void;
+
+  public setOnLog(callback: LogCallback) {
+    this.onLogCallback = callback;
+  }
+
+  public setOnTurnComplete(callback: () => void) {
+    this.onTurnCompleteCallback = callback;
+  }
+
+  public setOnDisconnect(callback: () => void) {
+    this.onDisconnectCallback = callback;
+  }
+
+  public setOnConnection(callback: (event: ConnectionEvent) => void) {
+    this.onConnectionCallback = callback;
+  }
+
+  public setOnVolume(callback: (volume: number) => void) {
+    this.onVolumeCallback = callback;
+  }
+
+  public setOnAudioOut(callback: (base64Pcm: string) => void) {
+    this.onAudioOutCallback = callback;
+  }
+
+  public setOnVerdict(callback: VerdictCallback) {
+    this.onVerdictCallback = callback;
+  }
+
+  public setOnAudioFeatures(callback: (features: AudioFrameFeatures) => void) {
+    this.onAudioFeaturesCallback = callback;
+  }
+
+  public setOnVocalFeatures(callback: (features: VocalFeatures) => void) {
+    this.onVocalFeaturesCallback = callback;
+  }
+
+  public setOnFrame(callback: FrameCallback) {
+    this.onFrameCallback = callback;
+  }
+
+  public setOnVideoStats(callback: (stats: VideoStats) => void) {
+    this.onVideoStatsCallback = callback;
+  }
+
+  public setOnTransmit(callback: (transmitting: boolean) => void) {
+    this.onTransmitCallback = callback;
+  }
+
+  public setOnFace(callback: FaceCallback) {
+    this.onFaceCallback = callback;
+  }
+
+  public setRecorder(recorder: SessionRecorder | null) {
+    this.recorder = recorder;
+  }
+
+  public setProfile(profile: InterrogatorProfile) {
+    this.profile = profile;
+  }
+
+  public setCaptureOptions(options: Partial<CaptureOptions>) {
+    this.captureOptions = { ...this.captureOptions, ...options };
+  }
+
+  public setFrameOptions(options: Partial<FrameOptions>) {
+    this.frameOptions = { ...this.frameOptions, ...options };
+  }
+
+  public setRedaction(redaction: RedactionSettings) {
+    this.redaction = redaction;
+  }
+
+  public setActiveQuestion(question: InterviewQuestion | null) {
+    if (question) this.addContext(describeQuestion(question));
+  }
+
+  public setOutput(settings: OutputSettings) {
+    this.output = settings;
+    this.applyOutput();
+  }
+
+  private applyOutput() {
+    if (this.outputGain) this.outputGain.gain.value = this.output.muted ? 0 : this.output.volume;
+    const ctx = this.outputAudioContext;
+    if (!ctx || this.output.sinkId === this.outputSinkId) return;
+    const sinkId = this.output.sinkId;
+    this.outputSinkId = sinkId;
+    setContextSink(ctx, sinkId).catch(e => console.warn("Failed to switch audio output:", e));
+  }
+
+  public setTurnMode(mode: TurnMode) {
+    this.turnMode = mode;
+  }
+
+  public setTalking(talking: boolean) {
+    if (this.turnMode !== 'push-to-talk' || !this.capture || talking === this.activityOpen) return;
+    if (!talking) {
+      // Letting go ends the statement even without a pause, so it is measured with its turn
+      const utterance = this.segmenter?.flush();
+      if (utterance) this.handleUtterance(utterance.samples, CAPTURE_SAMPLE_RATE, utterance.startedAt);
+    }
+    this.signalActivity(talking ? 'start' : 'end');
+  }
+
+  public analyzeNow() {
+    if (this.turnMode !== 'manual' || !this.activityOpen) return false;
+    this.signalActivity('end');
+    this.signalActivity('start');
+    return true;
+  }
+
+  private signalActivity(signal: ActivitySignal) {
+    this.activityOpen = signal === 'start';
+    this.sendActivity(signal);
+  }
+
+  private dispatchInput(media: PcmBlob) {
+    this.recorder?.recordInput(media);
+    this.markTransmitting();
+    this.sendRealtimeInput(media);
+  }
+
+  /**
+   * Note that something just left the device: media here, and operator text,
+   * tool responses and turn signals in the backends that send them. Audio
+   * chunks go out several times a second, so the indicator only drops after
+   * a full second without any.
+   */
+  protected markTransmitting() {
+    if (!this.sendsRemotely) return;
+    if (this.transmitTimer === null) this.onTransmitCallback?.(true);
+    else clearTimeout(this.transmitTimer);
+    this.transmitTimer = window.setTimeout(() => {
+      this.transmitTimer = null;
+      this.onTransmitCallback?.(false);
+    }, 1000);
+  }
+
+  /** Outgoing operator text with the configured keywords masked. */
+  protected redactText(text: string) {
+    return maskKeywords(text, this.redaction.keywords);
+  }
+
+  protected async openAudioContexts() {
+    // Input runs at the device's native rate; capture resamples to 16 kHz itself
+    this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    this.outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
+    this.outputGain = this.outputAudioContext.createGain();
+    this.outputGain.connect(this.outputAudioContext.destination);
+    this.applyOutput();
+
+    // Ensure contexts are running (browser requires user gesture, which we have via the Start button)
+    if (this.inputAudioContext.state === 'suspended') await this.inputAudioContext.resume();
+    if (this.outputAudioContext.state === 'suspended') await this.outputAudioContext.resume();
+  }
+
+  protected async startAudioStream(stream: MediaStream) {
+    if (!this.inputAudioContext) return;
+
+    this.segmenter = new UtteranceSegmenter(CAPTURE_SAMPLE_RATE);
+    this.transcriptCharacters = 0;
+    this.capture = new AudioCapture(samples => this.handleAudioChunk(samples), this.captureOptions);
+    await this.capture.start(this.inputAudioContext, stream);
+    // Manual turns run back to back: the first opens with the session, each ANALYZE NOW closes one and opens the next
+    this.activityOpen = false;
+    if (this.turnMode === 'manual') this.signalActivity('start');
+  }
+
+  public async replaceStream(stream: MediaStream) {
+    if (!this.inputAudioContext || !this.capture) return;
+
+    // Start the new capture before dropping the old one so the model never sees a gap
+    const next = new AudioCapture(samples => this.handleAudioChunk(samples), this.captureOptions);
+    await next.start(this.inputAudioContext, stream);
+    if (!this.capture) {
+      // Released while the worklet was starting
+      next.stop();
+      return;
+    }
+    this.capture.stop();
+    this.capture = next;
+  }
+
+  /** One 16 kHz mono chunk from the mic. */
+  private handleAudioChunk(samples: Float32Array) {
+    // Calculate Volume for UI
+    const level = rms(samples);
+    this.onVolumeCallback?.(level * 100); // Scale roughly 0-100
+    if (level >= VOICED_RMS) this.lastVoiceAt = performance.now();
+
+    this.onAudioFeaturesCallback?.({
+      time: Date.now(),
+      durationSec: samples.length / CAPTURE_SAMPLE_RATE,
+      rms: level,
+      pitchHz: estimatePitch(samples, CAPTURE_SAMPLE_RATE),
+    });
+
+    // Push-to-talk: the meters keep working, but speech that was not held is neither sent nor measured
+    if (this.turnMode === 'push-to-talk' && !this.activityOpen) return;
+
+    const utterance = this.segmenter?.push(samples);
+    if (utterance) this.handleUtterance(utterance.samples, CAPTURE_SAMPLE_RATE, utterance.startedAt);
+    this.dispatchInput(createPcmBlob(samples, CAPTURE_SAMPLE_RATE));
+  }
+
+  private handleUtterance(samples: Float32Array, sampleRate: number, startedAt: number) {
+    // Transcription trails the audio, so this counts what has arrived since the last utterance
+    const features = analyzeUtterance(samples, sampleRate, startedAt, this.transcriptCharacters || undefined);
+    this.transcriptCharacters = 0;
+    this.onVocalFeaturesCallback?.(features);
+    this.addContext(describeVocalFeatures(features));
+  }
+
+  /** Send context now if the model is quiet, otherwise once its current turn is over. */
+  protected addContext(text: string) {
+    if (this.modelResponding) this.deferredContext.push(text);
+    else this.sendContext(text);
+  }
+
+  /** The model's turn is over (or was lost with the connection): context held back during it can go. */
+  protected endModelTurn() {
+    this.modelResponding = false;
+    const deferred = this.deferredContext;
+    this.deferredContext = [];
+    deferred.forEach(text => this.sendContext(text));
+  }
+
+  protected startVideoStream(videoEl: HTMLVideoElement, canvasEl: HTMLCanvasElement) {
+    const ctx = canvasEl.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return;
+    let lastStats = 0;
+    const frameCanvas = document.createElement('canvas');
+    const tracker = new FaceTracker(face => this.onFaceCallback?.(face));
+    const sender = new FrameSender(this.frameOptions);
+    this.faceTracker = tracker;
+
+    // Draw at ~15 fps for local analysis; the sender picks which frames are worth the bandwidth
+    this.videoInterval = window.setInterval(() => {
+        if (!videoEl.videoWidth || !videoEl.videoHeight) return;
+
+        const width = videoEl.videoWidth / 2; // Downscale slightly for perf
+        const height = videoEl.videoHeight / 2;
+        if (canvasEl.width !== width || canvasEl.height !== height) {
+          canvasEl.width = width;
+          canvasEl.height = height;
+        }
+        ctx.drawImage(videoEl, 0, 0, width, height);
+
+        const now = performance.now();
+        tracker.track(ctx, now);
+        this.onFrameCallback?.(ctx, now);
+        sender.observe(canvasEl, now);
+
+        if (now - lastStats >= 1000) {
+          lastStats = now;
+          this.onVideoStatsCallback?.(sender.stats(now));
+        }
+
+        if (!sender.shouldSend(now, now - this.lastVoiceAt < SPEAKING_HOLD_MS)) return;
+        const frame = this.encodeFrame(videoEl, tracker.face, frameCanvas, sender.quality());
+        if (!frame) return;
+        const base64Data = frame.split(',')[1];
+        sender.recordSent(now, base64Data.length);
+        this.dispatchInput({ data: base64Data, mimeType: 'image/jpeg' });
+    }, 1000 / FRAME_DRAW_FPS);
+  }
+
+  /**
+   * The JPEG data URL to send: a close-up cut around the face from the
+   * full-resolution video when there is one, otherwise the whole scene at half
+   * scale. Redaction is applied here, so nothing unblurred is ever encoded.
+   */
+  private encodeFrame(videoEl: HTMLVideoElement, face: FaceBox | null, frameCanvas: HTMLCanvasElement, quality: number): string | null {
+    const { videoWidth, videoHeight } = videoEl;
+    let sx = 0, sy = 0, sw = videoWidth, sh = videoHeight;
+    let scale = 0.5;
+    if (face) {
+      const side = Math.max(face.width * videoWidth, face.height * videoHeight) * FACE_CROP_MARGIN;
+      sw = Math.min(videoWidth, side);
+      sh = Math.min(videoHeight, side);
+      sx = Math.max(0, Math.min(videoWidth - sw, (face.x + face.width / 2) * videoWidth - sw / 2));
+      sy = Math.max(0, Math.min(videoHeight - sh, (face.y + face.height / 2) * videoHeight - sh / 2));
+      // Never upscale: a small face is sent at its native pixels
+      scale = Math.min(1, FACE_FRAME_SIZE / Math.max(sw, sh));
+    }
+    const width = Math.round(sw * scale);
+    const height = Math.round(sh * scale);
+    const frameCtx = frameCanvas.getContext('2d', { willReadFrequently: true });
+    if (!frameCtx || width < 1 || height < 1) return null;
+
+    if (frameCanvas.width !== width || frameCanvas.height !== height) {
+      frameCanvas.width = width;
+      frameCanvas.height = height;
+    }
+    frameCtx.drawImage(videoEl, sx, sy, sw, sh, 0, 0, width, height);
+
+    if (this.redaction.blurBackground) {
+      const keep = face && {
+        x: Math.round((face.x * videoWidth - sx) * scale),
+        y: Math.round((face.y * videoHeight - sy) * scale),
+        width: Math.round(face.width * videoWidth * scale),
+        height: Math.round(face.height * videoHeight * scale),
+      };
+      blurOutside(frameCtx, keep);
+    }
+    return frameCanvas.toDataURL('image/jpeg', quality);
+  }
+
+  protected async handleServerMessage(message: LiveServerMessage) {
+    this.recorder?.recordMessage(message);
+    const isTurnComplete = message.serverContent?.turnComplete || false;
+    if (message.serverContent?.modelTurn || message.serverContent?.outputTranscription || message.toolCall) this.modelResponding = true;
+
+    // 1. Handle User Input Transcription (So user knows they are heard)
+    if (message.serverContent?.inputTranscription?.text) {
+        this.transcriptCharacters += message.serverContent.inputTranscription.text.replace(/\s/g, '').length;
+        this.onLogCallback?.(message.serverContent.inputTranscription.text, false, isTurnComplete);
+    }
+
+    // 2. Handle Model Output Transcription (Analysis)
+    if (message.serverContent?.outputTranscription?.text && this.onLogCallback) {
+        this.onLogCallback(message.serverContent.outputTranscription.text, true, isTurnComplete);
+    }
+
+    // Text-only sessions write their analysis instead of transcribing it
+    if (this.output.mode === 'text') {
+      const written = (message.serverContent?.modelTurn?.parts ?? []).filter(part => part.text && !part.thought).map(part => part.text).join('');
+      if (written) this.onLogCallback?.(written, true, isTurnComplete);
+    }
+
+    // 3. Handle Structured Verdicts (report_verdict calls)
+    if (message.toolCall?.functionCalls) {
+      this.handleToolCall(message.toolCall.functionCalls);
+    }
+
+    // 4. Handle Audio Output
+    const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+
+    if (base64Audio) {
+      this.onAudioOutCallback?.(base64Audio);
+      await this.playAudio(base64Audio);
+    }
+
+    // Handle Interruption
+    if (message.serverContent?.interrupted) {
+      this.sources.forEach(source => source.stop());
+      this.sources.clear();
+      this.nextStartTime = 0;
+    }
+
+    if (isTurnComplete || message.serverContent?.interrupted) {
+      this.endModelTurn();
+      this.onTurnCompleteCallback?.();
+    }
+  }
+
+  private handleToolCall(calls: NonNullable<LiveServerMessage['toolCall']>['functionCalls'] = []) {
+    const responses: FunctionResponse[] = [];
+
+    for (const call of calls) {
+      const verdict = parseVerdictCall(call);
+      if (verdict) this.onVerdictCallback?.(verdict);
+
+      responses.push(verdictToolResponse(call, verdict));
+    }
+
+    if (responses.length > 0) this.sendToolResponse(responses);
+  }
+
+  /** How long the reply audio already queued will keep playing. */
+  protected playbackRemainingMs() {
+    if (!this.outputAudioContext) return 0;
+    return Math.max(0, this.nextStartTime - this.outputAudioContext.currentTime) * 1000;
+  }
+
+  private async playAudio(base64Audio: string) {
+    if (!this.outputAudioContext) return;
+    if (this.outputAudioContext.state === 'suspended') await this.outputAudioContext.resume();
+
+    this.nextStartTime = Math.max(this.nextStartTime, this.outputAudioContext.currentTime);
+
+    const audioBuffer = await decodeAudioData(
+      base64ToUint8Array(base64Audio),
+      this.outputAudioContext,
+      OUTPUT_SAMPLE_RATE,
+      1
+    );
+    if (!this.outputGain) return;
+
+    const source = this.outputAudioContext.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(this.outputGain);
+
+    source.addEventListener('ended', () => {
+      this.sources.delete(source);
+    });
+
+    source.start(this.nextStartTime);
+    this.nextStartTime += audioBuffer.duration;
+    this.sources.add(source);
+  }
+
+  /** Release capture and playback resources shared by every backend. */
+  protected releaseMedia() {
+    this.capture?.stop();
+    this.inputAudioContext?.close();
+    this.outputAudioContext?.close();
+
+    if (this.videoInterval) {
+        clearInterval(this.videoInterval);
+        this.videoInterval = null;
+    }
+    this.faceTracker?.stop();
+    this.faceTracker = null;
+    this.lastVoiceAt = -Infinity;
+    if (this.transmitTimer !== null) {
+      clearTimeout(this.transmitTimer);
+      this.transmitTimer = null;
+      this.onTransmitCallback?.(false);
+    }
+
+    this.sources.clear();
+    this.nextStartTime = 0;
+    this.activityOpen = false;
+    this.modelResponding = false;
+    this.deferredContext = [];
+    this.capture = null;
+    this.segmenter = null;
+    this.inputAudioContext = null;
+    this.outputAudioContext = null;
+    this.outputGain = null;
+    this.outputSinkId = '';
+  }
+
+  public abstract disconnect(): Promise<void>;
+}
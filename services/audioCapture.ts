@@ -0,0 +1,120 @@
+import { Resampler } from './audioUtils';
+
+/** Everything downstream (Gemini, vocal analysis, recordings) works on 16 kHz mono. */
+export const CAPTURE_SAMPLE_RATE = 16000;
+
+export interface CaptureOptions {
+  /** Length of each outgoing PCM chunk, in milliseconds of 16 kHz audio. */
+  chunkMs: number;
+  /** Device-rate frames the worklet gathers before handing them to the main thread. */
+  workletFrames: number;
+}
+
+export const DEFAULT_CAPTURE_OPTIONS: CaptureOptions = { chunkMs: 256, workletFrames: 2048 };
+
+const PROCESSOR_NAME = 'veritas-capture';
+
+// Registering the same processor name twice on one context throws
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+// Runs on the audio rendering thread and only batches samples; resampling and
+// encoding stay on the main thread where they can share code with the rest of
+// the app. Loaded from a Blob URL so it needs no separate bundler entry.
+const PROCESSOR_SOURCE = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.frames = options.processorOptions.frames;
+    this.buffer = new Float32Array(this.frames);
+    this.length = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    let offset = 0;
+    while (offset < channel.length) {
+      const count = Math.min(channel.length - offset, this.frames - this.length);
+      this.buffer.set(channel.subarray(offset, offset + count), this.length);
+      this.length += count;
+      offset += count;
+      if (this.length === this.frames) {
+        this.port.postMessage(this.buffer, [this.buffer.buffer]);
+        this.buffer = new Float32Array(this.frames);
+        this.length = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', CaptureProcessor);
+`;
+
+/**
+ * Microphone capture on an AudioWorklet. Takes whatever rate the device runs
+ * at, resamples to 16 kHz and hands out fixed-size mono chunks.
+ */
+export class AudioCapture {
+  private source: MediaStreamAudioSourceNode | null = null;
+  private node: AudioWorkletNode | null = null;
+  private resampler: Resampler | null = null;
+  private pending = new Float32Array(0);
+  private readonly chunkSamples: number;
+
+  constructor(private onChunk: (samples: Float32Array) => void, private options: CaptureOptions = DEFAULT_CAPTURE_OPTIONS) {
+    this.chunkSamples = Math.max(1, Math.round((options.chunkMs / 1000) * CAPTURE_SAMPLE_RATE));
+  }
+
+  public async start(ctx: AudioContext, stream: MediaStream) {
+    if (!loadedContexts.has(ctx)) {
+      const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+      try {
+        await ctx.audioWorklet.addModule(url);
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+      loadedContexts.add(ctx);
+    }
+
+    this.resampler = new Resampler(ctx.sampleRate, CAPTURE_SAMPLE_RATE);
+    this.source = ctx.createMediaStreamSource(stream);
+    this.node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      processorOptions: { frames: this.options.workletFrames },
+    });
+    this.node.port.onmessage = (e: MessageEvent<Float32Array>) => this.handleBlock(e.data);
+
+    this.source.connect(this.node);
+    // The output is silent, but a node connected to the destination is guaranteed to be pulled
+    this.node.connect(ctx.destination);
+  }
+
+  private handleBlock(block: Float32Array) {
+    if (!this.resampler) return;
+    const resampled = this.resampler.process(block);
+
+    const data = new Float32Array(this.pending.length + resampled.length);
+    data.set(this.pending);
+    data.set(resampled, this.pending.length);
+
+    let offset = 0;
+    for (; offset + this.chunkSamples <= data.length; offset += this.chunkSamples) {
+      this.onChunk(data.slice(offset, offset + this.chunkSamples));
+    }
+    this.pending = data.slice(offset);
+  }
+
+  public stop() {
+    if (this.node) this.node.port.onmessage = null;
+    this.node?.disconnect();
+    this.source?.disconnect();
+    this.node = null;
+    this.source = null;
+    this.resampler = null;
+    this.pending = new Float32Array(0);
+  }
+}
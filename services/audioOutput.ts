@@ -0,0 +1,125 @@
+// What the model's replies sound like on the operator's side: spoken or
+// text-only, how loud, through which device, and the spoken ones kept for the archive.
+
+import { base64ToUint8Array } from './audioUtils';
+import { ModelAudioClip } from '../types';
+
+const STORAGE_KEY = 'veritas-audio-output';
+
+/** The Live API speaks 16-bit mono PCM at this rate. */
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+/** `text` asks the model for written replies only, so nothing can be heard in the room. */
+export type OutputMode = 'audio' | 'text';
+
+export interface OutputSettings {
+  mode: OutputMode;
+  /** 0–1, applied to the master gain. */
+  volume: number;
+  muted: boolean;
+  /** Speaker deviceId; empty means the browser default. */
+  sinkId: string;
+  /** Keep the model's spoken replies with the archived session. */
+  recordReplies: boolean;
+}
+
+export const DEFAULT_OUTPUT: OutputSettings = { mode: 'audio', volume: 1, muted: false, sinkId: '', recordReplies: true };
+
+/** AudioContext.setSinkId is Chromium-only for now and missing from the DOM typings. */
+type SinkableContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+export const canSelectOutputDevice = () =>
+  typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+/** Route a context to a speaker; resolves false where the browser can't. */
+export async function setContextSink(ctx: AudioContext, sinkId: string): Promise<boolean> {
+  const sinkable = ctx as SinkableContext;
+  if (!sinkable.setSinkId) return false;
+  await sinkable.setSinkId(sinkId);
+  return true;
+}
+
+/** Labels stay empty until the page has been granted mic access once. */
+export async function listOutputDevices(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audiooutput');
+}
+
+export function loadOutputSettings(): OutputSettings {
+  try {
+    return { ...DEFAULT_OUTPUT, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_OUTPUT;
+  }
+}
+
+export function saveOutputSettings(settings: OutputSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** A WAV file around 16-bit mono PCM. */
+export function encodeWav(pcm: Uint8Array[], sampleRate: number): Blob {
+  const dataLength = pcm.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+  const header = new DataView(new ArrayBuffer(44));
+  const tag = (offset: number, text: string) => [...text].forEach((c, i) => header.setUint8(offset + i, c.charCodeAt(0)));
+  tag(0, 'RIFF');
+  header.setUint32(4, 36 + dataLength, true);
+  tag(8, 'WAVE');
+  tag(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true);
+  header.setUint16(32, 2, true);
+  header.setUint16(34, 16, true);
+  tag(36, 'data');
+  header.setUint32(40, dataLength, true);
+  return new Blob([header.buffer, ...pcm], { type: 'audio/wav' });
+}
+
+/**
+ * Collects the audio of the model's current turn as it streams in. Each
+ * finished turn becomes one clip, tied to the model utterance it voiced.
+ */
+export class ModelAudioRecorder {
+  private chunks: Uint8Array[] = [];
+  private startedAt = 0;
+
+  public add(base64Pcm: string, time: number) {
+    if (this.chunks.length === 0) this.startedAt = time;
+    this.chunks.push(base64ToUint8Array(base64Pcm));
+  }
+
+  /** Close the turn; null when the model said nothing aloud. */
+  public finish(replyId?: string): ModelAudioClip | null {
+    if (this.chunks.length === 0) return null;
+    const bytes = this.chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+    const clip: ModelAudioClip = {
+      replyId,
+      startedAt: this.startedAt,
+      durationSec: bytes / 2 / OUTPUT_SAMPLE_RATE,
+      audio: encodeWav(this.chunks, OUTPUT_SAMPLE_RATE),
+    };
+    this.chunks = [];
+    return clip;
+  }
+
+  public reset() {
+    this.chunks = [];
+  }
+}
+
+/** Play a recorded reply at the output's volume, on its speaker. The object URL is released once playback stops. */
+export function playClip(clip: ModelAudioClip, settings: OutputSettings): HTMLAudioElement {
+  const url = URL.createObjectURL(clip.audio);
+  const audio = new Audio(url);
+  audio.volume = settings.muted ? 0 : settings.volume;
+  if (settings.sinkId && 'setSinkId' in audio) {
+    audio.setSinkId(settings.sinkId).catch(e => console.warn("Failed to switch audio output:", e));
+  }
+  // Ending pauses too, so this covers both
+  audio.addEventListener('pause', () => URL.revokeObjectURL(url));
+  audio.play().catch(e => console.error("Failed to play reply:", e));
+  return audio;
+}
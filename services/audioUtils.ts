@@ -43,18 +43,75 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createPcmBlob(data: Float32Array): PcmBlob {
+export function createPcmBlob(data: Float32Array, sampleRate = 16000): PcmBlob {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
+    // Clamp first: a hot mic can exceed ±1.0, which would wrap around in Int16
+    const s = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = s < 0 ? s * 32768 : s * 32767;
   }
   return {
     data: arrayBufferToBase64(int16.buffer),
-    mimeType: 'audio/pcm;rate=16000',
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
 
+const sinc = (x: number) => (x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x));
+
+/**
+ * Streaming windowed-sinc sample-rate converter. Feed it consecutive blocks at
+ * `fromRate` and it returns consecutive blocks at `toRate`, carrying the
+ * filter history across calls. When downsampling, the cutoff drops below the
+ * new Nyquist so speech doesn't alias.
+ */
+export class Resampler {
+  private buffer = new Float32Array(0);
+  private position = 0;
+  private readonly step: number;
+  private readonly cutoff: number;
+
+  constructor(private fromRate: number, private toRate: number, private halfTaps = 16) {
+    this.step = fromRate / toRate;
+    this.cutoff = Math.min(1, toRate / fromRate) * 0.95;
+  }
+
+  public process(input: Float32Array): Float32Array {
+    if (this.fromRate === this.toRate) return input.slice();
+
+    const data = new Float32Array(this.buffer.length + input.length);
+    data.set(this.buffer);
+    data.set(input, this.buffer.length);
+
+    const out: number[] = [];
+    const halfTaps = this.halfTaps;
+    while (this.position + halfTaps < data.length) {
+      const center = Math.floor(this.position);
+      const frac = this.position - center;
+      let sum = 0;
+      let norm = 0;
+      for (let k = -halfTaps + 1; k <= halfTaps; k++) {
+        const index = center + k;
+        if (index < 0) continue;
+        const x = k - frac;
+        // Blackman window over the kernel span
+        const window = 0.42 + 0.5 * Math.cos((Math.PI * x) / halfTaps) + 0.08 * Math.cos((2 * Math.PI * x) / halfTaps);
+        const weight = this.cutoff * sinc(this.cutoff * x) * window;
+        sum += data[index] * weight;
+        norm += weight;
+      }
+      out.push(norm !== 0 ? sum / norm : 0);
+      this.position += this.step;
+    }
+
+    // Keep only the input still needed by the next output's kernel
+    const drop = Math.max(0, Math.floor(this.position) - halfTaps);
+    this.buffer = data.slice(drop);
+    this.position -= drop;
+    return Float32Array.from(out);
+  }
+}
+
 export const blobToBase64 = (blob: globalThis.Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -0,0 +1,47 @@
+import { AnalysisBackend } from './analysisBackend';
+import { GeminiLiveService } from './geminiLiveService';
+import { MockBackend } from './mockBackend';
+
+export type BackendKind = 'gemini' | 'mock';
+
+const BACKEND_KINDS: BackendKind[] = ['gemini', 'mock'];
+
+const isBackendKind = (value: unknown): value is BackendKind =>
+  BACKEND_KINDS.includes(value as BackendKind);
+
+/**
+ * `?backend=mock` in the URL wins, then ANALYSIS_BACKEND from the env file,
+ * then the live Gemini session.
+ */
+export function resolveBackendKind(): BackendKind {
+  const fromUrl = new URLSearchParams(window.location.search).get('backend');
+  if (isBackendKind(fromUrl)) return fromUrl;
+
+  const fromEnv = process.env.ANALYSIS_BACKEND;
+  if (isBackendKind(fromEnv)) return fromEnv;
+
+  return 'gemini';
+}
+
+export function createBackend(kind: BackendKind): AnalysisBackend {
+  switch (kind) {
+    case 'mock':
+      return new MockBackend();
+    case 'gemini':
+      return new GeminiLiveService();
+  }
+}
+
+/**
+ * AUDIO_CHUNK_MS in the env file overrides how much mic audio goes out per
+ * message, VIDEO_BUDGET_KBPS how many kilobytes per second video may use.
+ */
+function configureCapture(backend: AnalysisBackend): AnalysisBackend {
+  const chunkMs = Number(process.env.AUDIO_CHUNK_MS);
+  if (chunkMs > 0) backend.setCaptureOptions({ chunkMs });
+  const budgetKbps = Number(process.env.VIDEO_BUDGET_KBPS);
+  if (budgetKbps > 0) backend.setFrameOptions({ budgetBytesPerSec: budgetKbps * 1000 });
+  return backend;
+}
+
+export const analysisBackend = configureCapture(createBackend(resolveBackendKind()));
@@ -0,0 +1,130 @@
+import { AudioFrameFeatures, FeatureStats, InterviewQuestion, SubjectBaseline } from '../types';
+import { VOICED_RMS } from './vocalFeatures';
+import type { Locale } from './i18n';
+
+const STORAGE_KEY = 'veritas-subject-baselines';
+
+const toPrompts = (texts: string[]): InterviewQuestion[] =>
+  texts.map((text, index) => ({ id: `CAL${index + 1}`, text, category: 'irrelevant' }));
+
+/** Neutral questions the operator reads out while calibrating, in the UI language. Same ids in every locale. */
+export const NEUTRAL_PROMPTS: Record<Locale, InterviewQuestion[]> = {
+  'zh-CN': toPrompts([
+    '请说出你的全名。',
+    '今天是星期几？',
+    '请描述一下你现在所在的房间。',
+    '你今天早上是怎么来到这里的？',
+    '请从一数到十。',
+  ]),
+  'en-US': toPrompts([
+    'Please state your full name.',
+    'What day of the week is it today?',
+    'Describe the room you are in right now.',
+    'How did you get here this morning?',
+    'Count from one to ten.',
+  ]),
+};
+
+export const isCalibrationQuestion = (questionId?: string) => !!questionId && questionId.startsWith('CAL');
+
+/** Welford's running mean/variance. */
+class RunningStats {
+  private n = 0;
+  private mean = 0;
+  private m2 = 0;
+
+  public push(value: number) {
+    this.n++;
+    const delta = value - this.mean;
+    this.mean += delta / this.n;
+    this.m2 += delta * (value - this.mean);
+  }
+
+  public result(): FeatureStats {
+    return {
+      count: this.n,
+      mean: this.mean,
+      sd: this.n > 1 ? Math.sqrt(this.m2 / (this.n - 1)) : 0,
+    };
+  }
+}
+
+/** Characters of subject transcript per second of voiced mic audio. */
+export class SpeechRateMeter {
+  private characters = 0;
+  private voicedSeconds = 0;
+
+  public addTranscript(text: string) {
+    this.characters += text.replace(/\s/g, '').length;
+  }
+
+  public addAudio(features: AudioFrameFeatures) {
+    if (features.rms >= VOICED_RMS) this.voicedSeconds += features.durationSec;
+  }
+
+  public rate(): number | null {
+    return this.voicedSeconds >= 1 ? this.characters / this.voicedSeconds : null;
+  }
+}
+
+/** Collects model scores and voice features while the subject answers neutral prompts. */
+export class BaselineAccumulator {
+  private score = new RunningStats();
+  private level = new RunningStats();
+  private pitch = new RunningStats();
+  private speechRate = new SpeechRateMeter();
+
+  public addScore(probability: number) {
+    this.score.push(probability);
+  }
+
+  public addAudio(features: AudioFrameFeatures) {
+    this.speechRate.addAudio(features);
+    if (features.rms < VOICED_RMS) return;
+    this.level.push(features.rms);
+    if (features.pitchHz !== null) this.pitch.push(features.pitchHz);
+  }
+
+  public addTranscript(text: string) {
+    this.speechRate.addTranscript(text);
+  }
+
+  public finish(subject: string): SubjectBaseline {
+    return {
+      subject,
+      recordedAt: Date.now(),
+      score: this.score.result(),
+      rms: this.level.result(),
+      pitchHz: this.pitch.result(),
+      speechRate: this.speechRate.rate(),
+    };
+  }
+}
+
+export interface RelativeValue {
+  delta: number;
+  /** Standard deviations from the baseline mean; null when the baseline has no spread. */
+  z: number | null;
+}
+
+export function relativeTo(value: number, stats: FeatureStats): RelativeValue | null {
+  if (stats.count === 0) return null;
+  return {
+    delta: value - stats.mean,
+    z: stats.sd > 0 ? (value - stats.mean) / stats.sd : null,
+  };
+}
+
+export function loadBaselines(): Record<string, SubjectBaseline> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function saveBaseline(baseline: SubjectBaseline) {
+  const all = loadBaselines();
+  all[baseline.subject] = baseline;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+}
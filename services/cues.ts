@@ -0,0 +1,152 @@
+import { Verdict, VerdictBands } from '../types';
+
+export type CueCategory = 'vocal' | 'verbal' | 'facial' | 'postural';
+
+export const CUE_CATEGORIES: CueCategory[] = ['vocal', 'verbal', 'facial', 'postural'];
+
+export interface CueDefinition {
+  id: string;
+  category: CueCategory;
+  /** As the verdict tool names it to the model. */
+  name: string;
+  /**
+   * Phrases that identify the cue in the model's free text. Latin ones match
+   * at the start of a word ("trembl" finds "trembling"), Chinese ones anywhere.
+   */
+  keywords: readonly string[];
+}
+
+/**
+ * The fixed cue list every verdict is mapped onto. IDs are stable: they are
+ * stored with archived verdicts, so rename the labels, never the IDs.
+ */
+export const CUE_TAXONOMY = [
+  { id: 'vocal.tremor', category: 'vocal', name: '声音颤抖', keywords: ['颤抖', '发抖', '颤音', 'trembl', 'shaky', 'shaking voice', 'quaver', 'quiver', 'tremor', 'jitter', 'shimmer'] },
+  { id: 'vocal.pitch', category: 'vocal', name: '音调异常', keywords: ['音调', '声调', '音高', '基频', '尖锐', 'pitch', 'f0', 'high-pitched'] },
+  { id: 'vocal.hesitation', category: 'vocal', name: '停顿迟疑', keywords: ['停顿', '迟疑', '犹豫', '支吾', '结巴', '卡顿', 'pause', 'hesitat', 'stammer', 'stutter', 'filler'] },
+  { id: 'vocal.rate', category: 'vocal', name: '语速异常', keywords: ['语速', '急促', '说得很快', '说得很慢', 'speech rate', 'rushed', 'too fast', 'too slow', 'talking fast'] },
+  { id: 'vocal.fatigue', category: 'vocal', name: '声音疲惫沙哑', keywords: ['很困', '犯困', '困倦', '疲惫', '沙哑', '嘶哑', '哈欠', 'sleepy', 'tired', 'hoarse', 'yawn', 'drowsy', 'groggy'] },
+
+  { id: 'verbal.contradiction', category: 'verbal', name: '逻辑矛盾', keywords: ['矛盾', '前后不一', '自相', '不一致', 'contradict', 'inconsisten', 'conflicts with'] },
+  { id: 'verbal.implausible', category: 'verbal', name: '不合常理', keywords: ['不合常理', '不符', '不可信', '不合理', '胡扯', '荒谬', '离谱', 'implausib', "doesn't fit", 'does not fit', "doesn't add up", 'nonsense', 'not credible'] },
+  { id: 'verbal.vagueness', category: 'verbal', name: '措辞模糊', keywords: ['模糊', '含糊', '笼统', '缺乏细节', 'vague', 'non-specific', 'unspecific', 'hedg', 'lack of detail', 'lacks detail'] },
+  { id: 'verbal.evasion', category: 'verbal', name: '回避问题', keywords: ['回避问题', '回避回答', '回避', '答非所问', '转移话题', '反问', '绕开', 'evasi', 'deflect', 'dodg', 'sidestep', 'avoids the question', 'changes the subject'] },
+  { id: 'verbal.overemphasis', category: 'verbal', name: '过度强调', keywords: ['过度强调', '反复强调', '发誓', 'over-emphas', 'overemphas', 'swear', 'insist', 'protest'] },
+
+  { id: 'facial.gaze', category: 'facial', name: '眼神游离', keywords: ['眼神', '目光', '视线', '对视', 'gaze', 'eye contact', 'looking away', 'looks away', 'glanc'] },
+  { id: 'facial.touch', category: 'facial', name: '触摸面部', keywords: ['触摸', '摸脸', '摸鼻', '捂嘴', '挠头', 'touch', 'rubs', 'rubbing', 'covers mouth', 'covering mouth', 'scratch'] },
+  { id: 'facial.tension', category: 'facial', name: '面部紧张', keywords: ['表情', '紧绷', '抿嘴', '咬唇', '皱眉', '微表情', '苦笑', 'tension', 'tense', 'micro-expression', 'microexpression', 'lips', 'frown', 'grimac', 'jaw', 'smirk'] },
+  { id: 'facial.blink', category: 'facial', name: '频繁眨眼', keywords: ['眨眼', 'blink'] },
+  { id: 'facial.flush', category: 'facial', name: '脸红出汗', keywords: ['脸红', '出汗', '冒汗', '流汗', 'flush', 'sweat', 'blush'] },
+
+  { id: 'postural.defensive', category: 'postural', name: '防御姿态', keywords: ['防御', '抱臂', '双臂交叉', '后仰', '后退', 'defensive', 'crossed arms', 'arms crossed', 'leaning back', 'leans back', 'recoil', 'withdraw'] },
+  { id: 'postural.fidget', category: 'postural', name: '小动作不断', keywords: ['小动作', '坐立不安', '抖腿', '搓手', '摆弄', 'fidget', 'restless', 'fiddl', 'shifting in', 'tapping'] },
+  { id: 'postural.freeze', category: 'postural', name: '身体僵住', keywords: ['僵住', '僵硬', '一动不动', '定住', 'freez', 'froze', 'stiff', 'motionless'] },
+] as const satisfies readonly CueDefinition[];
+
+export type CueId = typeof CUE_TAXONOMY[number]['id'] | 'other';
+
+/** Where a named cue that fits nowhere in the taxonomy is counted. */
+export const OTHER_CUE: CueId = 'other';
+
+export const CUE_IDS: CueId[] = CUE_TAXONOMY.map(cue => cue.id);
+
+export const cueCategory = (id: CueId): CueCategory | null => CUE_TAXONOMY.find(cue => cue.id === id)?.category ?? null;
+
+const isLatin = (keyword: string) => /^[\x00-\x7f]+$/.test(keyword);
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const matchers = CUE_TAXONOMY.map(cue => ({
+  id: cue.id as CueId,
+  test: (text: string) => cue.keywords.some(keyword => isLatin(keyword)
+    ? new RegExp(`\\b${escapeRegExp(keyword)}`, 'i').test(text)
+    : text.includes(keyword)),
+}));
+
+const unique = (ids: CueId[]) => [...new Set(ids)];
+
+/** Taxonomy cues a piece of free text describes, in taxonomy order. */
+export const classifyCueText = (text: string): CueId[] => matchers.filter(m => m.test(text)).map(m => m.id);
+
+/** Keep only known taxonomy IDs, e.g. from a tool call's arguments. */
+export const validCueIds = (values: unknown): CueId[] =>
+  Array.isArray(values) ? unique(values.filter((v): v is CueId => typeof v === 'string' && (CUE_IDS.includes(v as CueId) || v === OTHER_CUE))) : [];
+
+/**
+ * A verdict's cues on the taxonomy: the IDs it already carries, else what its
+ * named cues describe (one that fits nowhere counts as `other`), else, for a
+ * verdict that named none, what its rationale mentions.
+ */
+export function verdictCues(verdict: Verdict): CueId[] {
+  if (verdict.cueIds) return validCueIds(verdict.cueIds);
+  if (verdict.cues.length > 0) {
+    return unique(verdict.cues.flatMap(cue => {
+      const ids = classifyCueText(cue);
+      return ids.length > 0 ? ids : [OTHER_CUE];
+    }));
+  }
+  return classifyCueText(verdict.rationale);
+}
+
+export interface CueStat {
+  id: CueId;
+  /** Verdicts that named it. */
+  count: number;
+  /** Their mean score. */
+  meanProbability: number;
+  /** Counts in equal slices of the session, oldest first. */
+  trend: number[];
+}
+
+const TREND_SLICES = 12;
+
+/** Per-cue counts over a session's verdicts, most frequent first. Cues never named are left out. */
+export function cueStats(verdicts: Verdict[], from: number, to: number, slices = TREND_SLICES): CueStat[] {
+  const span = Math.max(1, to - from);
+  const stats = new Map<CueId, CueStat & { total: number }>();
+  for (const verdict of verdicts) {
+    const slice = Math.min(slices - 1, Math.max(0, Math.floor((verdict.receivedAt - from) / span * slices)));
+    for (const id of verdictCues(verdict)) {
+      const stat = stats.get(id) ?? { id, count: 0, meanProbability: 0, trend: new Array(slices).fill(0), total: 0 };
+      stat.count++;
+      stat.total += verdict.probability;
+      stat.trend[slice]++;
+      stats.set(id, stat);
+    }
+  }
+  return [...stats.values()]
+    .map(({ total, ...stat }) => ({ ...stat, meanProbability: total / stat.count }))
+    .sort((a, b) => b.count - a.count || b.meanProbability - a.meanProbability);
+}
+
+/** A peak on the deception-rate graph and the cues behind it. */
+export interface CueSpike {
+  verdictId: string;
+  time: number;
+  probability: number;
+  cues: CueId[];
+  /** The statement the verdict scored. */
+  utteranceId?: string;
+}
+
+/**
+ * Verdicts that peak at the suspicious band or above: higher than the verdict
+ * before and no lower than the one after. A rewritten tag verdict counts once.
+ */
+export function cueSpikes(verdicts: Verdict[], bands: VerdictBands): CueSpike[] {
+  const ordered = [...verdicts].sort((a, b) => a.receivedAt - b.receivedAt);
+  return ordered
+    .filter((verdict, i) => {
+      const previous = ordered[i - 1];
+      const next = ordered[i + 1];
+      return verdict.probability >= bands.suspicious
+        && (!previous || verdict.probability > previous.probability)
+        && (!next || verdict.probability >= next.probability);
+    })
+    .map(verdict => ({
+      verdictId: verdict.id,
+      time: verdict.receivedAt,
+      probability: verdict.probability,
+      cues: verdictCues(verdict),
+      utteranceId: verdict.utteranceId,
+    }));
+}
@@ -0,0 +1,207 @@
+import { FaceBox } from '../types';
+import { isSkin } from './rppg';
+
+/** How often to look for the face; between passes the last box stands. */
+const DETECT_INTERVAL_MS = 200;
+/** A face must be missing this long before it counts as gone, so one missed pass doesn't flicker the overlay. */
+const LOST_AFTER_MS = 1500;
+/** Weight of a new detection against the tracked box; damps jitter without lagging real movement much. */
+const SMOOTHING = 0.5;
+/** Skin fallback: cells across the longer side of the frame, and the smallest blob taken for a face. */
+const SKIN_GRID = 32;
+const MIN_SKIN_CELLS = 6;
+
+type Detect = (ctx: CanvasRenderingContext2D) => Promise<FaceBox[]>;
+
+// Shape Detection API (Chromium); not in TypeScript's DOM library
+interface NativeFaceDetector {
+  detect(image: CanvasImageSource): Promise<{ boundingBox: DOMRectReadOnly }[]>;
+}
+type FaceDetectorConstructor = new (options?: { maxDetectedFaces?: number; fastMode?: boolean }) => NativeFaceDetector;
+
+function nativeDetector(): Detect | null {
+  const FaceDetector = (window as unknown as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+  if (!FaceDetector) return null;
+  const detector = new FaceDetector({ maxDetectedFaces: 4, fastMode: true });
+  return async ctx => {
+    const { width, height } = ctx.canvas;
+    const faces = await detector.detect(ctx.canvas);
+    return faces.map(({ boundingBox: box }) => ({
+      x: box.x / width,
+      y: box.y / height,
+      width: box.width / width,
+      height: box.height / height,
+    }));
+  };
+}
+
+/**
+ * Fallback for browsers without FaceDetector: the largest connected patch of
+ * skin-coloured cells with a face-like shape. Crude (hands and warm walls can
+ * fool it), but it runs anywhere.
+ */
+export function detectSkinBlob(ctx: CanvasRenderingContext2D): FaceBox[] {
+  const { width, height } = ctx.canvas;
+  const cell = Math.max(2, Math.ceil(Math.max(width, height) / SKIN_GRID));
+  const cols = Math.floor(width / cell);
+  const rows = Math.floor(height / cell);
+  if (cols === 0 || rows === 0) return [];
+
+  const { data } = ctx.getImageData(0, 0, cols * cell, rows * cell);
+  const stride = cols * cell;
+  const skin = new Uint8Array(cols * rows);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      let hits = 0;
+      let total = 0;
+      for (let y = row * cell; y < (row + 1) * cell; y += 2) {
+        for (let x = col * cell; x < (col + 1) * cell; x += 2) {
+          const i = (y * stride + x) * 4;
+          if (isSkin(data[i], data[i + 1], data[i + 2])) hits++;
+          total++;
+        }
+      }
+      skin[row * cols + col] = hits * 2 > total ? 1 : 0;
+    }
+  }
+
+  // Flood-fill the skin cells into blobs and keep the biggest plausible one
+  let best: { cells: number; box: FaceBox } | null = null;
+  const seen = new Uint8Array(cols * rows);
+  for (let start = 0; start < skin.length; start++) {
+    if (!skin[start] || seen[start]) continue;
+    const stack = [start];
+    seen[start] = 1;
+    let cells = 0, minCol = cols, maxCol = 0, minRow = rows, maxRow = 0;
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const col = index % cols;
+      const row = (index - col) / cols;
+      cells++;
+      minCol = Math.min(minCol, col);
+      maxCol = Math.max(maxCol, col);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+      const neighbours = [
+        col > 0 ? index - 1 : -1,
+        col < cols - 1 ? index + 1 : -1,
+        row > 0 ? index - cols : -1,
+        row < rows - 1 ? index + cols : -1,
+      ];
+      for (const next of neighbours) {
+        if (next < 0 || !skin[next] || seen[next]) continue;
+        seen[next] = 1;
+        stack.push(next);
+      }
+    }
+
+    const blobWidth = (maxCol - minCol + 1) * cell;
+    const blobHeight = (maxRow - minRow + 1) * cell;
+    const aspect = blobHeight / blobWidth;
+    if (cells < MIN_SKIN_CELLS || aspect < 0.7 || aspect > 2.5 || (best && best.cells >= cells)) continue;
+    best = {
+      cells,
+      box: { x: (minCol * cell) / width, y: (minRow * cell) / height, width: blobWidth / width, height: blobHeight / height },
+    };
+  }
+  return best ? [best.box] : [];
+}
+
+const center = (box: FaceBox) => ({ x: box.x + box.width / 2, y: box.y + box.height / 2 });
+
+const blend = (from: FaceBox, to: FaceBox, k: number): FaceBox => ({
+  x: from.x + (to.x - from.x) * k,
+  y: from.y + (to.y - from.y) * k,
+  width: from.width + (to.width - from.width) * k,
+  height: from.height + (to.height - from.height) * k,
+});
+
+/**
+ * Follows the subject's face across frames. Once locked it sticks to the face
+ * nearest its last position, so someone walking past doesn't steal the box.
+ */
+export class FaceTracker {
+  private detect: Detect = nativeDetector() ?? (async ctx => detectSkinBlob(ctx));
+  private box: FaceBox | null = null;
+  private present: boolean | null = null;
+  private lastRun = -Infinity;
+  private lastSeen: number | null = null;
+  private busy = false;
+  private stopped = false;
+
+  constructor(private onChange: (face: FaceBox | null) => void) {}
+
+  /** The tracked face, or null when there is none (or none found yet). */
+  public get face(): FaceBox | null {
+    return this.present ? this.box : null;
+  }
+
+  /** Look at the frame just drawn to `ctx`. Detection runs in the background, at most every DETECT_INTERVAL_MS. */
+  public track(ctx: CanvasRenderingContext2D, time: number) {
+    if (this.stopped || this.busy || time - this.lastRun < DETECT_INTERVAL_MS) return;
+    this.lastRun = time;
+    this.lastSeen ??= time;
+    this.busy = true;
+
+    this.detect(ctx)
+      .then(faces => this.update(faces, time))
+      .catch(e => {
+        // Some builds expose FaceDetector without a working backend
+        console.warn("Face detection failed, falling back to skin tone:", e);
+        this.detect = async frame => detectSkinBlob(frame);
+      })
+      .finally(() => {
+        this.busy = false;
+      });
+  }
+
+  private update(faces: FaceBox[], time: number) {
+    if (this.stopped) return;
+
+    const face = this.pick(faces);
+    if (face) {
+      this.lastSeen = time;
+      this.box = this.box ? blend(this.box, face, SMOOTHING) : face;
+      this.present = true;
+    } else if (time - (this.lastSeen ?? time) >= LOST_AFTER_MS) {
+      this.box = null;
+      this.present = false;
+    }
+    if (this.present !== null) this.onChange(this.face);
+  }
+
+  private pick(faces: FaceBox[]): FaceBox | null {
+    if (faces.length === 0) return null;
+    const previous = this.box;
+    if (!previous) return faces.reduce((a, b) => (b.width * b.height > a.width * a.height ? b : a));
+    const anchor = center(previous);
+    const distance = (box: FaceBox) => Math.hypot(center(box).x - anchor.x, center(box).y - anchor.y);
+    return faces.reduce((a, b) => (distance(b) < distance(a) ? b : a));
+  }
+
+  public stop() {
+    this.stopped = true;
+  }
+}
+
+/**
+ * Where a face box lands on a video element drawn with `object-cover`, as CSS
+ * percentages of the element; the cover crop shifts it off the raw fractions.
+ */
+export function faceToElementBox(face: FaceBox, video: HTMLVideoElement) {
+  const { clientWidth: cw, clientHeight: ch, videoWidth: vw, videoHeight: vh } = video;
+  if (!cw || !ch || !vw || !vh) {
+    return { left: `${face.x * 100}%`, top: `${face.y * 100}%`, width: `${face.width * 100}%`, height: `${face.height * 100}%` };
+  }
+  const scale = Math.max(cw / vw, ch / vh);
+  const shownWidth = vw * scale;
+  const shownHeight = vh * scale;
+  const offsetX = (cw - shownWidth) / 2;
+  const offsetY = (ch - shownHeight) / 2;
+  return {
+    left: `${((offsetX + face.x * shownWidth) / cw) * 100}%`,
+    top: `${((offsetY + face.y * shownHeight) / ch) * 100}%`,
+    width: `${((face.width * shownWidth) / cw) * 100}%`,
+    height: `${((face.height * shownHeight) / ch) * 100}%`,
+  };
+}
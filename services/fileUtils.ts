@@ -0,0 +1,12 @@
+export function downloadFile(filename: string, content: BlobPart, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Filesystem-safe timestamp for export file names. */
+export const fileStamp = (ms: number) => new Date(ms).toISOString().replace(/[:.]/g, '-');
@@ -0,0 +1,131 @@
+// Decides which captured video frames are worth sending. Motion (found by
+// differencing small thumbnails) and speech earn bursts, a still scene backs
+// off, and a token bucket keeps the average under the bandwidth budget.
+
+export interface FrameOptions {
+  /** Average bytes per second the video may use, counted as sent (base64 JPEG). */
+  budgetBytesPerSec: number;
+}
+
+export const DEFAULT_FRAME_OPTIONS: FrameOptions = { budgetBytesPerSec: 100000 };
+
+/** What actually went out over the last few seconds. */
+export interface VideoStats {
+  fps: number;
+  bytesPerSec: number;
+  budgetBytesPerSec: number;
+}
+
+/** Rate frames are drawn for local analysis; the sender picks from these. */
+export const FRAME_DRAW_FPS = 15;
+/** Speech keeps counting for this long after the last voiced chunk, so a breath between words doesn't drop the rate. */
+export const SPEAKING_HOLD_MS = 1000;
+
+/** Gap between frames: during a motion burst, while the subject speaks, normally, and in a still scene. */
+const BURST_INTERVAL_MS = 250;
+const SPEAKING_INTERVAL_MS = 500;
+const BASE_INTERVAL_MS = 1000;
+const IDLE_INTERVAL_MS = 4000;
+/** How long a burst lasts after the last motion, and how long before a quiet scene counts as still. */
+const BURST_MS = 1500;
+const STILL_AFTER_MS = 5000;
+/** Mean absolute luma change (0–1) between thumbnails that counts as movement. */
+const MOTION_THRESHOLD = 0.04;
+/** Seconds of budget that may be spent at once in a burst. */
+const BUCKET_SECONDS = 3;
+const STATS_WINDOW_MS = 5000;
+const MIN_QUALITY = 0.4;
+const MAX_QUALITY = 0.8;
+
+/** Size of the grayscale thumbnails compared for motion. */
+export const THUMB_WIDTH = 48;
+export const THUMB_HEIGHT = 27;
+
+export class FrameSender {
+  // Created on first use, so the pacing also runs where there is no DOM (the eval harness)
+  private thumbCtx: CanvasRenderingContext2D | null = null;
+  private previous: Float32Array | null = null;
+  private lastMotion = -Infinity;
+  private lastSent = -Infinity;
+  private tokens: number;
+  private lastRefill: number | null = null;
+  private sent: { time: number; bytes: number }[] = [];
+
+  constructor(private options: FrameOptions = DEFAULT_FRAME_OPTIONS) {
+    this.tokens = options.budgetBytesPerSec * BUCKET_SECONDS;
+  }
+
+  /** Compare this frame with the last one; call for every drawn frame. Returns the change, 0–1. */
+  public observe(frame: CanvasImageSource, time: number): number {
+    if (!this.thumbCtx) {
+      const thumb = document.createElement('canvas');
+      thumb.width = THUMB_WIDTH;
+      thumb.height = THUMB_HEIGHT;
+      this.thumbCtx = thumb.getContext('2d', { willReadFrequently: true });
+      if (!this.thumbCtx) return 0;
+    }
+    this.thumbCtx.drawImage(frame, 0, 0, THUMB_WIDTH, THUMB_HEIGHT);
+    const { data } = this.thumbCtx.getImageData(0, 0, THUMB_WIDTH, THUMB_HEIGHT);
+
+    const luma = new Float32Array(THUMB_WIDTH * THUMB_HEIGHT);
+    for (let i = 0; i < luma.length; i++) {
+      luma[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+    }
+    return this.observeLuma(luma, time);
+  }
+
+  /** Same as `observe`, for a THUMB_WIDTH × THUMB_HEIGHT luma thumbnail (0–1) made elsewhere. */
+  public observeLuma(luma: Float32Array, time: number): number {
+    let change = 0;
+    if (this.previous) {
+      for (let i = 0; i < luma.length; i++) change += Math.abs(luma[i] - this.previous[i]);
+      change /= luma.length;
+    }
+    this.previous = luma;
+    if (change >= MOTION_THRESHOLD) this.lastMotion = time;
+    return change;
+  }
+
+  /** Whether a frame should go out now, given motion so far and whether the subject is talking. */
+  public shouldSend(time: number, speaking: boolean): boolean {
+    this.refill(time);
+    if (this.tokens <= 0) return false;
+
+    const sinceMotion = time - this.lastMotion;
+    const interval = sinceMotion < BURST_MS ? BURST_INTERVAL_MS
+      : speaking ? SPEAKING_INTERVAL_MS
+      : sinceMotion < STILL_AFTER_MS ? BASE_INTERVAL_MS
+      : IDLE_INTERVAL_MS;
+    return time - this.lastSent >= interval;
+  }
+
+  /** JPEG quality for the next frame: full while the budget has headroom, lower as it drains. */
+  public quality(): number {
+    const fill = Math.max(0, Math.min(1, this.tokens / (this.options.budgetBytesPerSec * BUCKET_SECONDS)));
+    return MIN_QUALITY + (MAX_QUALITY - MIN_QUALITY) * fill;
+  }
+
+  public recordSent(time: number, bytes: number) {
+    this.lastSent = time;
+    this.tokens -= bytes;
+    this.sent.push({ time, bytes });
+  }
+
+  public stats(time: number): VideoStats {
+    while (this.sent.length > 0 && time - this.sent[0].time > STATS_WINDOW_MS) this.sent.shift();
+    const seconds = STATS_WINDOW_MS / 1000;
+    return {
+      fps: this.sent.length / seconds,
+      bytesPerSec: this.sent.reduce((sum, frame) => sum + frame.bytes, 0) / seconds,
+      budgetBytesPerSec: this.options.budgetBytesPerSec,
+    };
+  }
+
+  private refill(time: number) {
+    const capacity = this.options.budgetBytesPerSec * BUCKET_SECONDS;
+    if (this.lastRefill !== null) {
+      this.tokens = Math.min(capacity, this.tokens + ((time - this.lastRefill) / 1000) * this.options.budgetBytesPerSec);
+    }
+    this.lastRefill = time;
+  }
+}
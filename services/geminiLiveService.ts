@@ -1,35 +1,43 @@
-
-import { GoogleGenAI, LiveServerMessage } from '@google/genai';
-import { createPcmBlob, decodeAudioData, base64ToUint8Array } from './audioUtils';
-
-export class GeminiLiveService {
+import { FunctionResponse, GoogleGenAI, LiveServerMessage, Session } from '@google/genai';
+import { LiveMessageBackend } from './analysisBackend';
+import { liveConfig, sessionModel } from './profiles';
+import { PcmBlob } from './audioUtils';
+import { describeQuestion } from './interviewPlan';
+import { connectRelay, loadRelayToken } from './relayClient';
+import { isFatalRelayClose } from './relayProtocol';
+import { DEFAULT_RECONNECT_POLICY, MediaHoldBuffer, ReconnectPolicy, TranscriptMemory, backoffDelay } from './reconnect';
+import { ActivitySignal } from './turnMode';
+import { InterviewQuestion } from '../types';
+
+/** What we use of a live session; the relay's stand-in implements the same calls. */
+type LiveSession = Pick<Session, 'sendRealtimeInput' | 'sendToolResponse' | 'sendClientContent' | 'close'>;
+
+/**
+ * With RELAY_URL set the session goes through the relay server (server/) and
+ * the browser never sees the API key; otherwise it connects directly with the
+ * key from .env.local, which is only suitable for local development.
+ */
+export class GeminiLiveService extends LiveMessageBackend {
+  public readonly name = 'gemini';
   private ai: GoogleGenAI | null = null;
-  private sessionPromise: Promise<any> | null = null;
-  private inputAudioContext: AudioContext | null = null;
-  private outputAudioContext: AudioContext | null = null;
-  private inputSource: MediaStreamAudioSourceNode | null = null;
-  private processor: ScriptProcessorNode | null = null;
-  private nextStartTime = 0;
-  private sources = new Set<AudioBufferSourceNode>();
-  private onLogCallback: ((text: string, isModel: boolean, isTurnComplete?: boolean) => void) | null = null;
-  private onDisconnectCallback: (() => void) | null = null;
-  private onVolumeCallback: ((volume: number) => void) | null = null;
-  
-  // Video streaming
-  private videoInterval: number | null = null;
-
-  constructor() {}
-
-  public setOnLog(callback: (text: string, isModel: boolean, isTurnComplete?: boolean) => void) {
-    this.onLogCallback = callback;
-  }
-
-  public setOnDisconnect(callback: () => void) {
-    this.onDisconnectCallback = callback;
-  }
-
-  public setOnVolume(callback: (volume: number) => void) {
-    this.onVolumeCallback = callback;
+  private sessionPromise: Promise<LiveSession> | null = null;
+  private held: MediaHoldBuffer;
+  private heldContext: string[] = [];
+  private transcript = new TranscriptMemory();
+  private resumptionHandle: string | null = null;
+  private activeQuestion: InterviewQuestion | null = null;
+  private startMedia: (() => void) | null = null;
+  // Bumped for every socket so late callbacks from a dead one are ignored
+  private generation = 0;
+  private attempt = 0;
+  private reconnecting = false;
+  private closing = false;
+  // Failures before the first session is up go to the caller instead of retrying
+  private established = false;
+
+  constructor(private policy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY) {
+    super();
+    this.held = new MediaHoldBuffer(policy);
   }
 
   public async connect(
@@ -39,199 +47,226 @@ export class GeminiLiveService {
   ): Promise<void> {
     
     // Always create a new instance to ensure fresh API key and state
-    this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    this.ai = process.env.RELAY_URL ? null : new GoogleGenAI({ apiKey: process.env.API_KEY });
+    this.closing = false;
+    this.established = false;
+    this.reconnecting = false;
+    this.attempt = 0;
+    this.resumptionHandle = null;
+    this.activeQuestion = null;
+    this.transcript.clear();
+    this.held.clear();
+    this.heldContext = [];
+
+    await this.openAudioContexts();
+
+    // Capture starts with the first socket and keeps running across reconnects
+    let mediaStarted = false;
+    this.startMedia = () => {
+      if (mediaStarted) return;
+      mediaStarted = true;
+      this.startAudioStream(stream).catch(e => {
+        console.error('Audio capture failed', e);
+        this.onDisconnectCallback?.();
+      });
+      this.startVideoStream(videoElement, canvasElement);
+    };
 
-    this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-    this.outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-    
-    // Ensure contexts are running (browser requires user gesture, which we have via the Start button)
-    if (this.inputAudioContext.state === 'suspended') await this.inputAudioContext.resume();
-    if (this.outputAudioContext.state === 'suspended') await this.outputAudioContext.resume();
+    try {
+        // Wait for connection to establish before resolving
+        await this.openSession();
+        this.established = true;
+    } catch (e) {
+        console.error("Connection failed initially:", e);
+        throw e; // Re-throw to be caught by App.tsx
+    }
+  }
 
-    const outputNode = this.outputAudioContext.createGain();
-    outputNode.connect(this.outputAudioContext.destination);
+  private openSession(): Promise<LiveSession> {
+    const generation = ++this.generation;
+    const isCurrent = () => generation === this.generation;
 
     const config = {
-      model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+      model: sessionModel(this.profile, this.output.mode),
       callbacks: {
         onopen: () => {
           console.log('Gemini Live Connection Opened');
-          this.startAudioStream(stream);
-          this.startVideoStream(videoElement, canvasElement);
+          if (isCurrent()) this.startMedia?.();
         },
         onmessage: async (message: LiveServerMessage) => {
-          this.handleServerMessage(message);
+          if (isCurrent()) this.handleServerMessage(message);
         },
         onerror: (e: ErrorEvent) => {
           console.error('Gemini Live Error', e);
-          this.onDisconnectCallback?.();
+          if (isCurrent()) this.handleConnectionLoss();
         },
         onclose: (e: CloseEvent) => {
           console.log('Gemini Live Connection Closed', e);
-          this.onDisconnectCallback?.();
+          if (!isCurrent()) return;
+          // The relay refusing us (bad token, time limit) won't change on retry
+          if (isFatalRelayClose(e.code) && this.established && !this.closing) this.onDisconnectCallback?.();
+          else this.handleConnectionLoss();
         },
       },
       config: {
-        responseModalities: ['AUDIO'], // Use string literal to avoid runtime enum issues
-        speechConfig: {
-          voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-        },
-        systemInstruction: `
-          指令：你是一台代号为“真理之眼 (Veritas-V9)”的高级战术测谎仪。你的任务是基于声音和图像输入，实时分析目标的心理状态。
-          
-          核心判定标准（严格执行）：
-          1. **真话 (0-49%)**：
-             - 特征：语气坚定、语速平稳、逻辑自洽、面部肌肉放松。
-          2. **可疑 (50-75%)**：
-             - 特征：轻微停顿、逻辑小漏洞、眼神游离、使用模糊词汇。
-             - **重点**：如果不符合常理（例如用户说"我早上六点跑步了"但声音听起来很困、沙哑或有哈欠），**必须**标记为可疑或谎言！
-          3. **谎言 (76-100%)**：
-             - 特征：明显的逻辑矛盾、声调抖动、防御性姿态、回答问题时触摸面部。
-             - 严厉打击明显的胡扯。
-
-          输出规则：
-          1. **每句话的开头**必须严格包含标签 [欺骗率:XX%]。
-          2. 必须具体指出**哪里不对劲**（例如："你的声音在颤抖"、"你的逻辑有矛盾"）。
-          3. 不要长篇大论，保持冷酷、简短、压迫感。
-
-          现在开始监控。
-        `,
-        inputAudioTranscription: {}, 
-        outputAudioTranscription: {}, 
+        ...liveConfig(this.profile, { turnMode: this.turnMode, outputMode: this.output.mode }),
+        // An empty config asks for resumption handles; a handle resumes that session's context
+        sessionResumption: this.resumptionHandle ? { handle: this.resumptionHandle } : {},
       },
     };
 
-    if (this.ai) {
-        // We assign the promise so we can wait on it or close it later
-        try {
-            this.sessionPromise = this.ai.live.connect(config);
-            // Wait for connection to establish before resolving
-            await this.sessionPromise;
-        } catch (e) {
-            console.error("Connection failed initially:", e);
-            throw e; // Re-throw to be caught by App.tsx
-        }
-    }
+    // We assign the promise so we can wait on it or close it later
+    this.sessionPromise = process.env.RELAY_URL
+      ? connectRelay(process.env.RELAY_URL, loadRelayToken(), config)
+      : this.ai!.live.connect(config);
+    return this.sessionPromise;
   }
 
-  private startAudioStream(stream: MediaStream) {
-    if (!this.inputAudioContext) return;
-
-    this.inputSource = this.inputAudioContext.createMediaStreamSource(stream);
-    this.processor = this.inputAudioContext.createScriptProcessor(4096, 1, 1);
+  /** Close the current socket, if any; callbacks still in flight from it are ignored. */
+  private closeSession() {
+    const previous = this.sessionPromise;
+    if (!previous) return;
+    this.sessionPromise = null;
+    this.generation++;
+    previous.then(session => session.close()).catch(() => {});
+  }
 
-    this.processor.onaudioprocess = (e) => {
-      const inputData = e.inputBuffer.getChannelData(0);
-      
-      // Calculate Volume for UI
-      if (this.onVolumeCallback) {
-        let sum = 0;
-        for (let i = 0; i < inputData.length; i++) {
-          sum += inputData[i] * inputData[i];
-        }
-        const rms = Math.sqrt(sum / inputData.length);
-        this.onVolumeCallback(rms * 100); // Scale roughly 0-100
+  /** Retry with backoff; only when every attempt fails is the session reported as disconnected. */
+  private async handleConnectionLoss() {
+    if (this.closing || this.reconnecting || !this.established) return;
+    this.reconnecting = true;
+
+    while (this.attempt < this.policy.maxAttempts) {
+      const delayMs = backoffDelay(this.attempt, this.policy);
+      this.attempt++;
+      this.onConnectionCallback?.({ kind: 'reconnecting', attempt: this.attempt, maxAttempts: this.policy.maxAttempts, delayMs });
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      if (this.closing) return;
+
+      const handle = this.resumptionHandle;
+      this.closeSession();
+      try {
+        await this.openSession();
+      } catch (e) {
+        console.warn("Reconnect attempt failed:", e);
+        // The handle may be what the server rejected; fall back to a fresh session next time
+        this.resumptionHandle = null;
+        continue;
       }
+      if (this.closing) return;
+
+      this.reconnecting = false;
+      if (handle === null) this.restoreContext();
+      // Signals sent while the link was down are lost; reopen the turn the subject is in
+      if (this.activityOpen) this.sendActivity('start');
+      this.flushHeld();
+      // A reply cut off by the drop never completes
+      this.endModelTurn();
+      this.onConnectionCallback?.({ kind: 'restored', resumed: handle !== null });
+      return;
+    }
 
-      const pcmBlob = createPcmBlob(inputData);
-      
-      // Only send if session exists and is resolved. 
-      // We use .then() to ensure we wait for the handshake to complete if it's still pending (though connect awaits it).
-      this.sessionPromise?.then((session) => {
-        try {
-            session.sendRealtimeInput({ media: pcmBlob });
-        } catch (e) {
-            // This is expected if session is closing or network glitch
-            // console.warn("Failed to send audio input", e);
-        }
-      }).catch(e => {
-        // Swallow errors if session promise failed (e.g. disconnect happened)
-      });
-    };
+    this.reconnecting = false;
+    this.held.clear();
+    this.heldContext = [];
+    this.onDisconnectCallback?.();
+  }
 
-    this.inputSource.connect(this.processor);
-    this.processor.connect(this.inputAudioContext.destination);
+  /** A fresh session knows nothing: re-send the recent transcript and the open question. */
+  private restoreContext() {
+    const recap = this.transcript.recap();
+    if (recap) this.sendContext(recap);
+    if (this.activeQuestion) this.sendContext(describeQuestion(this.activeQuestion));
   }
 
-  private startVideoStream(videoEl: HTMLVideoElement, canvasEl: HTMLCanvasElement) {
-    const ctx = canvasEl.getContext('2d');
-    if (!ctx) return;
+  private flushHeld() {
+    const context = this.heldContext;
+    this.heldContext = [];
+    context.forEach(text => this.sendContext(text));
+    this.held.drain().forEach(media => this.sendRealtimeInput(media));
+  }
 
-    // Send frames at ~1 fps to save bandwidth but keep context
-    this.videoInterval = window.setInterval(() => {
-        if (!videoEl.videoWidth || !videoEl.videoHeight) return;
-        
-        canvasEl.width = videoEl.videoWidth / 2; // Downscale slightly for perf
-        canvasEl.height = videoEl.videoHeight / 2;
-        ctx.drawImage(videoEl, 0, 0, canvasEl.width, canvasEl.height);
+  protected async handleServerMessage(message: LiveServerMessage) {
+    // Anything arriving means the link works again
+    this.attempt = 0;
 
-        const base64Data = canvasEl.toDataURL('image/jpeg', 0.6).split(',')[1];
-        
-        this.sessionPromise?.then((session) => {
-            try {
-                session.sendRealtimeInput({
-                    media: { data: base64Data, mimeType: 'image/jpeg' }
-                });
-            } catch (e) {
-                 // console.warn("Failed to send video input", e);
-            }
-        }).catch(() => {});
+    const update = message.sessionResumptionUpdate;
+    if (update?.resumable && update.newHandle) this.resumptionHandle = update.newHandle;
+    if (message.goAway) console.warn("Server is about to close the session, time left:", message.goAway.timeLeft);
 
-    }, 1000); 
-  }
+    if (message.serverContent?.inputTranscription?.text) this.transcript.add('subject', message.serverContent.inputTranscription.text);
+    if (message.serverContent?.outputTranscription?.text) this.transcript.add('model', message.serverContent.outputTranscription.text);
 
-  private async handleServerMessage(message: LiveServerMessage) {
-    const isTurnComplete = message.serverContent?.turnComplete || false;
+    return super.handleServerMessage(message);
+  }
 
-    // 1. Handle User Input Transcription (So user knows they are heard)
-    if (message.serverContent?.inputTranscription && this.onLogCallback) {
-        this.onLogCallback(message.serverContent.inputTranscription.text, false, isTurnComplete);
-    }
+  public setActiveQuestion(question: InterviewQuestion | null) {
+    this.activeQuestion = question;
+    super.setActiveQuestion(question);
+  }
 
-    // 2. Handle Model Output Transcription (Analysis)
-    if (message.serverContent?.outputTranscription && this.onLogCallback) {
-        this.onLogCallback(message.serverContent.outputTranscription.text, true, isTurnComplete);
+  protected sendRealtimeInput(media: PcmBlob) {
+    if (this.reconnecting) {
+      this.held.hold(media);
+      return;
     }
-    
-    // 3. Handle Audio Output
-    const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-    
-    if (base64Audio && this.outputAudioContext) {
-      if (this.outputAudioContext.state === 'suspended') await this.outputAudioContext.resume();
-
-      this.nextStartTime = Math.max(this.nextStartTime, this.outputAudioContext.currentTime);
-      
-      const audioBuffer = await decodeAudioData(
-        base64ToUint8Array(base64Audio),
-        this.outputAudioContext,
-        24000,
-        1
-      );
+    // Only send if session exists and is resolved. 
+    // We use .then() to ensure we wait for the handshake to complete if it's still pending (though connect awaits it).
+    this.sessionPromise?.then((session) => {
+      try {
+          session.sendRealtimeInput({ media });
+      } catch (e) {
+          // This is expected if session is closing or network glitch
+          // console.warn("Failed to send realtime input", e);
+      }
+    }).catch(e => {
+      // Swallow errors if session promise failed (e.g. disconnect happened)
+    });
+  }
 
-      const source = this.outputAudioContext.createBufferSource();
-      source.buffer = audioBuffer;
-      const outputNode = this.outputAudioContext.createGain();
-      outputNode.connect(this.outputAudioContext.destination);
-      source.connect(outputNode);
-      
-      source.addEventListener('ended', () => {
-        this.sources.delete(source);
-      });
+  protected sendToolResponse(functionResponses: FunctionResponse[]) {
+    // The calls belonged to the session that just dropped; nobody is waiting for the answer
+    if (this.reconnecting) return;
+    this.markTransmitting();
+    this.sessionPromise?.then((session) => {
+      try {
+          session.sendToolResponse({ functionResponses });
+      } catch (e) {
+          console.warn("Failed to send tool response", e);
+      }
+    }).catch(() => {});
+  }
 
-      source.start(this.nextStartTime);
-      this.nextStartTime += audioBuffer.duration;
-      this.sources.add(source);
+  protected sendContext(text: string) {
+    if (this.reconnecting) {
+      this.heldContext.push(text);
+      return;
     }
+    this.markTransmitting();
+    this.sessionPromise?.then((session) => {
+      try {
+          session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: this.redactText(text) }] }], turnComplete: false });
+      } catch (e) {
+          console.warn("Failed to send context", e);
+      }
+    }).catch(() => {});
+  }
 
-    // Handle Interruption
-    if (message.serverContent?.interrupted) {
-      this.sources.forEach(source => source.stop());
-      this.sources.clear();
-      this.nextStartTime = 0;
-    }
+  protected sendActivity(signal: ActivitySignal) {
+    if (this.reconnecting) return;
+    this.markTransmitting();
+    this.sessionPromise?.then((session) => {
+      try {
+          session.sendRealtimeInput(signal === 'start' ? { activityStart: {} } : { activityEnd: {} });
+      } catch (e) {
+          console.warn("Failed to send activity signal", e);
+      }
+    }).catch(() => {});
   }
 
   public async disconnect() {
+    this.closing = true;
+
     // 1. Close session if it exists
     if (this.sessionPromise) {
         try {
@@ -245,22 +280,15 @@ export class GeminiLiveService {
     }
 
     // 2. Clean up audio/video resources
-    this.processor?.disconnect();
-    this.inputSource?.disconnect();
-    this.inputAudioContext?.close();
-    this.outputAudioContext?.close();
-    
-    if (this.videoInterval) {
-        clearInterval(this.videoInterval);
-        this.videoInterval = null;
-    }
+    this.releaseMedia();
 
     // 3. Reset state
     this.sessionPromise = null;
-    this.inputAudioContext = null;
-    this.outputAudioContext = null;
     this.ai = null;
+    this.startMedia = null;
+    this.established = false;
+    this.reconnecting = false;
+    this.held.clear();
+    this.heldContext = [];
   }
 }
-
-export const geminiLive = new GeminiLiveService();
@@ -0,0 +1,604 @@
+// Message catalogs for the UI. zh-CN keeps the original bilingual labels;
+// en-US is English throughout. Model prompts and exported reports are not
+// translated here: the first follow the interrogator profile, the second
+// stay bilingual so any reader can use them.
+
+const LOCALE_KEY = 'veritas-locale';
+
+export type Locale = 'zh-CN' | 'en-US';
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'zh-CN', label: '中文' },
+  { id: 'en-US', label: 'EN' },
+];
+
+const ZH_CN = {
+  'app.title': '神经测谎仪',
+  'app.locale': '界面语言 / LANGUAGE',
+
+  'status.label': '系统状态 / SYSTEM STATUS',
+  'status.standby': 'STANDBY',
+  'status.connecting': 'CONNECTING...',
+  'status.reconnecting': 'RECONNECTING...',
+  'status.calibrating': 'CALIBRATING',
+  'status.monitoring': 'MONITORING',
+  'status.disconnected': 'DISCONNECTED',
+  'status.transmitting': '传输中 / TX',
+  'status.transmittingTitle': '音视频正在发送至分析服务 / Audio and video are being sent for analysis',
+
+  'verdict.deception': '【 谎 言 确 认 】',
+  'verdict.suspicious': '【 高 度 可 疑 】',
+  'verdict.truth': '【 诚 实 】',
+  'verdict.standby': '【 待 机 】',
+
+  'analysis.standby': '系统待机...',
+  'analysis.pending': '数据分析中...',
+
+  'bio.title': '生物遥测 / BIO_METRICS',
+  'bio.bpm': '心率 / BPM',
+  'bio.noSignal': 'NO SIGNAL',
+  'bio.pulse.ok': '正常',
+  'bio.pulse.elevated': '升高',
+  'bio.pulse.critical': '危急',
+  'bio.pulse.warmingUp': '采集中 / ACQUIRING',
+  'bio.pulse.noFace': '无面部 / NO FACE',
+  'bio.pulse.lowQuality': '信号弱 / WEAK',
+  'bio.vocalStress': '声学压力 / VOCAL STRESS',
+  'bio.noSpeech': '等待发言 / NO SPEECH',
+
+  'log.title': '实时日志 / LIVE_LOG',
+  'log.empty': '等待数据流...',
+  'log.subject': '受审者',
+  'log.system': 'V9_系统',
+  'log.started': '系统初始化完成。音频监听中...',
+  'log.replayStarted': '录像已载入。会话回放中...',
+  'log.replayEnded': '回放结束 / END OF REPLAY',
+  'log.startFailed': '初始化失败：网络错误或权限不足。',
+  'log.replayInvalid': '录像文件无效或已损坏。',
+  'log.fileStarted': '正在分析文件：{name}',
+  'log.fileEnded': '文件播放完毕 / END OF FILE',
+  'log.fileFailed': '无法播放该文件。',
+  'log.seek': '跳转到 {time} / SEEK',
+  'log.playReply': '播放语音回答 / Play the spoken reply',
+  'log.stopReply': '停止播放 / Stop',
+  'log.connectionLost': '连接已中断 / CONNECTION LOST',
+  'log.reconnecting': '连接中断，{seconds}s 后重连 ({attempt}/{maxAttempts}) / RECONNECTING',
+  'log.resumed': '连接已恢复，上下文保留 / RESUMED',
+  'log.reconnected': '连接已恢复，已重发近期记录 / RECONNECTED',
+  'log.question': '问题 {id} [{category}]：{text}',
+  'log.calibration': '校准 {step}/{total}：{text}',
+  'log.calibrationDone': '校准完成。基线欺骗率 {mean}% (n={count})。',
+  'log.calibrationDoneVoiceOnly': '校准完成。未收到模型判定，仅记录声学基线。',
+  'log.sourceSwitched': '输入源已切换 / SOURCE SWITCHED',
+  'log.sourceSwitchFailed': '无法切换输入源，沿用当前设备。',
+  'log.noTabAudio': '未共享标签页音频，仅分析画面与麦克风。',
+  'log.sharingStopped': '屏幕共享已停止 / SHARING STOPPED',
+  'log.faceFound': '目标出现 / FACE ACQUIRED',
+  'log.faceLost': '目标丢失 / FACE LOST',
+
+  'video.targetLocked': 'TARGET_LOCKED',
+  'video.noTarget': 'NO_TARGET',
+  'video.stats': '视频 {fps} FPS · {rate} KB/s',
+  'video.statsTitle': '实际发送的画面 / 带宽预算 {budget} KB/s',
+  'video.reconnecting': '链路中断 · 重连中 / LINK LOST · RECONNECTING',
+  'video.archive': 'ARCHIVE // READ-ONLY //',
+  'video.connectionLost': 'CONNECTION LOST',
+  'video.reinitialize': 'PLEASE RE-INITIALIZE SYSTEM',
+  'video.awaiting': 'AWAITING INPUT STREAM',
+
+  'action.disconnect': '中止连接 / DISCONNECT',
+  'action.retry': '重试 / RETRY',
+  'action.initialize': '启动神经连接 / INITIALIZE',
+  'action.closeArchive': '关闭档案 / CLOSE',
+  'action.archive': '档案 / ARCHIVE',
+  'action.archiveTitle': '审讯档案 / SESSION ARCHIVE',
+  'action.recordTitle': '记录本次会话并在中止时下载 / Record session and download on disconnect',
+  'action.plan': '计划 / PLAN',
+  'action.planCount': '计划 {count}',
+  'action.planTitle': '编辑审讯计划 / Edit interview plan',
+  'action.profile': '配置 / PROFILE',
+  'action.profileTitle': '审讯配置：{name} / Interrogator profile',
+  'action.replay': '回放 / REPLAY',
+  'action.replayTitle': '载入录像并离线回放 / Load a recording and replay offline',
+  'action.analyzeFile': '文件 / FILE',
+  'action.analyzeFileTitle': '分析录制的视频或音频文件 / Analyze a recorded video or audio file',
+  'action.fileRate': '文件播放速度 / FILE SPEED',
+
+  'gauge.title': '欺骗概率 / DECEPTION RATE',
+  'gauge.baseline': '基线',
+  'gauge.baselineTitle': '{subject} 的校准基线 / calibrated baseline',
+  'graph.title': '真实度趋势 / VERACITY_GRAPH',
+  'graph.series': '欺骗率',
+  'graph.empty': '暂无数据 / NO DATA',
+  'graph.scrubHint': '拖动查看陈述 / DRAG TO SCRUB STATEMENTS',
+  'cue.title': '线索统计 / CUE FREQUENCY',
+  'cue.open': '线索 / CUES',
+  'cue.openTitle': '各线索出现次数、趋势与推高曲线的线索 / Cue counts, trends and the cues behind each spike',
+  'cue.empty': '暂无判定 / NO VERDICTS YET',
+  'cue.verdicts': '判定 / VERDICTS',
+  'cue.withCues': '含线索 / WITH CUES',
+  'cue.spikes': '峰值 / SPIKES',
+  'cue.cue': '线索 / CUE',
+  'cue.count': '次数 / COUNT',
+  'cue.mean': '平均分 / MEAN',
+  'cue.meanTitle': '提到该线索的判定的平均欺骗率 / Mean deception rate of the verdicts that named the cue',
+  'cue.trend': '趋势 / TREND',
+  'cue.trendTitle': '将会话等分后每段出现的次数 / Count in each equal slice of the session',
+  'cue.spikeList': '峰值（≥{threshold}%）及其线索 / SPIKES (≥{threshold}%) AND THEIR CUES',
+  'cue.noSpikes': '没有达到可疑线的峰值 / NO SPIKES REACHED THE SUSPICIOUS LINE',
+  'cue.unexplained': '未给出线索 / NO CUES GIVEN',
+  'cue.category.vocal': '声音 / VOCAL',
+  'cue.category.verbal': '言语 / VERBAL',
+  'cue.category.facial': '面部 / FACIAL',
+  'cue.category.postural': '姿态 / POSTURAL',
+  'cue.name.vocal.tremor': '声音颤抖',
+  'cue.name.vocal.pitch': '音调异常',
+  'cue.name.vocal.hesitation': '停顿迟疑',
+  'cue.name.vocal.rate': '语速异常',
+  'cue.name.vocal.fatigue': '声音疲惫沙哑',
+  'cue.name.verbal.contradiction': '逻辑矛盾',
+  'cue.name.verbal.implausible': '不合常理',
+  'cue.name.verbal.vagueness': '措辞模糊',
+  'cue.name.verbal.evasion': '回避问题',
+  'cue.name.verbal.overemphasis': '过度强调',
+  'cue.name.facial.gaze': '眼神游离',
+  'cue.name.facial.touch': '触摸面部',
+  'cue.name.facial.tension': '面部紧张',
+  'cue.name.facial.blink': '频繁眨眼',
+  'cue.name.facial.flush': '脸红出汗',
+  'cue.name.postural.defensive': '防御姿态',
+  'cue.name.postural.fidget': '小动作不断',
+  'cue.name.postural.freeze': '身体僵住',
+  'cue.name.other': '其他',
+
+  'session.defaultName': '审讯 {time}',
+
+  'consent.title': '知情同意 / CONSENT',
+  'consent.notice': '本次会话会将受审者的音频和画面发送至第三方 AI 服务进行分析。开始前须告知受审者并取得其同意。',
+  'consent.subject': '受审者姓名 / SUBJECT',
+  'consent.operator': '操作员 / OPERATOR',
+  'consent.relayToken': '中继令牌 / RELAY TOKEN',
+  'consent.relayTokenHint': '本人的中继令牌，仅保存在此浏览器 / Your own relay token, kept in this browser only',
+  'consent.redaction': '本地脱敏 / ON-DEVICE REDACTION',
+  'consent.blurBackground': '模糊背景及其他人脸 / Blur background and other faces',
+  'consent.keywords': '屏蔽关键词（每行一个） / MASKED KEYWORDS',
+  'consent.keywordsPlaceholder': '如：姓名、地址、证件号',
+  'consent.acknowledge': '受审者已被告知其音频和画面将被发送分析，并同意参与。',
+  'consent.recordedAt': '记录时间 {time}',
+  'consent.confirm': '确认并开始 / CONFIRM',
+
+  'source.label': '输入 / SOURCE',
+  'source.camera': '摄像头 / CAMERA',
+  'source.display': '屏幕 / SCREEN',
+  'source.displayTitle': '分析共享的屏幕或标签页（如视频通话） / Analyze a shared screen or tab, e.g. a video call',
+  'source.cameraTitle': '摄像头 / Camera',
+  'source.micTitle': '麦克风 / Microphone',
+  'source.audioTitle': '分析哪路音频 / Audio to analyze',
+  'source.default': '默认设备 / DEFAULT',
+  'source.device': '设备 {n}',
+  'source.audio.tab': '标签页音频 / TAB',
+  'source.audio.mic': '麦克风 / MIC',
+  'source.audio.both': '混合 / TAB + MIC',
+  'turn.label': '话轮 / TURNS',
+  'turn.mode.continuous': '连续 / CONTINUOUS',
+  'turn.mode.push-to-talk': '按键说话 / PUSH-TO-TALK',
+  'turn.mode.manual': '手动分析 / ON DEMAND',
+  'turn.modeTitle.continuous': '麦克风持续发送，模型听到停顿时自行判定 / The mic streams and the model answers when it hears a pause',
+  'turn.modeTitle.push-to-talk': '仅在按住空格或按钮时发送语音，松开即结束本轮 / Speech is sent only while Space or the button is held; releasing ends the turn',
+  'turn.modeTitle.manual': '麦克风持续发送，模型只在操作员点击立即分析时判定 / The mic streams, but the model answers only when the operator presses ANALYZE NOW',
+  'turn.auto': '自动 / AUTO',
+  'turn.muted': '未发送 / MUTED',
+  'turn.talking': '发送中 / TALKING',
+  'turn.listening': '聆听中 / LISTENING',
+  'turn.analyzing': '分析中… / ANALYZING…',
+  'turn.hold': '按住说话 [空格] / HOLD TO TALK [SPACE]',
+  'turn.analyze': '立即分析 [回车] / ANALYZE NOW [ENTER]',
+  'output.label': '输出 / OUTPUT',
+  'output.mode.audio': '语音 / VOICE',
+  'output.mode.text': '文字 / TEXT',
+  'output.modeTitle.audio': '模型以语音回答，并附转写 / The model answers aloud, with a transcript',
+  'output.modeTitle.text': '模型只以文字回答，不播放任何声音 / The model answers in writing only; nothing is played',
+  'output.modeLocked': '下次会话生效 / Applies from the next session',
+  'output.mute': '静音 / Mute',
+  'output.unmute': '取消静音 / Unmute',
+  'output.volumeTitle': '回答音量 / Reply volume',
+  'output.deviceTitle': '扬声器 / Speaker',
+  'output.keep': '保存语音 / KEEP AUDIO',
+  'output.keepTitle': '将模型的语音回答随会话存档 / Save the model\'s spoken replies with the archived session',
+
+  'subject.label': '受审者 / SUBJECT',
+  'subject.placeholder': '未命名 / ANONYMOUS',
+  'subject.baseline': '基线 {mean}%',
+  'subject.baselineTitle': '基线记录于 {time}',
+  'subject.calibrate': '校准 / CALIBRATE',
+  'subject.recalibrate': '重新校准 / RECALIBRATE',
+  'calibration.title': '基线校准 / CALIBRATION',
+  'calibration.done': '完成 / DONE',
+  'readout.title': '声学 vs 基线 / VOICE vs BASELINE',
+  'readout.speechRate': '语速 字/秒',
+
+  'category.control': '对照 / CONTROL',
+  'category.relevant': '相关 / RELEVANT',
+  'category.irrelevant': '无关 / IRRELEVANT',
+
+  'plan.title': '审讯计划 / INTERVIEW_PLAN',
+  'plan.placeholder': '# 每行一个问题，前缀标注类型\nI: 你现在坐着吗？\nC: 你这辈子有没有撒过谎？\nR: 你拿了那笔钱吗？',
+  'plan.empty': '无问题 / FREE-FORM SESSION',
+  'plan.hint': 'C: 对照 · R: 相关 · I: 无关 — 或载入 JSON 数组',
+  'plan.invalid': '计划格式错误 / INVALID PLAN',
+  'plan.invalidFile': '计划文件无效 / INVALID PLAN FILE',
+  'plan.load': '载入 / LOAD',
+  'plan.delta': 'Δ 相关−对照 / R−C',
+
+  'profile.title': '审讯配置 / INTERROGATOR_PROFILES',
+  'profile.copySuffix': '(副本)',
+  'profile.duplicate': '复制 / DUPLICATE',
+  'profile.delete': '删除 / DELETE',
+  'profile.name': '名称 / NAME',
+  'profile.language': '输出语言 / LANGUAGE',
+  'profile.voice': '声音 / VOICE',
+  'profile.model': '模型 / MODEL',
+  'profile.tagFormat': '标签 / TAG FORMAT',
+  'profile.bands': '可疑 ≥ / 谎言 > · BANDS',
+  'profile.prompt': '提示词模板 / PROMPT TEMPLATE',
+  'profile.preview': '预览 / PREVIEW',
+  'profile.activeHint': '★ 为下次会话使用的配置 / ★ = used for the next session',
+  'profile.use': '启用 / USE',
+  'profile.import': '导入 / IMPORT',
+  'profile.export': '导出 / EXPORT',
+  'profile.nameRequired': '名称不能为空 / NAME REQUIRED',
+  'profile.tagNeedsXX': '标签须含 XX / TAG NEEDS XX',
+  'profile.invalidBands': '阈值无效 / INVALID BANDS',
+  'profile.modelVoiceRequired': '模型与声音必填 / MODEL & VOICE REQUIRED',
+  'profile.invalidFile': '配置文件无效 / INVALID PROFILE FILE',
+
+  'archive.title': '审讯档案 / SESSION_ARCHIVE',
+  'archive.search': '搜索名称或记录内容 / SEARCH',
+  'archive.empty': '暂无档案 / NO RECORDS',
+  'archive.unavailable': '档案库不可用 / ARCHIVE UNAVAILABLE',
+  'archive.entries': '{count} 条记录',
+  'archive.rename': '重命名 / RENAME',
+  'archive.open': '查看 / OPEN',
+  'archive.delete': '删除 / DELETE',
+  'archive.confirmDelete': '删除档案 "{name}"？此操作不可撤销。',
+  'action.metrics': '评估 / METRICS',
+  'action.metricsTitle': '标注真值后的准确率与校准 / ACCURACY & CALIBRATION',
+  'label.true': '真 / TRUE',
+  'label.false': '假 / FALSE',
+  'label.unknown': '?',
+  'label.title': '标注该陈述实际真假 / MARK WHAT THE STATEMENT ACTUALLY WAS',
+  'metrics.title': '评估指标 / METRICS',
+  'metrics.empty': '暂无标注。在记录中将受审者的陈述标为真或假。/ NO LABELS YET. MARK STATEMENTS TRUE OR FALSE IN THE LOG.',
+  'metrics.split': '{sessions} 场 · {truthful} 真 · {deceptive} 假 · {unknown} 未知',
+  'metrics.accuracyAt': '准确率 {threshold}',
+  'metrics.accuracyTitle': '在该阈值判为欺骗时与标注一致的比例 / Share of statements where flagging at this score matched the label',
+  'metrics.aucTitle': 'ROC 曲线下面积：0.5 为随机，1 为完美 / Area under the ROC curve: 0.5 is chance, 1 is perfect',
+  'metrics.roc': 'ROC 曲线 / ROC',
+  'metrics.calibration': '校准曲线 / CALIBRATION',
+  'metrics.needBoth': '需要同时有标为真和假的已评分陈述 / NEEDS SCORED STATEMENTS LABELED BOTH TRUE AND FALSE',
+  'metrics.noScores': '没有已评分的标注陈述 / NO SCORED LABELED STATEMENTS',
+  'metrics.observed': '实际为假',
+  'metrics.predicted': '评分 {value}%',
+  'metrics.confusion': '混淆矩阵 / CONFUSION MATRIX',
+  'metrics.actualVsScored': '实际 \\ 评分',
+  'metrics.band.truth': '诚实 / TRUTH',
+  'metrics.band.suspicious': '可疑 / SUSPICIOUS',
+  'metrics.band.deception': '谎言 / DECEPTION',
+
+  'export.title': '导出审讯报告 / Export interrogation report',
+  'export.print': '打印 / 另存为 PDF',
+
+  'common.save': '保存 / SAVE',
+};
+
+export type MessageKey = keyof typeof ZH_CN;
+
+const EN_US: Record<MessageKey, string> = {
+  'app.title': 'NEURAL LIE DETECTOR',
+  'app.locale': 'Interface language',
+
+  'status.label': 'SYSTEM STATUS',
+  'status.standby': 'STANDBY',
+  'status.connecting': 'CONNECTING...',
+  'status.reconnecting': 'RECONNECTING...',
+  'status.calibrating': 'CALIBRATING',
+  'status.monitoring': 'MONITORING',
+  'status.disconnected': 'DISCONNECTED',
+  'status.transmitting': 'TX',
+  'status.transmittingTitle': 'Audio and video are being sent for analysis',
+
+  'verdict.deception': '[ DECEPTION CONFIRMED ]',
+  'verdict.suspicious': '[ HIGHLY SUSPICIOUS ]',
+  'verdict.truth': '[ TRUTHFUL ]',
+  'verdict.standby': '[ STANDBY ]',
+
+  'analysis.standby': 'System on standby...',
+  'analysis.pending': 'Analyzing...',
+
+  'bio.title': 'BIO_METRICS',
+  'bio.bpm': 'HEART RATE / BPM',
+  'bio.noSignal': 'NO SIGNAL',
+  'bio.pulse.ok': 'NORMAL',
+  'bio.pulse.elevated': 'ELEVATED',
+  'bio.pulse.critical': 'CRITICAL',
+  'bio.pulse.warmingUp': 'ACQUIRING',
+  'bio.pulse.noFace': 'NO FACE',
+  'bio.pulse.lowQuality': 'WEAK SIGNAL',
+  'bio.vocalStress': 'VOCAL STRESS',
+  'bio.noSpeech': 'NO SPEECH',
+
+  'log.title': 'LIVE_LOG',
+  'log.empty': 'Awaiting data stream...',
+  'log.subject': 'SUBJECT',
+  'log.system': 'V9_SYSTEM',
+  'log.started': 'System initialized. Listening...',
+  'log.replayStarted': 'Recording loaded. Replaying session...',
+  'log.replayEnded': 'END OF REPLAY',
+  'log.startFailed': 'Initialization failed: network error or missing permissions.',
+  'log.replayInvalid': 'The recording file is invalid or damaged.',
+  'log.fileStarted': 'Analyzing file: {name}',
+  'log.fileEnded': 'END OF FILE',
+  'log.fileFailed': 'This file cannot be played.',
+  'log.seek': 'Jump to {time}',
+  'log.playReply': 'Play the spoken reply',
+  'log.stopReply': 'Stop',
+  'log.connectionLost': 'CONNECTION LOST',
+  'log.reconnecting': 'Connection dropped, reconnecting in {seconds}s ({attempt}/{maxAttempts})',
+  'log.resumed': 'Connection restored, context kept',
+  'log.reconnected': 'Connection restored, recent transcript resent',
+  'log.question': 'Question {id} [{category}]: {text}',
+  'log.calibration': 'Calibration {step}/{total}: {text}',
+  'log.calibrationDone': 'Calibration complete. Baseline deception rate {mean}% (n={count}).',
+  'log.calibrationDoneVoiceOnly': 'Calibration complete. No model verdicts received; voice baseline only.',
+  'log.sourceSwitched': 'Input source switched',
+  'log.sourceSwitchFailed': 'Could not switch input source; keeping the current one.',
+  'log.noTabAudio': 'No tab audio was shared; analyzing picture and microphone only.',
+  'log.sharingStopped': 'SCREEN SHARING STOPPED',
+  'log.faceFound': 'FACE ACQUIRED',
+  'log.faceLost': 'FACE LOST',
+
+  'video.targetLocked': 'TARGET_LOCKED',
+  'video.noTarget': 'NO_TARGET',
+  'video.stats': 'VIDEO {fps} FPS · {rate} KB/s',
+  'video.statsTitle': 'Frames actually sent / budget {budget} KB/s',
+  'video.reconnecting': 'LINK LOST · RECONNECTING',
+  'video.archive': 'ARCHIVE // READ-ONLY //',
+  'video.connectionLost': 'CONNECTION LOST',
+  'video.reinitialize': 'PLEASE RE-INITIALIZE SYSTEM',
+  'video.awaiting': 'AWAITING INPUT STREAM',
+
+  'action.disconnect': 'DISCONNECT',
+  'action.retry': 'RETRY',
+  'action.initialize': 'INITIALIZE NEURAL LINK',
+  'action.closeArchive': 'CLOSE',
+  'action.archive': 'ARCHIVE',
+  'action.archiveTitle': 'Session archive',
+  'action.recordTitle': 'Record session and download on disconnect',
+  'action.plan': 'PLAN',
+  'action.planCount': 'PLAN {count}',
+  'action.planTitle': 'Edit interview plan',
+  'action.profile': 'PROFILE',
+  'action.profileTitle': 'Interrogator profile: {name}',
+  'action.replay': 'REPLAY',
+  'action.replayTitle': 'Load a recording and replay offline',
+  'action.analyzeFile': 'FILE',
+  'action.analyzeFileTitle': 'Analyze a recorded video or audio file',
+  'action.fileRate': 'File playback speed',
+
+  'gauge.title': 'DECEPTION RATE',
+  'gauge.baseline': 'BASE',
+  'gauge.baselineTitle': 'Calibrated baseline for {subject}',
+  'graph.title': 'VERACITY_GRAPH',
+  'graph.series': 'Deception',
+  'graph.empty': 'NO DATA',
+  'graph.scrubHint': 'DRAG TO SCRUB STATEMENTS',
+  'cue.title': 'CUE FREQUENCY',
+  'cue.open': 'CUES',
+  'cue.openTitle': 'Cue counts, trends and the cues behind each spike',
+  'cue.empty': 'NO VERDICTS YET',
+  'cue.verdicts': 'VERDICTS',
+  'cue.withCues': 'WITH CUES',
+  'cue.spikes': 'SPIKES',
+  'cue.cue': 'CUE',
+  'cue.count': 'COUNT',
+  'cue.mean': 'MEAN',
+  'cue.meanTitle': 'Mean deception rate of the verdicts that named the cue',
+  'cue.trend': 'TREND',
+  'cue.trendTitle': 'Count in each equal slice of the session',
+  'cue.spikeList': 'SPIKES (≥{threshold}%) AND THEIR CUES',
+  'cue.noSpikes': 'NO SPIKES REACHED THE SUSPICIOUS LINE',
+  'cue.unexplained': 'NO CUES GIVEN',
+  'cue.category.vocal': 'VOCAL',
+  'cue.category.verbal': 'VERBAL',
+  'cue.category.facial': 'FACIAL',
+  'cue.category.postural': 'POSTURAL',
+  'cue.name.vocal.tremor': 'VOICE TREMOR',
+  'cue.name.vocal.pitch': 'PITCH SHIFT',
+  'cue.name.vocal.hesitation': 'HESITATION',
+  'cue.name.vocal.rate': 'SPEECH RATE',
+  'cue.name.vocal.fatigue': 'FATIGUED VOICE',
+  'cue.name.verbal.contradiction': 'CONTRADICTION',
+  'cue.name.verbal.implausible': 'IMPLAUSIBLE',
+  'cue.name.verbal.vagueness': 'VAGUENESS',
+  'cue.name.verbal.evasion': 'EVASION',
+  'cue.name.verbal.overemphasis': 'OVEREMPHASIS',
+  'cue.name.facial.gaze': 'GAZE AVERSION',
+  'cue.name.facial.touch': 'FACE TOUCHING',
+  'cue.name.facial.tension': 'FACIAL TENSION',
+  'cue.name.facial.blink': 'BLINKING',
+  'cue.name.facial.flush': 'FLUSHING / SWEATING',
+  'cue.name.postural.defensive': 'DEFENSIVE POSTURE',
+  'cue.name.postural.fidget': 'FIDGETING',
+  'cue.name.postural.freeze': 'FREEZING',
+  'cue.name.other': 'OTHER',
+
+  'session.defaultName': 'Interrogation {time}',
+
+  'consent.title': 'CONSENT',
+  'consent.notice': 'This session sends the subject’s audio and video to a third-party AI service for analysis. Inform the subject and obtain their agreement before starting.',
+  'consent.subject': 'SUBJECT NAME',
+  'consent.operator': 'OPERATOR',
+  'consent.relayToken': 'RELAY TOKEN',
+  'consent.relayTokenHint': 'Your own relay token, kept in this browser only',
+  'consent.redaction': 'ON-DEVICE REDACTION',
+  'consent.blurBackground': 'Blur background and other faces',
+  'consent.keywords': 'MASKED KEYWORDS (one per line)',
+  'consent.keywordsPlaceholder': 'e.g. names, addresses, ID numbers',
+  'consent.acknowledge': 'The subject has been told their audio and video will be sent for analysis and agrees to take part.',
+  'consent.recordedAt': 'Recorded {time}',
+  'consent.confirm': 'CONFIRM & START',
+
+  'source.label': 'SOURCE',
+  'source.camera': 'CAMERA',
+  'source.display': 'SCREEN',
+  'source.displayTitle': 'Analyze a shared screen or tab, e.g. a video call',
+  'source.cameraTitle': 'Camera',
+  'source.micTitle': 'Microphone',
+  'source.audioTitle': 'Audio to analyze',
+  'source.default': 'DEFAULT',
+  'source.device': 'Device {n}',
+  'source.audio.tab': 'TAB',
+  'source.audio.mic': 'MIC',
+  'source.audio.both': 'TAB + MIC',
+  'turn.label': 'TURNS',
+  'turn.mode.continuous': 'CONTINUOUS',
+  'turn.mode.push-to-talk': 'PUSH-TO-TALK',
+  'turn.mode.manual': 'ON DEMAND',
+  'turn.modeTitle.continuous': 'The mic streams and the model answers when it hears a pause',
+  'turn.modeTitle.push-to-talk': 'Speech is sent only while Space or the button is held; releasing ends the turn',
+  'turn.modeTitle.manual': 'The mic streams, but the model answers only when the operator presses ANALYZE NOW',
+  'turn.auto': 'AUTO',
+  'turn.muted': 'MUTED',
+  'turn.talking': 'TALKING',
+  'turn.listening': 'LISTENING',
+  'turn.analyzing': 'ANALYZING…',
+  'turn.hold': 'HOLD TO TALK [SPACE]',
+  'turn.analyze': 'ANALYZE NOW [ENTER]',
+  'output.label': 'OUTPUT',
+  'output.mode.audio': 'VOICE',
+  'output.mode.text': 'TEXT',
+  'output.modeTitle.audio': 'The model answers aloud, with a transcript',
+  'output.modeTitle.text': 'The model answers in writing only; nothing is played',
+  'output.modeLocked': 'Applies from the next session',
+  'output.mute': 'Mute',
+  'output.unmute': 'Unmute',
+  'output.volumeTitle': 'Reply volume',
+  'output.deviceTitle': 'Speaker',
+  'output.keep': 'KEEP AUDIO',
+  'output.keepTitle': 'Save the model\'s spoken replies with the archived session',
+
+  'subject.label': 'SUBJECT',
+  'subject.placeholder': 'ANONYMOUS',
+  'subject.baseline': 'BASE {mean}%',
+  'subject.baselineTitle': 'Baseline recorded {time}',
+  'subject.calibrate': 'CALIBRATE',
+  'subject.recalibrate': 'RECALIBRATE',
+  'calibration.title': 'CALIBRATION',
+  'calibration.done': 'DONE',
+  'readout.title': 'VOICE vs BASELINE',
+  'readout.speechRate': 'RATE char/s',
+
+  'category.control': 'CONTROL',
+  'category.relevant': 'RELEVANT',
+  'category.irrelevant': 'IRRELEVANT',
+
+  'plan.title': 'INTERVIEW_PLAN',
+  'plan.placeholder': '# One question per line, prefixed with its category\nI: Are you sitting down?\nC: Have you ever told a lie?\nR: Did you take the money?',
+  'plan.empty': 'FREE-FORM SESSION',
+  'plan.hint': 'C: control · R: relevant · I: irrelevant — or load a JSON array',
+  'plan.invalid': 'INVALID PLAN',
+  'plan.invalidFile': 'INVALID PLAN FILE',
+  'plan.load': 'LOAD',
+  'plan.delta': 'Δ R−C',
+
+  'profile.title': 'INTERROGATOR_PROFILES',
+  'profile.copySuffix': '(copy)',
+  'profile.duplicate': 'DUPLICATE',
+  'profile.delete': 'DELETE',
+  'profile.name': 'NAME',
+  'profile.language': 'OUTPUT LANGUAGE',
+  'profile.voice': 'VOICE',
+  'profile.model': 'MODEL',
+  'profile.tagFormat': 'TAG FORMAT',
+  'profile.bands': 'SUSPICIOUS ≥ / DECEPTIVE > · BANDS',
+  'profile.prompt': 'PROMPT TEMPLATE',
+  'profile.preview': 'PREVIEW',
+  'profile.activeHint': '★ = used for the next session',
+  'profile.use': 'USE',
+  'profile.import': 'IMPORT',
+  'profile.export': 'EXPORT',
+  'profile.nameRequired': 'NAME REQUIRED',
+  'profile.tagNeedsXX': 'TAG NEEDS XX',
+  'profile.invalidBands': 'INVALID BANDS',
+  'profile.modelVoiceRequired': 'MODEL & VOICE REQUIRED',
+  'profile.invalidFile': 'INVALID PROFILE FILE',
+
+  'archive.title': 'SESSION_ARCHIVE',
+  'archive.search': 'Search names or transcripts',
+  'archive.empty': 'NO RECORDS',
+  'archive.unavailable': 'ARCHIVE UNAVAILABLE',
+  'archive.entries': '{count} entries',
+  'archive.rename': 'Rename',
+  'archive.open': 'Open',
+  'archive.delete': 'Delete',
+  'archive.confirmDelete': 'Delete the record "{name}"? This cannot be undone.',
+  'action.metrics': 'METRICS',
+  'action.metricsTitle': 'Accuracy and calibration against labeled statements',
+  'label.true': 'TRUE',
+  'label.false': 'FALSE',
+  'label.unknown': '?',
+  'label.title': 'Mark what the statement actually was',
+  'metrics.title': 'METRICS',
+  'metrics.empty': 'NO LABELS YET. MARK STATEMENTS TRUE OR FALSE IN THE LOG.',
+  'metrics.split': '{sessions} sessions · {truthful} true · {deceptive} false · {unknown} unknown',
+  'metrics.accuracyAt': 'ACCURACY {threshold}',
+  'metrics.accuracyTitle': 'Share of statements where flagging at this score matched the label',
+  'metrics.aucTitle': 'Area under the ROC curve: 0.5 is chance, 1 is perfect',
+  'metrics.roc': 'ROC',
+  'metrics.calibration': 'CALIBRATION',
+  'metrics.needBoth': 'NEEDS SCORED STATEMENTS LABELED BOTH TRUE AND FALSE',
+  'metrics.noScores': 'NO SCORED LABELED STATEMENTS',
+  'metrics.observed': 'Actually false',
+  'metrics.predicted': 'Scored {value}%',
+  'metrics.confusion': 'CONFUSION MATRIX',
+  'metrics.actualVsScored': 'ACTUAL \\ SCORED',
+  'metrics.band.truth': 'TRUTH',
+  'metrics.band.suspicious': 'SUSPICIOUS',
+  'metrics.band.deception': 'DECEPTION',
+
+  'export.title': 'Export interrogation report',
+  'export.print': 'Print / save as PDF',
+
+  'common.save': 'SAVE',
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { 'zh-CN': ZH_CN, 'en-US': EN_US };
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+/** `t` for one locale. `{name}` placeholders are filled from params; unknown ones are left as is. */
+export function translator(locale: Locale): Translate {
+  const catalog = CATALOGS[locale];
+  return (key, params) => {
+    const message = catalog[key];
+    return params ? message.replace(/\{(\w+)\}/g, (whole, name) => (name in params ? String(params[name]) : whole)) : message;
+  };
+}
+
+export const formatTime = (ms: number, locale: Locale) => new Date(ms).toLocaleTimeString(locale, { hourCycle: 'h23' });
+
+export const formatDateTime = (ms: number, locale: Locale) => new Date(ms).toLocaleString(locale, { hourCycle: 'h23' });
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.id === value);
+
+/** The saved choice, else the browser's first Chinese or English preference, else zh-CN. */
+export function loadLocale(): Locale {
+  const saved = localStorage.getItem(LOCALE_KEY);
+  if (isLocale(saved)) return saved;
+  const preferred = (navigator.languages ?? [navigator.language]).find(lang => /^(zh|en)\b/i.test(lang));
+  return preferred && /^en/i.test(preferred) ? 'en-US' : 'zh-CN';
+}
+
+export function saveLocale(locale: Locale) {
+  localStorage.setItem(LOCALE_KEY, locale);
+}
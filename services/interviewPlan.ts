@@ -0,0 +1,113 @@
+import { InterviewQuestion, QuestionCategory, Verdict } from '../types';
+
+const STORAGE_KEY = 'veritas-interview-plan';
+
+export const CATEGORY_LABELS: Record<QuestionCategory, string> = {
+  control: '对照 / CONTROL',
+  relevant: '相关 / RELEVANT',
+  irrelevant: '无关 / IRRELEVANT',
+};
+
+const CATEGORY_PREFIXES: Record<string, QuestionCategory> = {
+  c: 'control',
+  control: 'control',
+  对照: 'control',
+  r: 'relevant',
+  relevant: 'relevant',
+  相关: 'relevant',
+  i: 'irrelevant',
+  irrelevant: 'irrelevant',
+  无关: 'irrelevant',
+};
+
+const isCategory = (value: unknown): value is QuestionCategory =>
+  value === 'control' || value === 'relevant' || value === 'irrelevant';
+
+/**
+ * Read a plan either as JSON (an array of `{ text, category, id? }`) or as
+ * plain text, one question per line with a category prefix:
+ *
+ *   C: 你今天早上吃早饭了吗？
+ *   R: 你拿了那笔钱吗？
+ *   I: 现在是白天吗？
+ *
+ * Unprefixed lines count as relevant; blank lines and `#` comments are skipped.
+ */
+export function parsePlan(text: string): InterviewQuestion[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  if (trimmed.startsWith('[')) {
+    const data = JSON.parse(trimmed);
+    if (!Array.isArray(data)) throw new Error('Plan JSON must be an array');
+    return data
+      .filter(item => item && typeof item.text === 'string' && item.text.trim())
+      .map((item, index) => ({
+        id: typeof item.id === 'string' && item.id ? item.id : `Q${index + 1}`,
+        text: item.text.trim(),
+        category: isCategory(item.category) ? item.category : 'relevant',
+      }));
+  }
+
+  return trimmed
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map((line, index) => {
+      const match = line.match(/^\[?([a-zA-Z]+|对照|相关|无关)\]?\s*[:：]\s*(.+)$/);
+      const category = match && CATEGORY_PREFIXES[match[1].toLowerCase()];
+      return {
+        id: `Q${index + 1}`,
+        text: category ? match![2].trim() : line,
+        category: category || 'relevant',
+      };
+    });
+}
+
+export function serializePlan(questions: InterviewQuestion[]): string {
+  return questions.map(q => `${q.category[0].toUpperCase()}: ${q.text}`).join('\n');
+}
+
+export function loadSavedPlan(): InterviewQuestion[] {
+  try {
+    return parsePlan(localStorage.getItem(STORAGE_KEY) || '');
+  } catch {
+    return [];
+  }
+}
+
+export function savePlan(questions: InterviewQuestion[]) {
+  localStorage.setItem(STORAGE_KEY, serializePlan(questions));
+}
+
+/** The context line sent to the model when the operator moves to a question. */
+export function describeQuestion(question: InterviewQuestion): string {
+  return `[当前问题 ${question.id} · ${CATEGORY_LABELS[question.category]}] ${question.text}\n` +
+    `接下来目标的回答针对此问题。调用 report_verdict 时以此问题为准。`;
+}
+
+export interface CategoryScore {
+  count: number;
+  mean: number | null;
+}
+
+export function scoreByCategory(questions: InterviewQuestion[], verdicts: Verdict[]): Record<QuestionCategory, CategoryScore> {
+  const categoryOf = new Map(questions.map(q => [q.id, q.category]));
+  const buckets: Record<QuestionCategory, number[]> = { control: [], relevant: [], irrelevant: [] };
+
+  for (const verdict of verdicts) {
+    const category = verdict.questionId && categoryOf.get(verdict.questionId);
+    if (category) buckets[category].push(verdict.probability);
+  }
+
+  const score = (values: number[]): CategoryScore => ({
+    count: values.length,
+    mean: values.length ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : null,
+  });
+
+  return {
+    control: score(buckets.control),
+    relevant: score(buckets.relevant),
+    irrelevant: score(buckets.irrelevant),
+  };
+}
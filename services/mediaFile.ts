@@ -0,0 +1,39 @@
+// Local video/audio files played through the capture pipeline in place of the camera.
+
+export const FILE_PLAYBACK_RATES = [1, 1.5, 2];
+
+/** Seconds into a file as m:ss, e.g. 83.4 → '1:23'. */
+export const formatMediaTime = (seconds: number) => {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Play `file` in the video element and return a live stream of what it
+ * plays, for the backend to capture like a camera. Above 1× the audio is
+ * time-compressed (pitch kept), so the model hears faster speech.
+ */
+export async function playMediaFile(video: HTMLVideoElement, file: File, playbackRate = 1): Promise<MediaStream> {
+  const element = video as HTMLVideoElement & { captureStream?: () => MediaStream; mozCaptureStream?: () => MediaStream };
+  const capture = element.captureStream ?? element.mozCaptureStream;
+  if (!capture) throw new Error('This browser cannot capture a media element');
+
+  closeMediaFile(video);
+  // Loading resets playbackRate to the default, so set both
+  video.defaultPlaybackRate = playbackRate;
+  video.playbackRate = playbackRate;
+  video.src = URL.createObjectURL(file);
+  await video.play();
+  return capture.call(video);
+}
+
+/** Stop and unload a file started by `playMediaFile`. No-op for camera streams. */
+export function closeMediaFile(video: HTMLVideoElement) {
+  if (!video.src.startsWith('blob:')) return;
+  video.pause();
+  URL.revokeObjectURL(video.src);
+  video.removeAttribute('src');
+  video.load();
+  video.defaultPlaybackRate = 1;
+  video.playbackRate = 1;
+}
@@ -0,0 +1,96 @@
+// Where live sessions get their picture and sound: a chosen camera and mic,
+// or a shared screen/tab (e.g. a video call) with its audio, the mic, or both.
+
+const STORAGE_KEY = 'veritas-media-source';
+
+export type SourceMode = 'camera' | 'display';
+
+/** Which audio to analyze while sharing a screen: the shared tab's, the operator's mic, or both mixed. */
+export type DisplayAudio = 'tab' | 'mic' | 'both';
+
+export interface SourceSelection {
+  mode: SourceMode;
+  /** deviceIds; empty means the browser default. */
+  cameraId: string;
+  micId: string;
+  displayAudio: DisplayAudio;
+}
+
+export const DEFAULT_SOURCE: SourceSelection = { mode: 'camera', cameraId: '', micId: '', displayAudio: 'tab' };
+
+export interface InputDevices {
+  cameras: MediaDeviceInfo[];
+  mics: MediaDeviceInfo[];
+}
+
+/** Labels stay empty until the page has been granted camera/mic access once. */
+export async function listInputDevices(): Promise<InputDevices> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    cameras: devices.filter(d => d.kind === 'videoinput'),
+    mics: devices.filter(d => d.kind === 'audioinput'),
+  };
+}
+
+export interface OpenedSource {
+  /** One video track and one audio track, ready for the capture pipeline. */
+  stream: MediaStream;
+  /** True when tab audio was asked for but the operator didn't share any. */
+  missingTabAudio: boolean;
+  /** Stop every underlying track and release the mixer. */
+  stop(): void;
+}
+
+const deviceConstraint = (deviceId: string): MediaTrackConstraints | true =>
+  deviceId ? { deviceId: { exact: deviceId } } : true;
+
+export async function openSource(selection: SourceSelection): Promise<OpenedSource> {
+  if (selection.mode === 'camera') {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: deviceConstraint(selection.cameraId),
+      audio: deviceConstraint(selection.micId),
+    });
+    return { stream, missingTabAudio: false, stop: () => stream.getTracks().forEach(track => track.stop()) };
+  }
+
+  const wantsTab = selection.displayAudio !== 'mic';
+  const wantsMic = selection.displayAudio !== 'tab';
+  const display = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: wantsTab });
+  let mic: MediaStream | null = null;
+  try {
+    if (wantsMic) mic = await navigator.mediaDevices.getUserMedia({ audio: deviceConstraint(selection.micId) });
+  } catch (e) {
+    display.getTracks().forEach(track => track.stop());
+    throw e;
+  }
+
+  // Always go through a mixer so the result has exactly one audio track, silent if nothing was shared
+  const mixer = new AudioContext();
+  const output = mixer.createMediaStreamDestination();
+  const inputs = [display, mic].filter((s): s is MediaStream => !!s && s.getAudioTracks().length > 0);
+  inputs.forEach(input => mixer.createMediaStreamSource(input).connect(output));
+
+  const stream = new MediaStream([...display.getVideoTracks(), ...output.stream.getAudioTracks()]);
+  return {
+    stream,
+    missingTabAudio: wantsTab && display.getAudioTracks().length === 0,
+    stop: () => {
+      display.getTracks().forEach(track => track.stop());
+      mic?.getTracks().forEach(track => track.stop());
+      output.stream.getTracks().forEach(track => track.stop());
+      mixer.close();
+    },
+  };
+}
+
+export function loadSourceSelection(): SourceSelection {
+  try {
+    return { ...DEFAULT_SOURCE, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_SOURCE;
+  }
+}
+
+export function saveSourceSelection(selection: SourceSelection) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(selection));
+}
@@ -0,0 +1,160 @@
+import { ArchivedSession, GroundTruth, VerdictBands } from '../types';
+import { DEFAULT_PROFILE } from './profiles';
+import { ProbabilityBand, matchStatements, probabilityBand } from './reportExport';
+
+/** A scored statement with a known answer: `deceptive` when the operator marked it false. */
+export interface LabeledScore {
+  probability: number;
+  deceptive: boolean;
+}
+
+export interface RocPoint {
+  threshold: number;
+  fpr: number;
+  tpr: number;
+}
+
+export interface CalibrationBin {
+  /** Lower edge of the bin, 0-90. */
+  from: number;
+  count: number;
+  meanPredicted: number;
+  /** Share of the bin's statements marked false, 0-100. */
+  observed: number;
+}
+
+/** Rows are the operator's label, columns the band the score fell in. */
+export type ConfusionMatrix = Record<'true' | 'false', Record<ProbabilityBand, number>>;
+
+export interface ScoreMetrics {
+  /** Deceptive predicted at `suspicious` and above, and above `deception`; null with nothing labeled. */
+  accuracyAtSuspicious: number | null;
+  accuracyAtDeception: number | null;
+  roc: RocPoint[];
+  /** Null until both true and false statements are labeled. */
+  auc: number | null;
+  calibration: CalibrationBin[];
+  confusion: ConfusionMatrix;
+}
+
+export interface ProfileMetrics extends ScoreMetrics {
+  profile: string;
+  bands: VerdictBands;
+  sessionCount: number;
+  /** Scored statements marked true or false; unknown and unscored ones are left out. */
+  scores: LabeledScore[];
+  unknownCount: number;
+}
+
+const CALIBRATION_BINS = 10;
+
+/** Pair each labeled statement of a session with the score its verdict gave. */
+export function labeledScores(session: ArchivedSession): { scores: LabeledScore[]; unknownCount: number } {
+  const labels = session.labels ?? {};
+  const bands = session.profile?.bands;
+  let unknownCount = 0;
+  const scores: LabeledScore[] = [];
+  for (const statement of matchStatements(session.logs, session.verdicts, bands)) {
+    const label: GroundTruth | undefined = labels[statement.id];
+    if (!label) continue;
+    if (label === 'unknown') unknownCount++;
+    else if (statement.probability !== null) scores.push({ probability: statement.probability, deceptive: label === 'false' });
+  }
+  return { scores, unknownCount };
+}
+
+const accuracy = (scores: LabeledScore[], flagged: (probability: number) => boolean) =>
+  scores.length === 0 ? null : scores.filter(s => flagged(s.probability) === s.deceptive).length / scores.length;
+
+/** ROC over every distinct score as a threshold (deceptive when score ≥ threshold), from (0,0) to (1,1). */
+export function rocCurve(scores: LabeledScore[]): RocPoint[] {
+  const positives = scores.filter(s => s.deceptive).length;
+  const negatives = scores.length - positives;
+  if (positives === 0 || negatives === 0) return [];
+
+  const thresholds = [...new Set(scores.map(s => s.probability))].sort((a, b) => b - a);
+  const points: RocPoint[] = [{ threshold: Infinity, fpr: 0, tpr: 0 }];
+  for (const threshold of thresholds) {
+    const flagged = scores.filter(s => s.probability >= threshold);
+    points.push({
+      threshold,
+      fpr: flagged.filter(s => !s.deceptive).length / negatives,
+      tpr: flagged.filter(s => s.deceptive).length / positives,
+    });
+  }
+  return points;
+}
+
+/** Area under the ROC curve by the trapezoid rule; ties count half, as in the Mann-Whitney U. */
+export const rocAuc = (roc: RocPoint[]): number | null =>
+  roc.length < 2 ? null : roc.slice(1).reduce((area, p, i) => area + (p.fpr - roc[i].fpr) * (p.tpr + roc[i].tpr) / 2, 0);
+
+/** Reliability curve: scores in ten-point bins against how often the statements in each were actually false. */
+export function calibrationCurve(scores: LabeledScore[]): CalibrationBin[] {
+  const bins: CalibrationBin[] = [];
+  for (let i = 0; i < CALIBRATION_BINS; i++) {
+    const from = i * 100 / CALIBRATION_BINS;
+    const inBin = scores.filter(s => Math.min(CALIBRATION_BINS - 1, Math.floor(s.probability / (100 / CALIBRATION_BINS))) === i);
+    if (inBin.length === 0) continue;
+    bins.push({
+      from,
+      count: inBin.length,
+      meanPredicted: inBin.reduce((sum, s) => sum + s.probability, 0) / inBin.length,
+      observed: inBin.filter(s => s.deceptive).length / inBin.length * 100,
+    });
+  }
+  return bins;
+}
+
+export function confusionMatrix(scores: LabeledScore[], bands: VerdictBands): ConfusionMatrix {
+  const matrix: ConfusionMatrix = {
+    true: { truth: 0, suspicious: 0, deception: 0 },
+    false: { truth: 0, suspicious: 0, deception: 0 },
+  };
+  scores.forEach(s => matrix[s.deceptive ? 'false' : 'true'][probabilityBand(s.probability, bands)]++);
+  return matrix;
+}
+
+/** Everything on the metrics page for one set of labeled scores, classified with `bands`. */
+export function scoreMetrics(scores: LabeledScore[], bands: VerdictBands): ScoreMetrics {
+  const roc = rocCurve(scores);
+  return {
+    accuracyAtSuspicious: accuracy(scores, p => p >= bands.suspicious),
+    accuracyAtDeception: accuracy(scores, p => p > bands.deception),
+    roc,
+    auc: rocAuc(roc),
+    calibration: calibrationCurve(scores),
+    confusion: confusionMatrix(scores, bands),
+  };
+}
+
+export function profileMetrics(profile: string, bands: VerdictBands, sessions: ArchivedSession[]): ProfileMetrics {
+  const scores: LabeledScore[] = [];
+  let unknownCount = 0;
+  sessions.forEach(session => {
+    const labeled = labeledScores(session);
+    scores.push(...labeled.scores);
+    unknownCount += labeled.unknownCount;
+  });
+  return { ...scoreMetrics(scores, bands), profile, bands, sessionCount: sessions.length, scores, unknownCount };
+}
+
+/**
+ * Metrics for every interrogator profile that has labeled sessions, keyed by
+ * profile name (sessions from before profiles used the built-in one). Each
+ * profile is scored with its own bands as they stand in its latest session.
+ */
+export function metricsByProfile(sessions: ArchivedSession[]): ProfileMetrics[] {
+  const groups = new Map<string, ArchivedSession[]>();
+  sessions
+    .filter(session => Object.keys(session.labels ?? {}).length > 0)
+    .forEach(session => {
+      const name = (session.profile ?? DEFAULT_PROFILE).name;
+      groups.set(name, [...(groups.get(name) ?? []), session]);
+    });
+
+  return [...groups.entries()].map(([name, group]) => {
+    const latest = group.reduce((a, b) => (b.startedAt > a.startedAt ? b : a));
+    return profileMetrics(name, (latest.profile ?? DEFAULT_PROFILE).bands, group);
+  });
+}
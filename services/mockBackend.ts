@@ -0,0 +1,71 @@
+import { FunctionResponse } from '@google/genai';
+import { LiveMessageBackend } from './analysisBackend';
+import { DEFAULT_MOCK_SCRIPT, ScriptedEvent, scriptedMessage } from './mockScript';
+import { PcmBlob } from './audioUtils';
+import { ActivitySignal } from './turnMode';
+
+/**
+ * Offline stand-in for the Gemini session. Local capture still runs so the MIC
+ * meter works, but nothing is sent anywhere; the "model" is a scripted list of
+ * server messages replayed on a timer through the same message handler.
+ */
+export class MockBackend extends LiveMessageBackend {
+  public readonly name = 'mock';
+  protected readonly sendsRemotely = false;
+  private timer: number | null = null;
+  private cursor = 0;
+
+  constructor(private script: ScriptedEvent[] = DEFAULT_MOCK_SCRIPT, private loop = true) {
+    super();
+  }
+
+  public async connect(
+    stream: MediaStream,
+    videoElement: HTMLVideoElement,
+    canvasElement: HTMLCanvasElement
+  ): Promise<void> {
+    await this.openAudioContexts();
+    await this.startAudioStream(stream);
+    this.startVideoStream(videoElement, canvasElement);
+
+    this.cursor = 0;
+    this.scheduleNext();
+  }
+
+  protected sendRealtimeInput(_media: PcmBlob) {
+    // Nobody is listening
+  }
+
+  protected sendToolResponse(_responses: FunctionResponse[]) {
+    // The script does not wait for answers
+  }
+
+  protected sendContext(_text: string) {
+    // Scripted answers ignore the plan
+  }
+
+  protected sendActivity(_signal: ActivitySignal) {
+    // The script keeps its own timing
+  }
+
+  private scheduleNext() {
+    if (this.cursor >= this.script.length) {
+      if (!this.loop || this.script.length === 0) return;
+      this.cursor = 0;
+    }
+
+    const event = this.script[this.cursor++];
+    this.timer = window.setTimeout(async () => {
+      await this.handleServerMessage(scriptedMessage(event));
+      if (this.timer !== null) this.scheduleNext();
+    }, event.delayMs);
+  }
+
+  public async disconnect() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.releaseMedia();
+  }
+}
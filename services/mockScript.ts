@@ -0,0 +1,79 @@
+import { LiveServerMessage } from '@google/genai';
+
+export interface ScriptedEvent {
+  /** Delay before this event, measured from the previous one. */
+  delayMs: number;
+  /** A function is called on every emission, for messages that must differ between loops. */
+  message: LiveServerMessage | (() => LiveServerMessage);
+}
+
+/** The message to emit for an event, built now if it is built per emission. */
+export const scriptedMessage = (event: ScriptedEvent): LiveServerMessage =>
+  typeof event.message === 'function' ? event.message() : event.message;
+
+// LiveServerMessage is a class with getters; the wire format is a plain object
+const msg = (serverContent: LiveServerMessage['serverContent']): LiveServerMessage =>
+  ({ serverContent } as LiveServerMessage);
+
+const said = (text: string, delayMs = 400): ScriptedEvent =>
+  ({ delayMs, message: msg({ inputTranscription: { text } }) });
+
+const replied = (text: string, delayMs = 250): ScriptedEvent =>
+  ({ delayMs, message: msg({ outputTranscription: { text } }) });
+
+const verdict = (args: Record<string, unknown>, delayMs = 150): ScriptedEvent => ({
+  delayMs,
+  // A fresh call ID per emission, so a looping script never repeats (and overwrites) a verdict
+  message: () => ({
+    toolCall: { functionCalls: [{ id: Math.random().toString(36).substr(2, 9), name: 'report_verdict', args }] },
+  } as LiveServerMessage),
+});
+
+const turnComplete = (delayMs = 300): ScriptedEvent =>
+  ({ delayMs, message: msg({ turnComplete: true }) });
+
+const interrupted = (delayMs = 100): ScriptedEvent =>
+  ({ delayMs, message: msg({ interrupted: true }) });
+
+/**
+ * A short canned interrogation that exercises the log-merging and tag-parsing
+ * paths: fragmented transcripts, tags split across fragments, a full-width
+ * colon, an interruption mid-answer and explicit turn boundaries. The tail end
+ * switches to report_verdict calls, including one whose spoken tag is mangled.
+ */
+export const DEFAULT_MOCK_SCRIPT: ScriptedEvent[] = [
+  said('我叫李明，', 1500),
+  said('今年三十岁。'),
+  replied('[欺骗率:12%] '),
+  replied('语气平稳，'),
+  replied('无明显异常。'),
+  turnComplete(),
+
+  said('我今天早上六点', 2000),
+  said('就起床跑步了。'),
+  replied('[欺骗'),
+  replied('率：63%] 你的声音'),
+  replied('听起来很困，'),
+  replied('与所述不符。'),
+  turnComplete(),
+
+  said('我从来没有去过那家店。', 2500),
+  replied('[欺骗率:88%] 你在回答时'),
+  replied('触摸了面部，'),
+  said('不，我真的——', 300),
+  interrupted(),
+  replied('[欺骗率:91%] 防御性反应。', 600),
+  turnComplete(),
+
+  said('好吧，我去过一次。', 2500),
+  replied('[欺骗率:30%] 承认事实，'),
+  replied('声调恢复正常。'),
+  verdict({ probability: 30, cues: [], rationale: '承认事实，声调恢复正常。', utterance: '好吧，我去过一次。' }),
+  turnComplete(),
+
+  said('那天我一直待在家里。', 2500),
+  replied('[欺骗律 45] 你在'),
+  replied('回避眼神接触。'),
+  verdict({ probability: 72, cues: ['眼神游离', '回避'], rationale: '你在回避眼神接触。', utterance: '那天我一直待在家里。' }),
+  turnComplete(),
+];
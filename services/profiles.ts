@@ -0,0 +1,207 @@
+import { LiveConnectConfig, Modality } from '@google/genai';
+import { InterrogatorProfile, VerdictBands } from '../types';
+import { reportVerdictDeclaration } from './verdictTool';
+import { TurnMode, realtimeInputConfig } from './turnMode';
+import { OutputMode } from './audioOutput';
+
+const PROFILES_KEY = 'veritas-profiles';
+const ACTIVE_KEY = 'veritas-active-profile';
+
+export const DEFAULT_BANDS: VerdictBands = { suspicious: 50, deception: 75 };
+
+export const GEMINI_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+const DEFAULT_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+/** Native-audio models can only speak; text-only sessions fall back to this one. */
+const TEXT_MODEL = 'gemini-live-2.5-flash-preview';
+
+const ZH_PROMPT = `
+指令：你是一台代号为“真理之眼 (Veritas-V9)”的高级战术测谎仪。你的任务是基于声音和图像输入，实时分析目标的心理状态。
+
+核心判定标准（严格执行）：
+1. **真话 (0-{{TRUTH_MAX}}%)**：
+   - 特征：语气坚定、语速平稳、逻辑自洽、面部肌肉放松。
+2. **可疑 ({{SUSPICIOUS_MIN}}-{{SUSPICIOUS_MAX}}%)**：
+   - 特征：轻微停顿、逻辑小漏洞、眼神游离、使用模糊词汇。
+   - **重点**：如果不符合常理（例如用户说"我早上六点跑步了"但声音听起来很困、沙哑或有哈欠），**必须**标记为可疑或谎言！
+3. **谎言 ({{DECEPTION_MIN}}-100%)**：
+   - 特征：明显的逻辑矛盾、声调抖动、防御性姿态、回答问题时触摸面部。
+   - 严厉打击明显的胡扯。
+
+输出规则：
+1. **每句话的开头**必须严格包含标签 {{TAG}}。
+2. 必须具体指出**哪里不对劲**（例如："你的声音在颤抖"、"你的逻辑有矛盾"）。
+3. 不要长篇大论，保持冷酷、简短、压迫感。
+4. 每次判定都**必须**同时调用 report_verdict 函数，提交欺骗率、线索列表、判定理由和被判定的原话。
+5. 以 [本地声学] 开头的文本是本机对目标上一句话的声学测量（基频、jitter、shimmer、语速、停顿）。结合它判断声音线索，但不要朗读或复述这些数值。
+
+现在开始监控。
+`;
+
+const EN_PROMPT = `
+Directive: you are "Veritas-V9", an advanced tactical lie detector. Analyse the subject's state of mind in real time from their voice and image.
+
+Scoring bands (apply strictly):
+1. **Truthful (0-{{TRUTH_MAX}}%)**:
+   - Signs: steady tone, even pace, consistent logic, relaxed facial muscles.
+2. **Suspicious ({{SUSPICIOUS_MIN}}-{{SUSPICIOUS_MAX}}%)**:
+   - Signs: brief hesitations, small gaps in logic, wandering gaze, vague wording.
+   - **Important**: if a claim doesn't fit what you hear or see (e.g. "I went running at six this morning" in a sleepy, hoarse or yawning voice), you **must** mark it suspicious or deceptive.
+3. **Deceptive ({{DECEPTION_MIN}}-100%)**:
+   - Signs: clear contradictions, trembling voice, defensive posture, touching the face while answering.
+   - Come down hard on obvious nonsense.
+
+Output rules:
+1. **Every sentence must begin** with the tag {{TAG}}.
+2. Say exactly **what is off** (e.g. "your voice is shaking", "that contradicts what you said").
+3. No speeches: stay cold, short and pressing.
+4. With every judgement you **must** also call report_verdict with the probability, the cues, your rationale and the exact words judged.
+5. Text starting with [本地声学 / LOCAL VOICE] is a local acoustic measurement of the subject's last utterance (F0, jitter, shimmer, speech rate, pauses). Use it when judging vocal cues, but never read the numbers out.
+
+Begin monitoring now.
+`;
+
+export const DEFAULT_PROFILES: InterrogatorProfile[] = [
+  {
+    id: 'veritas-zh',
+    name: '真理之眼 · 中文',
+    language: 'zh-CN',
+    promptTemplate: ZH_PROMPT.trim(),
+    tagFormat: '[欺骗率:XX%]',
+    voice: 'Kore',
+    model: DEFAULT_MODEL,
+    bands: DEFAULT_BANDS,
+  },
+  {
+    id: 'veritas-en',
+    name: 'Veritas · English',
+    language: 'en-US',
+    promptTemplate: EN_PROMPT.trim(),
+    tagFormat: '[DECEPTION:XX%]',
+    voice: 'Charon',
+    model: DEFAULT_MODEL,
+    bands: DEFAULT_BANDS,
+  },
+];
+
+export const DEFAULT_PROFILE = DEFAULT_PROFILES[0];
+
+/**
+ * Fill the prompt template. Placeholders: {{TAG}} (the tag format, e.g.
+ * [欺骗率:XX%]), {{TRUTH_MAX}}, {{SUSPICIOUS_MIN}}, {{SUSPICIOUS_MAX}} and
+ * {{DECEPTION_MIN}} (band edges as whole percentages).
+ */
+export function renderPrompt(profile: InterrogatorProfile): string {
+  const { suspicious, deception } = profile.bands;
+  const values: Record<string, string> = {
+    TAG: profile.tagFormat,
+    TRUTH_MAX: String(suspicious - 1),
+    SUSPICIOUS_MIN: String(suspicious),
+    SUSPICIOUS_MAX: String(deception),
+    DECEPTION_MIN: String(deception + 1),
+  };
+  return profile.promptTemplate.replace(/\{\{(\w+)\}\}/g, (whole, key) => values[key] ?? whole);
+}
+
+export interface LiveOptions {
+  turnMode?: TurnMode;
+  outputMode?: OutputMode;
+}
+
+/** The model a session runs on: the profile's, unless it can't write text and text is wanted. */
+export function sessionModel(profile: InterrogatorProfile, outputMode: OutputMode = 'audio'): string {
+  return outputMode === 'text' && profile.model.includes('native-audio') ? TEXT_MODEL : profile.model;
+}
+
+/**
+ * Live session config for a profile: its prompt, the verdict tool and the
+ * subject's transcription, with replies spoken in its voice (and transcribed)
+ * or written, and turns taken as `turnMode` says.
+ */
+export function liveConfig(profile: InterrogatorProfile, { turnMode = 'continuous', outputMode = 'audio' }: LiveOptions = {}): LiveConnectConfig {
+  const shared: LiveConnectConfig = {
+    systemInstruction: renderPrompt(profile),
+    tools: [{ functionDeclarations: [reportVerdictDeclaration] }],
+    inputAudioTranscription: {},
+    realtimeInputConfig: realtimeInputConfig(turnMode),
+  };
+  // Use string literals to avoid runtime enum issues
+  if (outputMode === 'text') return { ...shared, responseModalities: ['TEXT' as Modality] };
+  return {
+    ...shared,
+    responseModalities: ['AUDIO' as Modality],
+    speechConfig: {
+      voiceConfig: { prebuiltVoiceConfig: { voiceName: profile.voice } },
+      // Native-audio models pick the language from the conversation and reject an explicit code
+      languageCode: profile.model.includes('native-audio') ? undefined : profile.language,
+    },
+    outputAudioTranscription: {},
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isBands = (value: unknown): value is VerdictBands => {
+  if (!isRecord(value)) return false;
+  const { suspicious, deception } = value;
+  return typeof suspicious === 'number' && typeof deception === 'number' &&
+    suspicious >= 0 && suspicious <= deception && deception <= 100;
+};
+
+export function validateProfile(value: unknown): InterrogatorProfile {
+  if (!isRecord(value)) throw new Error('Profile must be an object');
+  const text = (key: keyof InterrogatorProfile) => {
+    const field = value[key];
+    if (typeof field !== 'string' || !field.trim()) throw new Error(`Profile field "${key}" is missing`);
+    return field;
+  };
+  if (!text('tagFormat').includes('XX')) throw new Error('Profile tag format must contain XX');
+  if (!isBands(value.bands)) throw new Error('Profile bands must satisfy 0 <= suspicious <= deception <= 100');
+
+  return {
+    id: text('id'),
+    name: text('name'),
+    language: text('language'),
+    promptTemplate: text('promptTemplate'),
+    tagFormat: text('tagFormat'),
+    voice: text('voice'),
+    model: text('model'),
+    bands: { suspicious: value.bands.suspicious, deception: value.bands.deception },
+  };
+}
+
+/** A single profile or an array of them, as written by `serializeProfiles`. */
+export function parseProfiles(text: string): InterrogatorProfile[] {
+  const parsed: unknown = JSON.parse(text);
+  return (Array.isArray(parsed) ? parsed : [parsed]).map(validateProfile);
+}
+
+export function serializeProfiles(profiles: InterrogatorProfile[]): string {
+  return JSON.stringify(profiles, null, 2);
+}
+
+export function loadProfiles(): InterrogatorProfile[] {
+  try {
+    const saved = localStorage.getItem(PROFILES_KEY);
+    if (saved) {
+      const profiles = parseProfiles(saved);
+      if (profiles.length > 0) return profiles;
+    }
+  } catch (e) {
+    console.warn('Failed to load saved profiles', e);
+  }
+  return DEFAULT_PROFILES;
+}
+
+export function saveProfiles(profiles: InterrogatorProfile[]) {
+  localStorage.setItem(PROFILES_KEY, serializeProfiles(profiles));
+}
+
+export function loadActiveProfileId(): string {
+  return localStorage.getItem(ACTIVE_KEY) || DEFAULT_PROFILE.id;
+}
+
+export function saveActiveProfileId(id: string) {
+  localStorage.setItem(ACTIVE_KEY, id);
+}
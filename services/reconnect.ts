@@ -0,0 +1,105 @@
+import { PcmBlob } from './audioUtils';
+import { CAPTURE_SAMPLE_RATE } from './audioCapture';
+
+/** What happens to mic audio and camera frames captured while the connection is down. */
+export type ReconnectMediaPolicy = 'drop' | 'buffer';
+
+export interface ReconnectPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  media: ReconnectMediaPolicy;
+  /** With `buffer`, how much of the most recent audio to keep for sending once reconnected. */
+  bufferMs: number;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 6,
+  baseDelayMs: 500,
+  maxDelayMs: 15000,
+  media: 'buffer',
+  bufferMs: 5000,
+};
+
+/** Exponential backoff with ±20% jitter so several clients don't retry in lockstep. */
+export function backoffDelay(attempt: number, policy: ReconnectPolicy): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+const pcmDurationMs = (media: PcmBlob) => ((media.data.length * 3) / 4 / 2 / CAPTURE_SAMPLE_RATE) * 1000;
+
+/**
+ * Holds media captured during an outage. Audio keeps the last `bufferMs`;
+ * only the newest camera frame is kept, since stale frames add nothing.
+ */
+export class MediaHoldBuffer {
+  private audio: PcmBlob[] = [];
+  private audioMs = 0;
+  private frame: PcmBlob | null = null;
+
+  constructor(private policy: ReconnectPolicy) {}
+
+  public hold(media: PcmBlob) {
+    if (this.policy.media === 'drop') return;
+    if (!media.mimeType.startsWith('audio/')) {
+      this.frame = media;
+      return;
+    }
+    this.audio.push(media);
+    this.audioMs += pcmDurationMs(media);
+    while (this.audioMs > this.policy.bufferMs && this.audio.length > 1) {
+      this.audioMs -= pcmDurationMs(this.audio.shift()!);
+    }
+  }
+
+  /** Everything held, oldest first, leaving the buffer empty. */
+  public drain(): PcmBlob[] {
+    const media = this.frame ? [this.frame, ...this.audio] : [...this.audio];
+    this.clear();
+    return media;
+  }
+
+  public clear() {
+    this.audio = [];
+    this.audioMs = 0;
+    this.frame = null;
+  }
+}
+
+const RECAP_CHARS = 2000;
+
+/**
+ * Rolling record of what was said, for rebuilding the model's context when a
+ * session has to be restarted from scratch.
+ */
+export class TranscriptMemory {
+  private lines: { speaker: 'subject' | 'model'; text: string }[] = [];
+
+  public add(speaker: 'subject' | 'model', text: string) {
+    const last = this.lines[this.lines.length - 1];
+    if (last && last.speaker === speaker) last.text += text;
+    else this.lines.push({ speaker, text });
+
+    // Keep a little more than the recap needs
+    let total = this.lines.reduce((a, line) => a + line.text.length, 0);
+    while (total > RECAP_CHARS * 2 && this.lines.length > 1) total -= this.lines.shift()!.text.length;
+  }
+
+  public clear() {
+    this.lines = [];
+  }
+
+  /** The last ~2000 characters as a context note, or null if nothing was said yet. */
+  public recap(): string | null {
+    const picked: string[] = [];
+    let total = 0;
+    for (let i = this.lines.length - 1; i >= 0 && total < RECAP_CHARS; i--) {
+      const { speaker, text } = this.lines[i];
+      picked.unshift(`${speaker === 'subject' ? '受审者' : '分析'}: ${text.trim()}`);
+      total += text.length;
+    }
+    if (picked.length === 0) return null;
+    return `[会话恢复 / SESSION RESTORED] 连接中断后重新建立，此前的上下文已丢失。以下是最近的对话记录，请在此基础上继续分析，不要复述：\n${picked.join('\n')}`;
+  }
+}
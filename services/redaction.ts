@@ -0,0 +1,71 @@
+import { RedactionSettings } from '../types';
+import { Region } from './rppg';
+
+const STORAGE_KEY = 'veritas-redaction';
+const OPERATOR_KEY = 'veritas-operator';
+
+export const DEFAULT_REDACTION: RedactionSettings = { blurBackground: false, keywords: [] };
+
+/** Blocks across the longer side when pixelating the background; fewer is blurrier. */
+const PIXELATE_BLOCKS = 24;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** One keyword per line or comma, blanks dropped. */
+export const parseKeywords = (text: string): string[] =>
+  text.split(/[\n,，]/).map(word => word.trim()).filter(Boolean);
+
+/** Replace every keyword with as many █ as it has characters, so masking twice changes nothing. */
+export function maskKeywords(text: string, keywords: string[]): string {
+  if (keywords.length === 0) return text;
+  const pattern = new RegExp(keywords.map(escapeRegExp).join('|'), 'gi');
+  return text.replace(pattern, match => '█'.repeat(match.length));
+}
+
+let scratch: HTMLCanvasElement | null = null;
+
+/**
+ * Pixelate the whole frame except `keep` (the subject's face), so bystanders,
+ * other faces and the room don't leave the device. Pixelation rather than a
+ * canvas blur filter, which not every browser supports.
+ */
+export function blurOutside(ctx: CanvasRenderingContext2D, keep: Region | null) {
+  const { width, height } = ctx.canvas;
+  scratch ??= document.createElement('canvas');
+  const scratchCtx = scratch.getContext('2d');
+  if (!scratchCtx || width < 1 || height < 1) return;
+
+  const scale = PIXELATE_BLOCKS / Math.max(width, height);
+  const smallWidth = Math.max(1, Math.round(width * scale));
+  const smallHeight = Math.max(1, Math.round(height * scale));
+  scratch.width = smallWidth;
+  scratch.height = smallHeight;
+
+  // Keep the sharp face before the frame is overwritten
+  const face = keep && keep.width >= 1 && keep.height >= 1 ? ctx.getImageData(keep.x, keep.y, keep.width, keep.height) : null;
+
+  scratchCtx.drawImage(ctx.canvas, 0, 0, smallWidth, smallHeight);
+  ctx.save();
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(scratch, 0, 0, smallWidth, smallHeight, 0, 0, width, height);
+  ctx.restore();
+
+  if (face && keep) ctx.putImageData(face, keep.x, keep.y);
+}
+
+export function loadRedaction(): RedactionSettings {
+  try {
+    return { ...DEFAULT_REDACTION, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_REDACTION;
+  }
+}
+
+export function saveRedaction(settings: RedactionSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** The operator's name is the same session after session, so the consent form remembers it. */
+export const loadOperator = () => localStorage.getItem(OPERATOR_KEY) ?? '';
+
+export const saveOperator = (operator: string) => localStorage.setItem(OPERATOR_KEY, operator);
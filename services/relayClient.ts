@@ -0,0 +1,104 @@
+import { FunctionResponse, LiveServerMessage } from '@google/genai';
+import { PcmBlob } from './audioUtils';
+import { RELAY_PATH, RelayClientMessage, RelayServerMessage, parseRelayMessage } from './relayProtocol';
+
+type ClientContent = Extract<RelayClientMessage, { type: 'clientContent' }>;
+
+const TOKEN_KEY = 'veritas-relay-token';
+
+/**
+ * Each operator signs in to the relay with their own token, entered on the
+ * consent form and kept in this browser only; it is never part of the build.
+ */
+export const loadRelayToken = () => localStorage.getItem(TOKEN_KEY) ?? '';
+
+export const saveRelayToken = (token: string) => localStorage.setItem(TOKEN_KEY, token);
+
+export interface RelayCallbacks {
+  onopen?: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  onerror?: (e: ErrorEvent) => void;
+  onclose?: (e: CloseEvent) => void;
+}
+
+/** Browser end of a relayed live session, with the same send methods as the SDK's session. */
+export class RelaySession {
+  constructor(private ws: WebSocket) {}
+
+  public sendRealtimeInput({ media, activityStart, activityEnd }: { media?: PcmBlob; activityStart?: {}; activityEnd?: {} }) {
+    if (media) this.send({ type: 'realtimeInput', media });
+    if (activityStart) this.send({ type: 'activity', signal: 'start' });
+    if (activityEnd) this.send({ type: 'activity', signal: 'end' });
+  }
+
+  public sendToolResponse({ functionResponses }: { functionResponses: FunctionResponse[] }) {
+    this.send({ type: 'toolResponse', functionResponses });
+  }
+
+  public sendClientContent({ turns, turnComplete = true }: { turns: ClientContent['turns']; turnComplete?: boolean }) {
+    this.send({ type: 'clientContent', turns, turnComplete });
+  }
+
+  public close() {
+    this.ws.close(1000);
+  }
+
+  private send(message: RelayClientMessage) {
+    if (this.ws.readyState !== WebSocket.OPEN) throw new Error('Relay socket is not open');
+    this.ws.send(JSON.stringify(message));
+  }
+}
+
+/**
+ * Open a live session through the relay server instead of calling Gemini
+ * directly. Takes the same `{ model, config, callbacks }` as `ai.live.connect`
+ * and resolves once the relay reports the upstream session open.
+ */
+export function connectRelay(
+  url: string,
+  token: string,
+  params: { model: string; config: Record<string, unknown>; callbacks: RelayCallbacks }
+): Promise<RelaySession> {
+  // The token goes in the first message, not the URL, so it stays out of proxy and access logs
+  const ws = new WebSocket(new URL(RELAY_PATH, url));
+  const session = new RelaySession(ws);
+  const { callbacks } = params;
+
+  return new Promise((resolve, reject) => {
+    let opened = false;
+
+    ws.onopen = () => {
+      ws.send(JSON.stringify({ type: 'connect', token, model: params.model, config: params.config } satisfies RelayClientMessage));
+    };
+
+    ws.onmessage = (event: MessageEvent<string>) => {
+      const message = parseRelayMessage<RelayServerMessage>(event.data);
+      if (!message) return;
+      switch (message.type) {
+        case 'open':
+          opened = true;
+          callbacks.onopen?.();
+          resolve(session);
+          break;
+        case 'message':
+          callbacks.onmessage(message.message);
+          break;
+        case 'error':
+          console.warn("Relay reported an error:", message.error);
+          break;
+      }
+    };
+
+    ws.onerror = (event) => {
+      if (opened) callbacks.onerror?.(event as ErrorEvent);
+    };
+
+    ws.onclose = (event) => {
+      if (!opened) {
+        reject(new Error(`Relay closed before the session opened (${event.code}${event.reason ? `: ${event.reason}` : ''})`));
+        return;
+      }
+      callbacks.onclose?.(event);
+    };
+  });
+}
@@ -0,0 +1,46 @@
+// Wire format between the browser and the relay server (server/relay.ts).
+// Both sides import this file; keep it free of DOM and Node APIs.
+
+import type { FunctionResponse, LiveServerMessage } from '@google/genai';
+import type { PcmBlob } from './audioUtils';
+import type { ActivitySignal } from './turnMode';
+
+export const RELAY_PATH = '/live';
+
+/** Close codes the relay uses, in the application range. */
+export const RELAY_CLOSE = {
+  unauthorized: 4001,
+  sessionLimit: 4002,
+  timeLimit: 4003,
+  badRequest: 4004,
+  upstreamClosed: 4005,
+} as const;
+
+/** Closes that retrying won't fix. A session-limit close can clear once an old socket is reaped, so it isn't one. */
+export const isFatalRelayClose = (code: number) =>
+  code === RELAY_CLOSE.unauthorized || code === RELAY_CLOSE.timeLimit || code === RELAY_CLOSE.badRequest;
+
+export type RelayClientMessage =
+  /** First message on a socket: the client's token, and which model and live config to open upstream. */
+  | { type: 'connect'; token: string; model: string; config: Record<string, unknown> }
+  | { type: 'realtimeInput'; media: PcmBlob }
+  /** Start or end of the subject's turn, when the live config turned voice detection off. */
+  | { type: 'activity'; signal: ActivitySignal }
+  | { type: 'toolResponse'; functionResponses: FunctionResponse[] }
+  | { type: 'clientContent'; turns: { role: string; parts: { text: string }[] }[]; turnComplete: boolean };
+
+export type RelayServerMessage =
+  /** The upstream session is open; media may flow. */
+  | { type: 'open' }
+  /** An upstream message, passed through unchanged. */
+  | { type: 'message'; message: LiveServerMessage }
+  | { type: 'error'; error: string };
+
+export function parseRelayMessage<T extends { type: string }>(data: string): T | null {
+  try {
+    const parsed = JSON.parse(data);
+    return parsed && typeof parsed.type === 'string' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
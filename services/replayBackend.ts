@@ -0,0 +1,124 @@
+import { FunctionResponse } from '@google/genai';
+import { InterrogatorProfile } from '../types';
+import { LiveMessageBackend } from './analysisBackend';
+import { OutputSettings } from './audioOutput';
+import { base64ToUint8Array, PcmBlob } from './audioUtils';
+import { RecordedEvent, SessionRecording } from './sessionRecorder';
+import { ActivitySignal } from './turnMode';
+
+/**
+ * Plays a recorded session back with no network. Server messages go through
+ * the same handler as a live session, in capture order and at capture pace
+ * (scaled by `speed`); recorded frames and mic chunks drive the video poster
+ * and MIC meter so the screen looks like it did at the time. The messages are
+ * read under the recording's own profile and output mode, whatever is
+ * selected now; only volume, mute and speaker follow the current settings.
+ */
+export class ReplayBackend extends LiveMessageBackend {
+  public readonly name = 'replay';
+  protected readonly sendsRemotely = false;
+  private timer: number | null = null;
+  private cursor = 0;
+  private videoElement: HTMLVideoElement | null = null;
+  private onEndCallback: (() => void) | null = null;
+
+  constructor(private recording: SessionRecording, private speed = 1) {
+    super();
+    this.setProfile(recording.profile);
+  }
+
+  public setProfile(_profile: InterrogatorProfile) {
+    super.setProfile(this.recording.profile);
+  }
+
+  public setOutput(settings: OutputSettings) {
+    super.setOutput({ ...settings, mode: this.recording.outputMode });
+  }
+
+  public async connect(
+    _stream: MediaStream,
+    videoElement: HTMLVideoElement,
+    _canvasElement: HTMLCanvasElement
+  ): Promise<void> {
+    await this.openAudioContexts();
+    this.videoElement = videoElement;
+    this.cursor = 0;
+    this.scheduleNext(0);
+  }
+
+  /** Called once the last recorded event has played and the model has finished speaking. */
+  public setOnEnd(callback: () => void) {
+    this.onEndCallback = callback;
+  }
+
+  protected sendRealtimeInput(_media: PcmBlob) {
+    // Replays never capture
+  }
+
+  protected sendToolResponse(_responses: FunctionResponse[]) {
+    // The recording already contains whatever the model did next
+  }
+
+  protected sendContext(_text: string) {
+    // The recording already reflects whatever the operator asked
+  }
+
+  protected sendActivity(_signal: ActivitySignal) {
+    // The recording's turns already ended where they did
+  }
+
+  private scheduleNext(previousT: number) {
+    const event = this.recording.events[this.cursor++];
+    if (!event) {
+      this.timer = window.setTimeout(() => {
+        this.timer = null;
+        this.onEndCallback?.();
+      }, this.playbackRemainingMs());
+      return;
+    }
+
+    this.timer = window.setTimeout(async () => {
+      await this.play(event);
+      if (this.timer !== null) this.scheduleNext(event.t);
+    }, (event.t - previousT) / this.speed);
+  }
+
+  private async play(event: RecordedEvent) {
+    switch (event.kind) {
+      case 'message':
+        await this.handleServerMessage(event.message);
+        break;
+      case 'frame':
+        if (this.videoElement) this.videoElement.poster = `data:${event.media.mimeType};base64,${event.media.data}`;
+        break;
+      case 'audio':
+        this.onVolumeCallback?.(pcmRms(event.media) * 100);
+        break;
+    }
+  }
+
+  public async disconnect() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.videoElement) {
+      this.videoElement.removeAttribute('poster');
+      this.videoElement = null;
+    }
+    this.releaseMedia();
+  }
+}
+
+function pcmRms(media: PcmBlob): number {
+  const bytes = base64ToUint8Array(media.data);
+  const samples = new Int16Array(bytes.buffer, 0, bytes.byteLength >> 1);
+  if (samples.length === 0) return 0;
+
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const sample = samples[i] / 32768;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples.length);
+}
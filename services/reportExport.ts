@@ -0,0 +1,295 @@
+import { ArchivedSession, ConsentRecord, LogEntry, ProbabilitySample, Verdict, VerdictBands } from '../types';
+import { downloadFile, fileStamp } from './fileUtils';
+import { DEFAULT_BANDS } from './profiles';
+import { formatMediaTime } from './mediaFile';
+import { Locale, formatDateTime, formatTime } from './i18n';
+import { verdictCues } from './cues';
+
+export const REPORT_VERSION = 1;
+
+export type ProbabilityBand = 'truth' | 'suspicious' | 'deception';
+
+export interface StatementRecord {
+  id: string;
+  time: number;
+  timestamp: string;
+  statement: string;
+  probability: number | null;
+  band: ProbabilityBand | null;
+  cues: string[];
+  /** The cues on the fixed taxonomy. */
+  cueIds: string[];
+  rationale: string;
+  verdictSource: Verdict['source'] | null;
+  questionId: string | null;
+  /** Seconds into the analyzed file, for file sessions. */
+  mediaTime: number | null;
+}
+
+export interface ReportSummary {
+  durationMs: number;
+  statementCount: number;
+  verdictCount: number;
+  meanProbability: number | null;
+  maxProbability: number | null;
+  peakTime: number | null;
+  finalProbability: number;
+  bandCounts: Record<ProbabilityBand, number>;
+}
+
+export interface InterrogationReport {
+  version: number;
+  generatedAt: number;
+  session: Pick<ArchivedSession, 'id' | 'name' | 'backend' | 'startedAt' | 'endedAt'> & { mediaFile: string | null; consent: ConsentRecord | null };
+  /** Name of the interrogator profile, and the bands its statements were classified with. */
+  profile: string | null;
+  bands: VerdictBands;
+  summary: ReportSummary;
+  statements: StatementRecord[];
+  verdicts: Verdict[];
+  history: ProbabilitySample[];
+  transcript: LogEntry[];
+}
+
+// Same bands as the live gauge
+export const probabilityBand = (probability: number, bands: VerdictBands = DEFAULT_BANDS): ProbabilityBand =>
+  probability > bands.deception ? 'deception' : probability >= bands.suspicious ? 'suspicious' : 'truth';
+
+/**
+ * Pair each subject statement with the verdict that judged it: the utterance
+ * the verdict references, else an exact match on the quoted utterance if the
+ * model gave one, otherwise the last statement made before the verdict arrived.
+ */
+export function matchStatements(logs: LogEntry[], verdicts: Verdict[], bands: VerdictBands = DEFAULT_BANDS): StatementRecord[] {
+  const statements = logs.filter(log => log.type === 'neutral');
+  const byStatement = new Map<string, Verdict>();
+
+  for (const verdict of verdicts) {
+    const before = statements.filter(s => s.time <= verdict.receivedAt);
+    const quoted = verdict.utterance.trim();
+    const target =
+      (verdict.utteranceId && statements.find(s => s.id === verdict.utteranceId)) ||
+      (quoted && [...before].reverse().find(s => s.message.trim() === quoted)) ||
+      before[before.length - 1];
+    if (target) byStatement.set(target.id, verdict);
+  }
+
+  return statements.map(s => {
+    const verdict = byStatement.get(s.id);
+    return {
+      id: s.id,
+      time: s.time,
+      timestamp: s.timestamp,
+      statement: s.message,
+      probability: verdict ? verdict.probability : null,
+      band: verdict ? probabilityBand(verdict.probability, bands) : null,
+      cues: verdict ? verdict.cues : [],
+      cueIds: verdict ? verdictCues(verdict) : [],
+      rationale: verdict ? verdict.rationale : '',
+      verdictSource: verdict ? verdict.source : null,
+      questionId: verdict?.questionId ?? null,
+      mediaTime: s.mediaTime ?? null,
+    };
+  });
+}
+
+export function summarize(session: ArchivedSession, statements: StatementRecord[]): ReportSummary {
+  const scores = session.verdicts.map(v => v.probability);
+  const peak = session.verdicts.reduce<Verdict | null>((best, v) => (!best || v.probability > best.probability ? v : best), null);
+  const bandCounts: Record<ProbabilityBand, number> = { truth: 0, suspicious: 0, deception: 0 };
+  scores.forEach(score => bandCounts[probabilityBand(score, session.profile?.bands)]++);
+
+  return {
+    durationMs: session.endedAt - session.startedAt,
+    statementCount: statements.length,
+    verdictCount: scores.length,
+    meanProbability: scores.length ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : null,
+    maxProbability: peak ? peak.probability : null,
+    peakTime: peak ? peak.receivedAt : null,
+    finalProbability: session.finalProbability,
+    bandCounts,
+  };
+}
+
+export function buildReport(session: ArchivedSession): InterrogationReport {
+  const bands = session.profile?.bands ?? DEFAULT_BANDS;
+  const statements = matchStatements(session.logs, session.verdicts, bands);
+  return {
+    version: REPORT_VERSION,
+    generatedAt: Date.now(),
+    session: {
+      id: session.id,
+      name: session.name,
+      backend: session.backend,
+      startedAt: session.startedAt,
+      endedAt: session.endedAt,
+      mediaFile: session.mediaFile ?? null,
+      consent: session.consent ?? null,
+    },
+    profile: session.profile?.name ?? null,
+    bands,
+    summary: summarize(session, statements),
+    statements,
+    verdicts: session.verdicts,
+    history: session.history,
+    transcript: session.logs,
+  };
+}
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function reportToCsv(report: InterrogationReport): string {
+  const header = ['statement_id', 'time_iso', 'timestamp', 'statement', 'deception_probability', 'band', 'cues', 'cue_ids', 'rationale', 'verdict_source', 'question_id', 'media_time_s'];
+  const rows = report.statements.map(s => [
+    s.id,
+    new Date(s.time).toISOString(),
+    s.timestamp,
+    s.statement,
+    s.probability,
+    s.band,
+    s.cues.join('; '),
+    s.cueIds.join('; '),
+    s.rationale,
+    s.verdictSource,
+    s.questionId,
+    s.mediaTime === null ? null : Math.round(s.mediaTime * 10) / 10,
+  ].map(csvCell).join(','));
+  // BOM so spreadsheet apps pick UTF-8 for the Chinese text
+  return '\uFEFF' + [header.join(','), ...rows].join('\r\n');
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const LOG_COLORS: Record<LogEntry['type'], string> = {
+  truth: '#0077aa',
+  deception: '#cc0030',
+  system: '#b36b00',
+  neutral: '#333333',
+};
+
+function chartSvg(history: ProbabilitySample[], bands: VerdictBands, width = 720, height = 180): string {
+  const y = (value: number) => height - (value / 100) * height;
+  const guide = (value: number, color: string) =>
+    `<line x1="0" x2="${width}" y1="${y(value)}" y2="${y(value)}" stroke="${color}" stroke-dasharray="4 4" />`;
+  const guides = guide(bands.suspicious, '#ffaa00') + guide(bands.deception, '#ff003c');
+
+  if (history.length < 2) {
+    return `<svg viewBox="0 0 ${width} ${height}" width="100%" height="${height}">${guides}<text x="${width / 2}" y="${height / 2}" text-anchor="middle" fill="#999">无数据 / NO DATA</text></svg>`;
+  }
+
+  const start = history[0].time;
+  const span = Math.max(1, history[history.length - 1].time - start);
+  const points = history.map(s => `${(((s.time - start) / span) * width).toFixed(1)},${y(s.value).toFixed(1)}`).join(' ');
+  return `<svg viewBox="0 0 ${width} ${height}" width="100%" height="${height}" preserveAspectRatio="none">
+    <rect width="${width}" height="${height}" fill="#fafafa" stroke="#ddd" />${guides}
+    <polyline points="${points}" fill="none" stroke="#0077aa" stroke-width="2" />
+  </svg>`;
+}
+
+/** Labels stay bilingual whatever the locale; dates and times follow it. */
+export function reportToHtml(report: InterrogationReport, locale: Locale): string {
+  const { session, summary } = report;
+  const stat = (label: string, value: string | number | null) =>
+    `<div class="stat"><div class="label">${escapeHtml(label)}</div><div class="value">${value === null ? '—' : escapeHtml(String(value))}</div></div>`;
+
+  const transcript = report.transcript.map(log => `
+    <div class="log" style="border-color:${LOG_COLORS[log.type]};color:${LOG_COLORS[log.type]}">
+      <span class="meta">[${escapeHtml(log.timestamp)}] ${log.type === 'neutral' ? '受审者' : 'V9_系统'} · ${log.type}</span><br/>
+      ${escapeHtml(log.message)}
+    </div>`).join('');
+
+  const statements = report.statements.map(s => `
+    <tr>
+      <td>${escapeHtml(s.timestamp)}${s.mediaTime === null ? '' : `<br/><span class="meta">▶ ${formatMediaTime(s.mediaTime)}</span>`}</td>
+      <td>${escapeHtml(s.statement)}</td>
+      <td class="num">${s.probability === null ? '—' : `${s.probability}%`}</td>
+      <td>${escapeHtml(s.cues.join('、'))}</td>
+      <td>${escapeHtml(s.rationale)}</td>
+    </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(session.name)} — 审讯报告</title>
+<style>
+  body { font-family: 'Noto Sans SC', system-ui, sans-serif; color: #111; max-width: 900px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { margin-bottom: 0; } h2 { border-bottom: 1px solid #ccc; padding-bottom: 4px; margin-top: 2rem; }
+  .sub { color: #666; font-size: 12px; }
+  .stats { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; }
+  .stat { border: 1px solid #ddd; padding: 8px; } .stat .label { font-size: 11px; color: #666; } .stat .value { font-size: 20px; font-weight: bold; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; } td, th { border-bottom: 1px solid #eee; padding: 4px; text-align: left; vertical-align: top; } .num { text-align: right; white-space: nowrap; }
+  .log { border-left: 3px solid; padding: 4px 8px; margin: 4px 0; font-size: 12px; break-inside: avoid; } .meta { opacity: .6; font-size: 11px; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(session.name)}</h1>
+  <div class="sub">VERITAS_V9 审讯报告 · v${report.version} · ${escapeHtml(formatDateTime(session.startedAt, locale))} – ${escapeHtml(formatDateTime(session.endedAt, locale))} · ${escapeHtml(session.backend.toUpperCase())}${session.mediaFile ? ` · ${escapeHtml(session.mediaFile)}` : ''}</div>
+  <div class="sub">${session.consent
+    ? `知情同意 / CONSENT: ${escapeHtml(session.consent.subject)} · 操作员 / OPERATOR: ${escapeHtml(session.consent.operator)} · ${escapeHtml(formatDateTime(session.consent.acknowledgedAt, locale))}${session.consent.redaction.blurBackground || session.consent.redaction.keywords.length > 0 ? ' · 已脱敏 / REDACTED' : ''}`
+    : '无同意记录 / NO CONSENT ON RECORD'}</div>
+
+  <h2>摘要 / SUMMARY</h2>
+  <div class="stats">
+    ${stat('时长 / DURATION', formatDuration(summary.durationMs))}
+    ${stat('陈述 / STATEMENTS', summary.statementCount)}
+    ${stat('判定 / VERDICTS', summary.verdictCount)}
+    ${stat('最终欺骗率 / FINAL', `${summary.finalProbability}%`)}
+    ${stat('平均 / MEAN', summary.meanProbability === null ? null : `${summary.meanProbability}%`)}
+    ${stat('峰值 / PEAK', summary.maxProbability === null ? null : `${summary.maxProbability}%`)}
+    ${stat('诚实 / 可疑 / 谎言', `${summary.bandCounts.truth} / ${summary.bandCounts.suspicious} / ${summary.bandCounts.deception}`)}
+    ${stat('审讯配置 / PROFILE', report.profile)}
+    ${stat('分级阈值 / BANDS', `${report.bands.suspicious} / ${report.bands.deception}`)}
+    ${stat('峰值时刻 / PEAK AT', summary.peakTime === null ? null : formatTime(summary.peakTime, locale))}
+  </div>
+
+  <h2>真实度趋势 / VERACITY_GRAPH</h2>
+  ${chartSvg(report.history, report.bands)}
+
+  <h2>逐句判定 / STATEMENTS</h2>
+  <table>
+    <thead><tr><th>时间</th><th>陈述</th><th class="num">欺骗率</th><th>线索</th><th>理由</th></tr></thead>
+    <tbody>${statements}</tbody>
+  </table>
+
+  <h2>完整记录 / TRANSCRIPT</h2>
+  ${transcript}
+</body>
+</html>`;
+}
+
+export type ExportFormat = 'json' | 'csv' | 'html';
+
+export function exportReport(session: ArchivedSession, format: ExportFormat, locale: Locale) {
+  const report = buildReport(session);
+  const base = `veritas-report-${fileStamp(session.startedAt)}`;
+
+  switch (format) {
+    case 'json':
+      return downloadFile(`${base}.json`, JSON.stringify(report, null, 2), 'application/json');
+    case 'csv':
+      return downloadFile(`${base}.csv`, reportToCsv(report), 'text/csv;charset=utf-8');
+    case 'html':
+      return downloadFile(`${base}.html`, reportToHtml(report, locale), 'text/html;charset=utf-8');
+  }
+}
+
+/** Open the HTML report in a new window and hand it to the browser's print dialog (save as PDF from there). */
+export function printReport(session: ArchivedSession, locale: Locale) {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error('Popup blocked');
+  win.document.write(reportToHtml(buildReport(session), locale));
+  win.document.close();
+  win.focus();
+  win.print();
+}
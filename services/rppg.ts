@@ -0,0 +1,183 @@
+import { FaceBox, PulseReading } from '../types';
+
+/** Region of the frame to sample, in canvas pixels. */
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface ColorSample {
+  time: number;
+  r: number;
+  g: number;
+  b: number;
+}
+
+export const NO_PULSE: PulseReading = { bpm: null, quality: 0, status: 'no-face' };
+
+const WINDOW_MS = 10000;
+const MIN_WINDOW_MS = 6000;
+const RESAMPLE_HZ = 15;
+const MIN_BPM = 42;
+const MAX_BPM = 200;
+const MIN_SKIN_FRACTION = 0.25;
+/** Share of in-band power that must sit on the peak for a reading to count. */
+const MIN_QUALITY = 0.25;
+
+/** YCbCr skin classifier (Chai & Ngan); cheap and good enough to reject hair and background. */
+export const isSkin = (r: number, g: number, b: number) => {
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+};
+
+/** Without a face tracker, assume the subject sits centred: upper-middle of the frame, where forehead and cheeks are. */
+export const defaultFaceRegion = (width: number, height: number): Region => ({
+  x: Math.round(width * 0.35),
+  y: Math.round(height * 0.2),
+  width: Math.round(width * 0.3),
+  height: Math.round(height * 0.35),
+});
+
+/** Forehead and cheeks inside a tracked face box (fractions of the frame), in canvas pixels. */
+export const skinRegion = (face: FaceBox, width: number, height: number): Region => ({
+  x: Math.round((face.x + face.width * 0.2) * width),
+  y: Math.round((face.y + face.height * 0.1) * height),
+  width: Math.round(face.width * 0.6 * width),
+  height: Math.round(face.height * 0.55 * height),
+});
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const std = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((a, v) => a + (v - m) * (v - m), 0) / values.length);
+};
+
+/** Linear interpolation onto an even time grid. */
+function resample(samples: ColorSample[], hz: number): ColorSample[] {
+  const out: ColorSample[] = [];
+  const step = 1000 / hz;
+  let j = 0;
+  for (let t = samples[0].time; t <= samples[samples.length - 1].time; t += step) {
+    while (j < samples.length - 2 && samples[j + 1].time < t) j++;
+    const a = samples[j];
+    const b = samples[j + 1];
+    const k = b.time === a.time ? 0 : (t - a.time) / (b.time - a.time);
+    out.push({ time: t, r: a.r + (b.r - a.r) * k, g: a.g + (b.g - a.g) * k, b: a.b + (b.b - a.b) * k });
+  }
+  return out;
+}
+
+/** Subtract a centred moving average to remove lighting drift and motion trends. */
+function detrend(signal: number[], window: number): number[] {
+  return signal.map((value, i) => {
+    const from = Math.max(0, i - window);
+    const to = Math.min(signal.length, i + window + 1);
+    let sum = 0;
+    for (let k = from; k < to; k++) sum += signal[k];
+    return value - sum / (to - from);
+  });
+}
+
+function powerAt(signal: number[], hz: number, sampleHz: number): number {
+  let re = 0;
+  let im = 0;
+  for (let i = 0; i < signal.length; i++) {
+    const phase = (2 * Math.PI * hz * i) / sampleHz;
+    re += signal[i] * Math.cos(phase);
+    im -= signal[i] * Math.sin(phase);
+  }
+  return re * re + im * im;
+}
+
+/**
+ * Remote photoplethysmography: pulse from the tiny colour changes blood flow
+ * causes in facial skin. Frames come in at whatever rate the canvas is drawn;
+ * the estimate uses the CHROM projection (de Haan & Jeanne, 2013) over the
+ * last ten seconds and reports "no signal" rather than guessing.
+ */
+export class PulseEstimator {
+  private samples: ColorSample[] = [];
+  private lastSkinFraction = 0;
+
+  public addFrame(ctx: CanvasRenderingContext2D, region: Region, time = performance.now()) {
+    if (region.width < 4 || region.height < 4) return;
+
+    const { data } = ctx.getImageData(region.x, region.y, region.width, region.height);
+    let r = 0, g = 0, b = 0, count = 0;
+    // Every other pixel in each direction is plenty for a mean
+    for (let y = 0; y < region.height; y += 2) {
+      for (let x = 0; x < region.width; x += 2) {
+        const i = (y * region.width + x) * 4;
+        if (!isSkin(data[i], data[i + 1], data[i + 2])) continue;
+        r += data[i];
+        g += data[i + 1];
+        b += data[i + 2];
+        count++;
+      }
+    }
+
+    const sampled = Math.ceil(region.height / 2) * Math.ceil(region.width / 2);
+    this.lastSkinFraction = count / sampled;
+    if (this.lastSkinFraction < MIN_SKIN_FRACTION) {
+      // Face left the region: a gap would corrupt the series, so start over
+      this.samples = [];
+      return;
+    }
+
+    this.samples.push({ time, r: r / count, g: g / count, b: b / count });
+    while (this.samples.length > 0 && time - this.samples[0].time > WINDOW_MS) this.samples.shift();
+  }
+
+  public estimate(): PulseReading {
+    if (this.lastSkinFraction < MIN_SKIN_FRACTION) return { bpm: null, quality: 0, status: 'no-face' };
+
+    const span = this.samples.length > 1 ? this.samples[this.samples.length - 1].time - this.samples[0].time : 0;
+    if (span < MIN_WINDOW_MS || this.samples.length < (span / 1000) * 5) {
+      return { bpm: null, quality: 0, status: 'warming-up' };
+    }
+
+    const even = resample(this.samples, RESAMPLE_HZ);
+    const mr = mean(even.map(s => s.r));
+    const mg = mean(even.map(s => s.g));
+    const mb = mean(even.map(s => s.b));
+
+    // CHROM: two chrominance signals that cancel specular/motion components when combined
+    const x = even.map(s => 3 * (s.r / mr) - 2 * (s.g / mg));
+    const y = even.map(s => 1.5 * (s.r / mr) + s.g / mg - 1.5 * (s.b / mb));
+    const sy = std(y);
+    const alpha = sy > 0 ? std(x) / sy : 0;
+    const pulse = detrend(x.map((v, i) => v - alpha * y[i]), RESAMPLE_HZ);
+
+    let total = 0;
+    let bestPower = 0;
+    let bestHz = 0;
+    const spectrum: { hz: number; power: number }[] = [];
+    for (let bpm = MIN_BPM; bpm <= MAX_BPM; bpm += 1) {
+      const hz = bpm / 60;
+      const power = powerAt(pulse, hz, RESAMPLE_HZ);
+      spectrum.push({ hz, power });
+      total += power;
+      if (power > bestPower) {
+        bestPower = power;
+        bestHz = hz;
+      }
+    }
+    if (total === 0) return { bpm: null, quality: 0, status: 'low-quality' };
+
+    // Power within ±6 BPM of the peak against everything else in the band
+    const peakPower = spectrum.filter(s => Math.abs(s.hz - bestHz) <= 0.1).reduce((a, s) => a + s.power, 0);
+    const quality = peakPower / total;
+
+    if (quality < MIN_QUALITY) return { bpm: null, quality, status: 'low-quality' };
+    return { bpm: Math.round(bestHz * 60), quality, status: 'ok' };
+  }
+
+  public reset() {
+    this.samples = [];
+    this.lastSkinFraction = 0;
+  }
+}
@@ -0,0 +1,90 @@
+import { ArchivedSession, GroundTruth } from '../types';
+import { Locale, translator, formatDateTime } from './i18n';
+
+const DB_NAME = 'veritas-archive';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          const store = db.createObjectStore(STORE, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Let the next call try again
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = op(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Read-modify-write of one session in a single transaction, so two edits
+ * landing together each see the other's result instead of overwriting it.
+ */
+const update = async (id: string, change: (session: ArchivedSession) => ArchivedSession): Promise<ArchivedSession> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    let updated: ArchivedSession | undefined;
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const session = request.result as ArchivedSession | undefined;
+      if (!session) {
+        tx.abort();
+        reject(new Error(`Session not found: ${id}`));
+        return;
+      }
+      updated = change(session);
+      store.put(updated);
+    };
+    tx.oncomplete = () => resolve(updated!);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const saveSession = (session: ArchivedSession): Promise<IDBValidKey> =>
+  run('readwrite', store => store.put(session));
+
+export const getSession = (id: string): Promise<ArchivedSession | undefined> =>
+  run('readonly', store => store.get(id));
+
+/** All sessions, newest first. */
+export const listSessions = async (): Promise<ArchivedSession[]> => {
+  const sessions = await run<ArchivedSession[]>('readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  await update(id, session => ({ ...session, name }));
+};
+
+export const labelStatement = (id: string, statementId: string, label: GroundTruth): Promise<ArchivedSession> =>
+  update(id, session => ({ ...session, labels: { ...session.labels, [statementId]: label } }));
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+};
+
+export const defaultSessionName = (startedAt: number, locale: Locale) =>
+  translator(locale)('session.defaultName', { time: formatDateTime(startedAt, locale) });
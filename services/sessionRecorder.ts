@@ -0,0 +1,87 @@
+import { LiveServerMessage } from '@google/genai';
+import { InterrogatorProfile } from '../types';
+import { PcmBlob } from './audioUtils';
+import { OutputMode } from './audioOutput';
+import { downloadFile, fileStamp } from './fileUtils';
+import { validateProfile } from './profiles';
+
+export const RECORDING_VERSION = 2;
+
+export type RecordedEvent =
+  | { t: number; kind: 'audio'; media: PcmBlob }
+  | { t: number; kind: 'frame'; media: PcmBlob }
+  | { t: number; kind: 'message'; message: LiveServerMessage };
+
+export interface SessionRecording {
+  version: number;
+  backend: string;
+  /** Wall-clock start, epoch ms. Event times are offsets from here. */
+  startedAt: number;
+  /** How the model answered; a text-mode session's written analysis only exists as text parts. */
+  outputMode: OutputMode;
+  /** The profile the session ran under, whose tag format and bands its messages were read with. */
+  profile: InterrogatorProfile;
+  events: RecordedEvent[];
+}
+
+/**
+ * Captures everything that crosses the session boundary: outgoing PCM chunks
+ * and JPEG frames, and every incoming server message, each stamped with its
+ * offset from the start of the session.
+ */
+export class SessionRecorder {
+  private startedAt = Date.now();
+  private events: RecordedEvent[] = [];
+
+  constructor(private backend: string, private profile: InterrogatorProfile, private outputMode: OutputMode) {}
+
+  public recordInput(media: PcmBlob) {
+    const kind = media.mimeType.startsWith('image/') ? 'frame' : 'audio';
+    this.events.push({ t: this.elapsed(), kind, media });
+  }
+
+  public recordMessage(message: LiveServerMessage) {
+    // Round-trip through JSON so later mutation (or class getters) can't leak in
+    this.events.push({ t: this.elapsed(), kind: 'message', message: JSON.parse(JSON.stringify(message)) });
+  }
+
+  public finish(): SessionRecording {
+    return {
+      version: RECORDING_VERSION,
+      backend: this.backend,
+      startedAt: this.startedAt,
+      outputMode: this.outputMode,
+      profile: this.profile,
+      events: this.events,
+    };
+  }
+
+  private elapsed() {
+    return Date.now() - this.startedAt;
+  }
+}
+
+export function parseRecording(text: string): SessionRecording {
+  const data = JSON.parse(text);
+  if (!data || typeof data !== 'object' || !Array.isArray(data.events)) {
+    throw new Error('Not a session recording');
+  }
+  if (data.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version: ${data.version}`);
+  }
+  if (data.outputMode !== 'audio' && data.outputMode !== 'text') {
+    throw new Error(`Unknown output mode: ${data.outputMode}`);
+  }
+  const profile = validateProfile(data.profile);
+
+  const events = (data.events as RecordedEvent[])
+    .filter(event => typeof event?.t === 'number' && ['audio', 'frame', 'message'].includes(event.kind))
+    // Stable sort keeps same-millisecond events in capture order
+    .sort((a, b) => a.t - b.t);
+
+  return { ...data, profile, events };
+}
+
+export function downloadRecording(recording: SessionRecording) {
+  downloadFile(`veritas-session-${fileStamp(recording.startedAt)}.json`, JSON.stringify(recording), 'application/json');
+}
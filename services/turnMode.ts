@@ -0,0 +1,46 @@
+// Who decides when the subject's turn ends: the model's own voice detection,
+// the operator holding a push-to-talk key, or the operator asking for a verdict.
+
+import type { ActivityHandling, RealtimeInputConfig } from '@google/genai';
+
+const STORAGE_KEY = 'veritas-turn-mode';
+
+/**
+ * - `continuous`: the mic streams and the model cuts in when it hears a pause.
+ * - `push-to-talk`: audio is sent only while the talk key or button is held; releasing it ends the turn.
+ * - `manual`: the mic streams, but the model only answers when the operator presses ANALYZE NOW.
+ */
+export type TurnMode = 'continuous' | 'push-to-talk' | 'manual';
+
+/** The manual modes bracket each of the subject's turns with these. */
+export type ActivitySignal = 'start' | 'end';
+
+export const TURN_MODES: TurnMode[] = ['continuous', 'push-to-talk', 'manual'];
+
+/** Keyboard shortcuts while a session runs; `code` values, so they don't depend on the layout. */
+export const TALK_KEY = 'Space';
+export const ANALYZE_KEY = 'Enter';
+
+/**
+ * Realtime input settings for a mode. The manual modes switch off the model's
+ * voice detection, so it only takes a turn on an explicit activity end. In
+ * `manual` the next activity opens right after the last one closes, and must
+ * not cut off the answer the model is giving to it.
+ */
+export function realtimeInputConfig(mode: TurnMode): RealtimeInputConfig | undefined {
+  if (mode === 'continuous') return undefined;
+  return {
+    automaticActivityDetection: { disabled: true },
+    // String literals to avoid runtime enum issues
+    activityHandling: (mode === 'manual' ? 'NO_INTERRUPTION' : 'START_OF_ACTIVITY_INTERRUPTS') as ActivityHandling,
+  };
+}
+
+export function loadTurnMode(): TurnMode {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return TURN_MODES.includes(saved as TurnMode) ? (saved as TurnMode) : 'continuous';
+}
+
+export function saveTurnMode(mode: TurnMode) {
+  localStorage.setItem(STORAGE_KEY, mode);
+}
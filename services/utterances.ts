@@ -0,0 +1,95 @@
+import { LogEntry, Utterance } from '../types';
+
+/**
+ * Turns the streamed transcript into utterances. Fragments from the same
+ * speaker extend the open utterance; the other speaker starting, or the model
+ * completing its turn, closes it. Each model turn remembers the subject
+ * utterance before it, which is the statement its verdict scores.
+ */
+export class UtteranceTracker {
+  private utterances: Utterance[] = [];
+  private open: Utterance | null = null;
+  private lastSubject: Utterance | null = null;
+
+  /** Add a transcript fragment. Returns the utterance it landed in and whether that utterance is new. */
+  public add(text: string, speaker: Utterance['speaker'], time: number, mediaTime?: number, questionId?: string): { utterance: Utterance; isNew: boolean } {
+    if (this.open && this.open.speaker === speaker) {
+      this.open = { ...this.open, text: this.open.text + text, endedAt: time };
+      this.replace(this.open);
+      return { utterance: this.open, isNew: false };
+    }
+
+    this.closeOpen();
+    const utterance: Utterance = {
+      id: Math.random().toString(36).substr(2, 9),
+      speaker,
+      startedAt: time,
+      endedAt: time,
+      text,
+      complete: false,
+    };
+    if (speaker === 'model' && this.lastSubject) utterance.replyTo = this.lastSubject.id;
+    if (mediaTime !== undefined) utterance.mediaTime = mediaTime;
+    if (speaker === 'subject' && questionId !== undefined) utterance.questionId = questionId;
+
+    this.utterances.push(utterance);
+    this.open = utterance;
+    if (speaker === 'subject') this.lastSubject = utterance;
+    return { utterance, isNew: true };
+  }
+
+  /** The model finished or was interrupted: whatever is open is done. */
+  public completeTurn() {
+    this.closeOpen();
+  }
+
+  /** The subject utterance a verdict arriving now scores: what the current model turn answers, else the latest statement. */
+  public judged(): Utterance | null {
+    const replyTo = this.open?.speaker === 'model' ? this.open.replyTo : this.lastModel()?.replyTo;
+    return (replyTo && this.utterances.find(u => u.id === replyTo)) || this.lastSubject;
+  }
+
+  public get all(): Utterance[] {
+    return [...this.utterances];
+  }
+
+  public reset() {
+    this.utterances = [];
+    this.open = null;
+    this.lastSubject = null;
+  }
+
+  private lastModel(): Utterance | undefined {
+    for (let i = this.utterances.length - 1; i >= 0; i--) {
+      if (this.utterances[i].speaker === 'model') return this.utterances[i];
+    }
+    return undefined;
+  }
+
+  private closeOpen() {
+    if (!this.open) return;
+    this.open = { ...this.open, complete: true };
+    this.replace(this.open);
+    this.open = null;
+  }
+
+  private replace(utterance: Utterance) {
+    const index = this.utterances.findIndex(u => u.id === utterance.id);
+    if (index !== -1) this.utterances[index] = utterance;
+    if (this.lastSubject?.id === utterance.id) this.lastSubject = utterance;
+  }
+}
+
+/** Best-effort utterances for sessions archived before they were tracked: one per speech log entry, a second long. */
+export const utterancesFromLogs = (logs: LogEntry[]): Utterance[] =>
+  logs
+    .filter(log => !log.id.startsWith('sys-'))
+    .map(log => ({
+      id: log.id,
+      speaker: log.type === 'neutral' ? 'subject' : 'model',
+      startedAt: log.time,
+      endedAt: log.time + 1000,
+      text: log.message,
+      complete: true,
+      mediaTime: log.mediaTime,
+    }));
@@ -0,0 +1,36 @@
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Regex for a profile's tag format, e.g. '[欺骗率:XX%]' or '[DECEPTION:XX%]'.
+ * Tolerant of what the model actually emits: stray spaces, full-width colons
+ * and any letter case.
+ */
+export function tagPattern(format: string): RegExp {
+  const source = format
+    .trim()
+    .split('XX')
+    .map(part =>
+      Array.from(part)
+        .map(char => (char === ':' || char === '：' ? '[:：]' : /\s/.test(char) ? '' : escapeRegExp(char)))
+        .join('\\s*')
+    )
+    .join('\\s*(\\d+)\\s*');
+  return new RegExp(source, 'i');
+}
+
+// Matches [欺骗率:80%] or variations (full-width colon, stray spaces)
+export const VERDICT_TAG_PATTERN = tagPattern('[欺骗率:XX%]');
+
+export function parseVerdictTag(text: string, pattern = VERDICT_TAG_PATTERN): number | null {
+  const match = text.match(pattern);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+export function parseAllVerdictTags(text: string, pattern = VERDICT_TAG_PATTERN): number[] {
+  const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+  return Array.from(text.matchAll(global), match => parseInt(match[1], 10));
+}
+
+export function stripVerdictTag(text: string, pattern = VERDICT_TAG_PATTERN): string {
+  return text.replace(pattern, '').trim();
+}
@@ -0,0 +1,70 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse } from '@google/genai';
+import { Verdict } from '../types';
+import { CUE_IDS, CUE_TAXONOMY, OTHER_CUE, validCueIds } from './cues';
+
+export const REPORT_VERDICT = 'report_verdict';
+
+export const reportVerdictDeclaration: FunctionDeclaration = {
+  name: REPORT_VERDICT,
+  description: '提交对目标最近一句陈述的测谎判定。每次判定都必须调用。',
+  parametersJsonSchema: {
+    type: 'object',
+    properties: {
+      probability: {
+        type: 'integer',
+        minimum: 0,
+        maximum: 100,
+        description: '欺骗率，0-100 的整数。',
+      },
+      cues: {
+        type: 'array',
+        items: { type: 'string' },
+        description: '观察到的可疑线索，例如 "声音颤抖"、"逻辑矛盾"、"触摸面部"。',
+      },
+      cue_ids: {
+        type: 'array',
+        items: { type: 'string', enum: [...CUE_IDS, OTHER_CUE] },
+        description: `cues 对应的线索编号，从固定列表中选：${CUE_TAXONOMY.map(cue => `${cue.id}（${cue.name}）`).join('、')}；列表外的线索用 ${OTHER_CUE}。`,
+      },
+      rationale: {
+        type: 'string',
+        description: '一句简短、冷酷的判定理由。',
+      },
+      utterance: {
+        type: 'string',
+        description: '被判定的目标原话。',
+      },
+    },
+    required: ['probability', 'rationale'],
+  },
+};
+
+const clampProbability = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+/** Turn a report_verdict call into a Verdict, or null if the arguments are unusable. */
+export function parseVerdictCall(call: FunctionCall): Verdict | null {
+  if (call.name !== REPORT_VERDICT || !call.args) return null;
+
+  const { probability, cues, cue_ids, rationale, utterance } = call.args;
+  const numeric = typeof probability === 'string' ? parseFloat(probability) : probability;
+  if (typeof numeric !== 'number' || Number.isNaN(numeric)) return null;
+
+  return {
+    id: call.id || Math.random().toString(36).substr(2, 9),
+    probability: clampProbability(numeric),
+    cues: Array.isArray(cues) ? cues.filter((cue): cue is string => typeof cue === 'string') : [],
+    // Left out when the model gave none, so the cue texts get classified instead
+    ...(validCueIds(cue_ids).length > 0 ? { cueIds: validCueIds(cue_ids) } : {}),
+    rationale: typeof rationale === 'string' ? rationale.trim() : '',
+    utterance: typeof utterance === 'string' ? utterance.trim() : '',
+    source: 'tool',
+    receivedAt: Date.now(),
+  };
+}
+
+/** What the model is told back for a call: recorded, or why it wasn't. */
+export const verdictToolResponse = (call: FunctionCall, verdict: Verdict | null): FunctionResponse => ({
+  id: call.id,
+  name: call.name,
+  response: verdict ? { output: 'recorded' } : { error: 'unrecognized call or malformed arguments' },
+});
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { UtteranceSegmenter, analyzeUtterance, estimatePitch, parseWav, rms } from './vocalFeatures';
+
+const RATE = 16000;
+
+/** `seconds` of a sine at `hz`; `gain` above 1 is clipped to full scale like an overdriven mic. */
+function sine(hz: number, seconds: number, gain = 0.5, rate = RATE): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * rate));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.max(-1, Math.min(1, gain * Math.sin((2 * Math.PI * hz * i) / rate)));
+  }
+  return samples;
+}
+
+const silence = (seconds: number, rate = RATE) => new Float32Array(Math.round(seconds * rate));
+
+const concat = (...parts: Float32Array[]) => {
+  const out = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+/** A WAV file around the given channels, as 16-bit PCM or 32-bit float. */
+function wav(channels: Float32Array[], rate = RATE, encoding: 'pcm16' | 'float32' = 'pcm16'): ArrayBuffer {
+  const bytes = encoding === 'pcm16' ? 2 : 4;
+  const frames = channels[0].length;
+  const dataLength = frames * channels.length * bytes;
+  const view = new DataView(new ArrayBuffer(44 + dataLength));
+  const tag = (offset: number, text: string) => [...text].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+  tag(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  tag(8, 'WAVE');
+  tag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, encoding === 'pcm16' ? 1 : 3, true);
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, rate, true);
+  view.setUint32(28, rate * channels.length * bytes, true);
+  view.setUint16(32, channels.length * bytes, true);
+  view.setUint16(34, bytes * 8, true);
+  tag(36, 'data');
+  view.setUint32(40, dataLength, true);
+  for (let i = 0; i < frames; i++) {
+    channels.forEach((channel, c) => {
+      const at = 44 + (i * channels.length + c) * bytes;
+      if (encoding === 'pcm16') view.setInt16(at, Math.round(channel[i] * 32767), true);
+      else view.setFloat32(at, channel[i], true);
+    });
+  }
+  return view.buffer;
+}
+
+describe('parseWav', () => {
+  it('decodes 16-bit mono PCM', () => {
+    const source = sine(220, 0.1);
+    const { sampleRate, samples } = parseWav(wav([source]));
+    expect(sampleRate).toBe(RATE);
+    expect(samples.length).toBe(source.length);
+    for (let i = 0; i < samples.length; i += 97) expect(samples[i]).toBeCloseTo(source[i], 3);
+  });
+
+  it('decodes 32-bit float and mixes channels down to mono', () => {
+    const left = sine(220, 0.05, 0.8, 8000);
+    const right = silence(0.05, 8000);
+    const { sampleRate, samples } = parseWav(wav([left, right], 8000, 'float32'));
+    expect(sampleRate).toBe(8000);
+    for (let i = 0; i < samples.length; i += 31) expect(samples[i]).toBeCloseTo(left[i] / 2, 6);
+  });
+
+  it('rejects files that are not WAV', () => {
+    expect(() => parseWav(new TextEncoder().encode('definitely not audio').buffer)).toThrow('Not a WAV file');
+  });
+});
+
+describe('estimatePitch', () => {
+  it.each([110, 200, 330])('finds the F0 of a %i Hz sine', hz => {
+    const pitch = estimatePitch(sine(hz, 0.04), RATE);
+    expect(pitch).not.toBeNull();
+    expect(Math.abs(pitch! - hz) / hz).toBeLessThan(0.01);
+  });
+
+  it('reports silence as unvoiced', () => {
+    expect(estimatePitch(silence(0.04), RATE)).toBeNull();
+  });
+
+  it('keeps the F0 of clipped input', () => {
+    const clipped = sine(150, 0.04, 4);
+    expect(Math.max(...clipped)).toBe(1);
+    const pitch = estimatePitch(clipped, RATE);
+    expect(Math.abs(pitch! - 150) / 150).toBeLessThan(0.01);
+  });
+});
+
+describe('analyzeUtterance', () => {
+  it('measures a steady tone as one pitch with next to no jitter or shimmer', () => {
+    const features = analyzeUtterance(parseWav(wav([sine(180, 1)])).samples, RATE, 5, 4);
+    expect(features.startedAt).toBe(5);
+    expect(features.durationSec).toBeCloseTo(1, 3);
+    expect(Math.abs(features.f0MeanHz! - 180)).toBeLessThan(2);
+    expect(features.f0SdHz!).toBeLessThan(1);
+    expect(features.jitter!).toBeLessThan(0.005);
+    expect(features.shimmer!).toBeLessThan(0.01);
+    expect(features.pauseRatio).toBe(0);
+    expect(features.speechRate).toBeCloseTo(4, 1);
+  });
+
+  it('finds nothing voiced in silence', () => {
+    const features = analyzeUtterance(silence(1), RATE);
+    expect(features.f0MeanHz).toBeNull();
+    expect(features.jitter).toBeNull();
+    expect(features.shimmer).toBeNull();
+    expect(features.pauseRatio).toBe(1);
+  });
+
+  it('counts pauses and measures only the voiced part', () => {
+    const features = analyzeUtterance(concat(sine(200, 0.6), silence(0.4)), RATE);
+    expect(features.pauseRatio).toBeCloseTo(0.4, 1);
+    expect(Math.abs(features.f0MeanHz! - 200)).toBeLessThan(2);
+  });
+
+  it('keeps the pitch and a flat amplitude for clipped input', () => {
+    const features = analyzeUtterance(sine(150, 1, 4), RATE);
+    expect(Math.abs(features.f0MeanHz! - 150)).toBeLessThan(2);
+    expect(features.shimmer!).toBeLessThan(0.01);
+  });
+
+  it('shows a wavering pitch as jitter and a wavering level as shimmer', () => {
+    // Alternate pitch and level every 40 ms analysis frame
+    const frames = Array.from({ length: 25 }, (_, i) => sine(i % 2 ? 170 : 190, 0.04, i % 2 ? 0.3 : 0.6));
+    const features = analyzeUtterance(concat(...frames), RATE);
+    expect(features.jitter!).toBeGreaterThan(0.05);
+    expect(features.shimmer!).toBeGreaterThan(0.3);
+    expect(features.f0SdHz!).toBeGreaterThan(5);
+  });
+});
+
+describe('UtteranceSegmenter', () => {
+  const chunks = (samples: Float32Array, size = 1600) => {
+    const out: Float32Array[] = [];
+    for (let i = 0; i < samples.length; i += size) out.push(samples.subarray(i, i + size));
+    return out;
+  };
+
+  it('closes an utterance after the end silence and drops the silent tail', () => {
+    const segmenter = new UtteranceSegmenter(RATE);
+    const found = chunks(concat(silence(0.3), sine(200, 1), silence(0.8)))
+      .map(chunk => segmenter.push(chunk))
+      .filter(u => u !== null);
+    expect(found).toHaveLength(1);
+    expect(found[0]!.samples.length).toBe(RATE);
+    expect(rms(found[0]!.samples)).toBeGreaterThan(0.3);
+  });
+
+  it('ignores blips shorter than an utterance', () => {
+    const segmenter = new UtteranceSegmenter(RATE);
+    chunks(concat(sine(200, 0.1), silence(0.8))).forEach(chunk => expect(segmenter.push(chunk)).toBeNull());
+    expect(segmenter.flush()).toBeNull();
+  });
+});
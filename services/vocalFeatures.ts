@@ -0,0 +1,282 @@
+// Pure DSP helpers for the microphone signal. No DOM or Web Audio here so they can run anywhere.
+
+import { SubjectBaseline, VocalFeatures } from '../types';
+
+export function rms(samples: Float32Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+const MIN_PITCH_HZ = 70;
+const MAX_PITCH_HZ = 400;
+const VOICING_THRESHOLD = 0.5;
+
+/**
+ * Fundamental frequency by normalised autocorrelation over the speech range
+ * (70-400 Hz). Returns null for silence or unvoiced frames.
+ */
+export function estimatePitch(samples: Float32Array, sampleRate: number, silenceRms = 0.01): number | null {
+  if (rms(samples) < silenceRms) return null;
+
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+  const maxLag = Math.min(Math.floor(sampleRate / MIN_PITCH_HZ), samples.length - 1);
+  if (maxLag <= minLag) return null;
+
+  let energy = 0;
+  for (let i = 0; i < samples.length; i++) energy += samples[i] * samples[i];
+
+  let bestLag = -1;
+  let bestCorrelation = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < samples.length; i++) {
+      sum += samples[i] * samples[i + lag];
+    }
+    const correlation = sum / energy;
+    if (correlation > bestCorrelation) {
+      bestCorrelation = correlation;
+      bestLag = lag;
+    }
+  }
+
+  if (bestLag < 0 || bestCorrelation < VOICING_THRESHOLD) return null;
+
+  // Parabolic interpolation around the peak for sub-sample precision
+  const at = (lag: number) => {
+    let sum = 0;
+    for (let i = 0; i + lag < samples.length; i++) sum += samples[i] * samples[i + lag];
+    return sum;
+  };
+  if (bestLag > minLag && bestLag < maxLag) {
+    const prev = at(bestLag - 1);
+    const peak = at(bestLag);
+    const next = at(bestLag + 1);
+    const denominator = prev - 2 * peak + next;
+    if (denominator !== 0) {
+      return sampleRate / (bestLag + (0.5 * (prev - next)) / denominator);
+    }
+  }
+  return sampleRate / bestLag;
+}
+
+/** Below this RMS a mic chunk counts as silence, not speech. */
+export const VOICED_RMS = 0.02;
+
+const FRAME_SEC = 0.04;
+
+const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+/** Mean absolute difference between neighbours, relative to the mean. */
+const relativeVariation = (values: number[]): number | null => {
+  if (values.length < 2) return null;
+  let diff = 0;
+  for (let i = 1; i < values.length; i++) diff += Math.abs(values[i] - values[i - 1]);
+  const m = average(values);
+  return m > 0 ? diff / (values.length - 1) / m : null;
+};
+
+/**
+ * Voice measurements over one utterance, from 40 ms frames. Jitter and
+ * shimmer are taken frame to frame rather than cycle to cycle, so they also
+ * pick up intonation: compare them against the subject's own baseline, not
+ * clinical norms. `characters` is the transcript length for speech rate.
+ */
+export function analyzeUtterance(samples: Float32Array, sampleRate: number, startedAt = 0, characters?: number): VocalFeatures {
+  const frameLength = Math.round(sampleRate * FRAME_SEC);
+  const pitches: number[] = [];
+  let frames = 0;
+  let silent = 0;
+  // Jitter and shimmer only make sense across unbroken voiced runs
+  let previousVoiced = false;
+  let runPeriods: number[] = [];
+  let runAmplitudes: number[] = [];
+  const jitterRuns: number[] = [];
+  const shimmerRuns: number[] = [];
+  const closeRun = () => {
+    const jitter = relativeVariation(runPeriods);
+    const shimmer = relativeVariation(runAmplitudes);
+    if (jitter !== null) jitterRuns.push(jitter);
+    if (shimmer !== null) shimmerRuns.push(shimmer);
+    runPeriods = [];
+    runAmplitudes = [];
+  };
+
+  for (let offset = 0; offset + frameLength <= samples.length; offset += frameLength) {
+    const frame = samples.subarray(offset, offset + frameLength);
+    const level = rms(frame);
+    frames++;
+    if (level < VOICED_RMS) silent++;
+
+    const pitch = level < VOICED_RMS ? null : estimatePitch(frame, sampleRate);
+    if (pitch === null) {
+      if (previousVoiced) closeRun();
+      previousVoiced = false;
+      continue;
+    }
+    let peak = 0;
+    for (let i = 0; i < frame.length; i++) peak = Math.max(peak, Math.abs(frame[i]));
+    pitches.push(pitch);
+    runPeriods.push(1 / pitch);
+    runAmplitudes.push(peak);
+    previousVoiced = true;
+  }
+  closeRun();
+
+  const durationSec = samples.length / sampleRate;
+  const spokenSec = (frames - silent) * FRAME_SEC;
+  const f0MeanHz = pitches.length > 0 ? average(pitches) : null;
+
+  return {
+    startedAt,
+    durationSec,
+    f0MeanHz,
+    f0SdHz: f0MeanHz === null ? null : Math.sqrt(average(pitches.map(p => (p - f0MeanHz) * (p - f0MeanHz)))),
+    jitter: jitterRuns.length > 0 ? average(jitterRuns) : null,
+    shimmer: shimmerRuns.length > 0 ? average(shimmerRuns) : null,
+    speechRate: characters !== undefined && spokenSec >= 0.5 ? characters / spokenSec : null,
+    pauseRatio: frames > 0 ? silent / frames : 0,
+  };
+}
+
+/** Silence that ends an utterance. */
+export const END_SILENCE_SEC = 0.7;
+const MIN_UTTERANCE_SEC = 0.4;
+const MAX_UTTERANCE_SEC = 15;
+
+/**
+ * Splits a stream of mic chunks into utterances: speech bounded by at least
+ * 0.7 s of silence, capped at 15 s so long monologues still get measured.
+ */
+export class UtteranceSegmenter {
+  private chunks: Float32Array[] = [];
+  private length = 0;
+  private trailingSilence = 0;
+  private startedAt = 0;
+
+  constructor(private sampleRate: number) {}
+
+  /** Feed one chunk; returns the finished utterance when this chunk closes one. */
+  public push(chunk: Float32Array, time = Date.now()): { samples: Float32Array; startedAt: number } | null {
+    const voiced = rms(chunk) >= VOICED_RMS;
+    if (this.length === 0 && !voiced) return null;
+    if (this.length === 0) this.startedAt = time;
+
+    // Capture buffers are reused between callbacks, so keep a copy
+    this.chunks.push(chunk.slice());
+    this.length += chunk.length;
+    this.trailingSilence = voiced ? 0 : this.trailingSilence + chunk.length;
+
+    const ended = this.trailingSilence >= END_SILENCE_SEC * this.sampleRate;
+    if (!ended && this.length < MAX_UTTERANCE_SEC * this.sampleRate) return null;
+    return this.flush();
+  }
+
+  /** Close whatever is buffered, e.g. when capture stops. */
+  public flush(): { samples: Float32Array; startedAt: number } | null {
+    // Trailing silence belongs to the gap, not the answer
+    const keep = this.length - this.trailingSilence;
+    const chunks = this.chunks;
+    this.chunks = [];
+    this.length = 0;
+    this.trailingSilence = 0;
+    if (keep < MIN_UTTERANCE_SEC * this.sampleRate) return null;
+
+    const samples = new Float32Array(keep);
+    let offset = 0;
+    for (const chunk of chunks) {
+      if (offset >= keep) break;
+      samples.set(chunk.subarray(0, keep - offset), offset);
+      offset += chunk.length;
+    }
+    return { samples, startedAt: this.startedAt };
+  }
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Heuristic 0-100 vocal stress index. Raised pitch, unsteady pitch and
+ * amplitude, hesitation and a changed speaking rate each add to it. With a
+ * calibrated baseline, pitch and rate are judged against the subject's own
+ * neutral voice; without one, against generic adult speech.
+ */
+export function vocalStressScore(features: VocalFeatures, baseline?: SubjectBaseline): number {
+  const parts: { weight: number; value: number }[] = [];
+
+  if (features.jitter !== null) parts.push({ weight: 0.25, value: clamp01((features.jitter - 0.02) / 0.06) });
+  if (features.shimmer !== null) parts.push({ weight: 0.2, value: clamp01((features.shimmer - 0.1) / 0.3) });
+  if (features.f0MeanHz !== null) {
+    const pitch = baseline && baseline.pitchHz.count > 0
+      ? clamp01((features.f0MeanHz / baseline.pitchHz.mean - 1) / 0.2)
+      : clamp01(((features.f0SdHz ?? 0) / features.f0MeanHz - 0.1) / 0.2);
+    parts.push({ weight: 0.25, value: pitch });
+  }
+  parts.push({ weight: 0.15, value: clamp01((features.pauseRatio - 0.2) / 0.4) });
+  if (features.speechRate !== null && baseline?.speechRate) {
+    parts.push({ weight: 0.15, value: clamp01(Math.abs(features.speechRate / baseline.speechRate - 1) / 0.4) });
+  }
+
+  const weight = parts.reduce((a, p) => a + p.weight, 0);
+  return Math.round((parts.reduce((a, p) => a + p.weight * p.value, 0) / weight) * 100);
+}
+
+/** One-line summary sent to the model as context next to the subject's transcript. */
+export function describeVocalFeatures(features: VocalFeatures): string {
+  const percent = (value: number | null) => (value === null ? '--' : `${(value * 100).toFixed(1)}%`);
+  return [
+    `[本地声学 / LOCAL VOICE] ${features.durationSec.toFixed(1)}s`,
+    `F0 ${features.f0MeanHz === null ? '--' : `${Math.round(features.f0MeanHz)}±${Math.round(features.f0SdHz ?? 0)}Hz`}`,
+    `jitter ${percent(features.jitter)}`,
+    `shimmer ${percent(features.shimmer)}`,
+    `语速 ${features.speechRate === null ? '--' : `${features.speechRate.toFixed(1)}字/秒`}`,
+    `停顿 ${percent(features.pauseRatio)}`,
+  ].join(' · ') + '。仅供参考，不要复述。';
+}
+
+/**
+ * Decode a PCM WAV file (16-bit integer or 32-bit float, any channel count,
+ * mixed down to mono) so recorded clips can be run through the analysis above.
+ */
+export function parseWav(buffer: ArrayBuffer): { sampleRate: number; samples: Float32Array } {
+  const view = new DataView(buffer);
+  const tag = (offset: number) => String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+  if (buffer.byteLength < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') throw new Error('Not a WAV file');
+
+  let format = 0, channels = 0, sampleRate = 0, bits = 0;
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bits = view.getUint16(body + 14, true);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in the sub-format GUID
+      if (format === 0xfffe && size >= 26) format = view.getUint16(body + 24, true);
+    } else if (id === 'data') {
+      if (!channels) throw new Error('WAV data before format chunk');
+      const bytes = bits / 8;
+      const frames = Math.floor(Math.min(size, buffer.byteLength - body) / (bytes * channels));
+      const samples = new Float32Array(frames);
+      for (let i = 0; i < frames; i++) {
+        let sum = 0;
+        for (let c = 0; c < channels; c++) {
+          const at = body + (i * channels + c) * bytes;
+          if (format === 1 && bits === 16) sum += view.getInt16(at, true) / 32768;
+          else if (format === 3 && bits === 32) sum += view.getFloat32(at, true);
+          else throw new Error(`Unsupported WAV encoding (format ${format}, ${bits}-bit)`);
+        }
+        samples[i] = sum / channels;
+      }
+      return { sampleRate, samples };
+    }
+    offset = body + size + (size % 2);
+  }
+  throw new Error('WAV file has no data chunk');
+}
@@ -1,19 +1,221 @@
 export interface LogEntry {
+  /** Speech entries share the id of the utterance they show. */
   id: string;
+  /** Epoch ms when the entry was created; `timestamp` is its display form. */
+  time: number;
   timestamp: string;
   message: string;
   type: 'neutral' | 'truth' | 'deception' | 'system';
+  /** Seconds into the analyzed file, for sessions run on a recorded interview. */
+  mediaTime?: number;
 }
 
 export enum SessionStatus {
   IDLE = 'IDLE',
   CONNECTING = 'CONNECTING',
   ACTIVE = 'ACTIVE',
+  /** Link dropped mid-session; capture and the log keep running while the backend retries. */
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR'
 }
 
+export type PulseStatus = 'ok' | 'warming-up' | 'no-face' | 'low-quality';
+
+/** Camera-based (rPPG) pulse estimate. `bpm` is null whenever there is no trustworthy signal. */
+export interface PulseReading {
+  bpm: number | null;
+  /** Share of in-band spectral power on the pulse peak, 0-1. */
+  quality: number;
+  status: PulseStatus;
+}
+
 export interface BiometricData {
-  heartRate: number;
-  stressLevel: number;
+  pulse: PulseReading;
+  /** Vocal stress index 0-100 from the last utterances; null until the subject has spoken. */
+  stressLevel: number | null;
   pupilDilation: number;
 }
+
+
+export interface Verdict {
+  id: string;
+  probability: number;
+  cues: string[];
+  /** The cues mapped onto the fixed taxonomy (services/cues.ts); absent in sessions from before it existed. */
+  cueIds?: string[];
+  rationale: string;
+  /** The subject's statement this verdict judges. */
+  utterance: string;
+  /** 'tool' when reported through report_verdict, 'tag' when scraped from the transcript. */
+  source: 'tool' | 'tag';
+  receivedAt: number;
+  /** Interview-plan question that was active when the verdict arrived. */
+  questionId?: string;
+  /** Where the judged statement starts in the analyzed file, in seconds. */
+  mediaTime?: number;
+  /** The subject utterance this verdict scored; absent in sessions from before utterances were tracked. */
+  utteranceId?: string;
+}
+
+/** One speaker's turn in the transcript, assembled from streamed fragments. */
+export interface Utterance {
+  id: string;
+  speaker: 'subject' | 'model';
+  /** Epoch ms of the first and the latest fragment. */
+  startedAt: number;
+  endedAt: number;
+  text: string;
+  /** Closed by the model's turnComplete (or interruption), or by the other speaker taking over. */
+  complete: boolean;
+  /** For model turns: the subject utterance it answers. */
+  replyTo?: string;
+  /** Seconds into the analyzed file where the utterance starts. */
+  mediaTime?: number;
+  /** For subject statements: the planned question on screen when it began. */
+  questionId?: string;
+}
+
+/** One model turn as it was spoken. */
+export interface ModelAudioClip {
+  /** The model utterance it voices; missing when the turn had no transcript. */
+  replyId?: string;
+  /** Epoch ms of the first audio chunk. */
+  startedAt: number;
+  durationSec: number;
+  /** 24 kHz mono WAV. */
+  audio: Blob;
+}
+
+export type QuestionCategory = 'control' | 'relevant' | 'irrelevant';
+
+export interface InterviewQuestion {
+  id: string;
+  text: string;
+  category: QuestionCategory;
+}
+
+export interface ProbabilitySample {
+  time: number;
+  value: number;
+}
+
+export interface ArchivedSession {
+  id: string;
+  name: string;
+  backend: string;
+  startedAt: number;
+  endedAt: number;
+  logs: LogEntry[];
+  /** Full probability series, one sample per second. */
+  history: ProbabilitySample[];
+  verdicts: Verdict[];
+  finalProbability: number;
+  lastAnalysis: string;
+  /** The interview plan, if the session followed one. */
+  questions?: InterviewQuestion[];
+  subject?: string;
+  /** The subject's baseline in effect during the session. */
+  baseline?: SubjectBaseline;
+  /** The interrogator profile the session ran with; older sessions used the built-in Chinese one. */
+  profile?: InterrogatorProfile;
+  /** Name of the analyzed file, for sessions run on a recording instead of the camera. */
+  mediaFile?: string;
+  /** Both speakers' turns; older sessions only have `logs`. */
+  utterances?: Utterance[];
+  /** The consent acknowledged before the session started; absent for sessions from before the consent gate. */
+  consent?: ConsentRecord;
+  /** What the operator knows each statement to have been, keyed by its log entry id. */
+  labels?: Record<string, GroundTruth>;
+  /** The model's spoken replies, when they were recorded. */
+  modelAudio?: ModelAudioClip[];
+}
+
+/** Whether a statement was in fact true, as marked by the operator. Unlabeled statements have no entry. */
+export type GroundTruth = 'true' | 'false' | 'unknown';
+
+/** On-device redaction applied before anything is sent for analysis. */
+export interface RedactionSettings {
+  /** Blur everything in sent frames except the tracked subject's face. */
+  blurBackground: boolean;
+  /** Words masked in outgoing text, the log and the archive (case-insensitive). */
+  keywords: string[];
+}
+
+/** The operator's record that the subject agreed to their audio and video being sent for analysis. */
+export interface ConsentRecord {
+  subject: string;
+  operator: string;
+  acknowledgedAt: number;
+  /** Redaction in force for the session. */
+  redaction: RedactionSettings;
+}
+
+/** A tracked face, in fractions (0–1) of the video frame. */
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Local measurements of one captured mic chunk. */
+export interface AudioFrameFeatures {
+  time: number;
+  durationSec: number;
+  rms: number;
+  pitchHz: number | null;
+}
+
+export interface FeatureStats {
+  count: number;
+  mean: number;
+  sd: number;
+}
+
+export interface SubjectBaseline {
+  subject: string;
+  recordedAt: number;
+  /** Model deception scores given to neutral answers. */
+  score: FeatureStats;
+  rms: FeatureStats;
+  pitchHz: FeatureStats;
+  /** Transcribed characters per second of voiced audio. */
+  speechRate: number | null;
+}
+
+/** Voice measurements over one subject utterance (speech bounded by pauses). */
+export interface VocalFeatures {
+  startedAt: number;
+  durationSec: number;
+  f0MeanHz: number | null;
+  f0SdHz: number | null;
+  /** Relative period-to-period F0 variation, frame level (0.01 = 1%). */
+  jitter: number | null;
+  /** Relative frame-to-frame amplitude variation. */
+  shimmer: number | null;
+  /** Transcribed characters per second of speech; null without a transcript. */
+  speechRate: number | null;
+  /** Share of the utterance spent in silence. */
+  pauseRatio: number;
+}
+
+/** Score thresholds: `suspicious` and above is suspicious, above `deception` is deception. */
+export interface VerdictBands {
+  suspicious: number;
+  deception: number;
+}
+
+/** Everything that shapes how the model interrogates: prompt, language, voice, model and how its verdicts are read. */
+export interface InterrogatorProfile {
+  id: string;
+  name: string;
+  /** BCP-47 code for the model's spoken output, e.g. 'zh-CN'. */
+  language: string;
+  /** System instruction; see `renderPrompt` for the placeholders. */
+  promptTemplate: string;
+  /** The inline verdict tag with `XX` where the number goes, e.g. '[DECEPTION:XX%]'. */
+  tagFormat: string;
+  voice: string;
+  model: string;
+  bands: VerdictBands;
+}
@@ -11,8 +11,13 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Behind the relay the key stays server-side and must not end up in the bundle
+        'process.env.API_KEY': JSON.stringify(env.RELAY_URL ? '' : env.GEMINI_API_KEY),
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.RELAY_URL ? '' : env.GEMINI_API_KEY),
+        'process.env.RELAY_URL': JSON.stringify(env.RELAY_URL),
+        'process.env.ANALYSIS_BACKEND': JSON.stringify(env.ANALYSIS_BACKEND),
+        'process.env.AUDIO_CHUNK_MS': JSON.stringify(env.AUDIO_CHUNK_MS),
+        'process.env.VIDEO_BUDGET_KBPS': JSON.stringify(env.VIDEO_BUDGET_KBPS)
       },
       resolve: {
         alias: {